@@ -0,0 +1,307 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import { type AccessScope, type UserRole } from '@/config/diocese'
+import { QUERY_AUDIT_CONFIG } from '@/config/query-audit'
+import { loadAccessScope } from '@/lib/access-scope'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+} from '@/lib/connection-profiles'
+import { getPoolMetrics } from '@/lib/db-pool'
+import {
+  queryAuditFiltersSchema,
+  selectQueryAudit,
+  toQueryAuditEntry,
+  type QueryAuditEntry,
+  type QueryAuditFilters,
+} from '@/lib/query-audit'
+import { withReadOnlyTransaction } from '@/lib/read-only-query'
+import {
+  createAdminClient,
+  listAllUsers,
+  selectAllRows,
+} from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+export type AdminUser = {
+  id: string
+  email: string | null
+  createdAt: string
+  lastSignInAt: string | null
+  chatCount: number
+  scope: AccessScope | null
+}
+
+export type QueryAuditPage = {
+  entries: QueryAuditEntry[]
+  total: number
+  // Pass the last entry's id to get the next page
+  nextBeforeId: number | null
+  emails: Record<string, string>
+}
+
+export type ScopeOptions = {
+  dioceses: { id: number; name: string }[]
+  testingCenters: { id: number; name: string; dioceseId: number }[]
+}
+
+const scopeSchema = z
+  .object({
+    userId: z.string().uuid(),
+    role: z.enum(['diocese_manager', 'school_manager']),
+    dioceseIds: z.array(z.number().int()).min(1, 'Pick at least one diocese'),
+    testingCenterIds: z.array(z.number().int()),
+  })
+  .refine(
+    (scope) =>
+      scope.role !== 'school_manager' || scope.testingCenterIds.length > 0,
+    { message: 'School managers need at least one testing center' }
+  )
+
+// Returns the signed-in user's id when they are a super admin
+async function requireSuperAdmin() {
+  const client = await createClient()
+
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+
+  if (!user) {
+    return null
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  return scope?.role === 'super_admin' ? user.id : null
+}
+
+// Super admins are managed in the database directly, not from the console
+async function isProtectedUser(adminId: string, userId: string) {
+  if (userId === adminId) {
+    return true
+  }
+
+  const { data } = await createAdminClient()
+    .from('user_scopes')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return data?.role === 'super_admin'
+}
+
+export async function getAdminUsers() {
+  if (!(await requireSuperAdmin())) {
+    return { error: 'Forbidden' }
+  }
+
+  const admin = createAdminClient()
+
+  const { users, error: usersError } = await listAllUsers(admin)
+
+  if (usersError) {
+    console.error('Error listing users:', usersError)
+    return { error: 'Error listing users' }
+  }
+
+  const { data: scopes, error: scopesError } = await selectAllRows((from, to) =>
+    admin
+      .from('user_scopes')
+      .select('user_id, role, diocese_ids, testing_center_ids')
+      .order('user_id')
+      .range(from, to)
+  )
+
+  if (scopesError) {
+    console.error('Error fetching user scopes:', scopesError)
+    return { error: 'Error fetching user scopes' }
+  }
+
+  // One row per user, so paged like the users themselves
+  const { data: chatCounts, error: chatCountsError } = await selectAllRows(
+    (from, to) => admin.rpc('chat_counts').order('user_id').range(from, to)
+  )
+
+  if (chatCountsError) {
+    console.error('Error counting chats:', chatCountsError)
+    return { error: 'Error counting chats' }
+  }
+
+  const data: AdminUser[] = users.map((user) => {
+    const scope = scopes.find((s) => s.user_id === user.id)
+    return {
+      id: user.id,
+      email: user.email ?? null,
+      createdAt: user.created_at,
+      lastSignInAt: user.last_sign_in_at ?? null,
+      chatCount: Number(
+        chatCounts.find((count) => count.user_id === user.id)?.chats ?? 0
+      ),
+      scope: scope
+        ? {
+            role: scope.role as UserRole,
+            dioceseIds: scope.diocese_ids,
+            testingCenterIds: scope.testing_center_ids,
+          }
+        : null,
+    }
+  })
+
+  return { data }
+}
+
+export async function getScopeOptions(connectionProfileId: string) {
+  if (!(await requireSuperAdmin())) {
+    return { error: 'Forbidden' }
+  }
+
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  try {
+    const data = await withReadOnlyTransaction(
+      connectionString,
+      'super_admin',
+      async (client): Promise<ScopeOptions> => {
+        const dioceses = await client.query(
+          'SELECT id, name FROM dioceses ORDER BY name'
+        )
+        const testingCenters = await client.query(
+          'SELECT id, name, diocese_id FROM testing_centers ORDER BY name'
+        )
+        return {
+          dioceses: dioceses.rows,
+          testingCenters: testingCenters.rows.map((row) => ({
+            id: row.id,
+            name: row.name,
+            dioceseId: row.diocese_id,
+          })),
+        }
+      }
+    )
+    return { data }
+  } catch (error) {
+    console.error('Error fetching scope options:', error)
+    return { error: 'Error fetching dioceses and testing centers' }
+  }
+}
+
+export async function updateUserScope(input: z.infer<typeof scopeSchema>) {
+  const adminId = await requireSuperAdmin()
+  if (!adminId) {
+    return { error: 'Forbidden' }
+  }
+
+  const parsed = scopeSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const { userId, role, dioceseIds, testingCenterIds } = parsed.data
+
+  if (await isProtectedUser(adminId, userId)) {
+    return { error: 'This user cannot be changed from the admin console' }
+  }
+
+  const { error } = await createAdminClient()
+    .from('user_scopes')
+    .upsert({
+      user_id: userId,
+      role,
+      diocese_ids: dioceseIds,
+      testing_center_ids: role === 'school_manager' ? testingCenterIds : [],
+      updated_at: new Date().toISOString(),
+    })
+
+  if (error) {
+    console.error('Error updating user scope:', error)
+    return { error: 'Unexpected error updating access' }
+  }
+
+  revalidatePath('/app/admin')
+
+  return { success: 'Access updated' }
+}
+
+export async function removeUserScope(userId: string) {
+  const adminId = await requireSuperAdmin()
+  if (!adminId) {
+    return { error: 'Forbidden' }
+  }
+
+  if (await isProtectedUser(adminId, userId)) {
+    return { error: 'This user cannot be changed from the admin console' }
+  }
+
+  const { error } = await createAdminClient()
+    .from('user_scopes')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Error removing user scope:', error)
+    return { error: 'Unexpected error removing access' }
+  }
+
+  revalidatePath('/app/admin')
+
+  return { success: 'Access removed' }
+}
+
+export async function getDatabasePoolMetrics() {
+  if (!(await requireSuperAdmin())) {
+    return { error: 'Forbidden' }
+  }
+
+  return { data: getPoolMetrics() }
+}
+
+export async function getQueryAudit(
+  filters: QueryAuditFilters,
+  beforeId: number | null = null
+) {
+  if (!(await requireSuperAdmin())) {
+    return { error: 'Forbidden' }
+  }
+
+  const parsed = queryAuditFiltersSchema.safeParse(filters)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const admin = createAdminClient()
+
+  const [audit, users] = await Promise.all([
+    selectQueryAudit(admin, parsed.data, beforeId).limit(
+      QUERY_AUDIT_CONFIG.pageSize
+    ),
+    listAllUsers(admin),
+  ])
+
+  if (audit.error) {
+    console.error('Error fetching query audit:', audit.error)
+    return { error: 'Error fetching the query audit' }
+  }
+  if (users.error) {
+    console.error('Error listing users:', users.error)
+  }
+
+  const entries = audit.data.map(toQueryAuditEntry)
+  const data: QueryAuditPage = {
+    entries,
+    total: audit.count ?? entries.length,
+    nextBeforeId:
+      entries.length === QUERY_AUDIT_CONFIG.pageSize
+        ? entries[entries.length - 1].id
+        : null,
+    emails: Object.fromEntries(
+      users.users.map((user) => [user.id, user.email ?? ''])
+    ),
+  }
+
+  return { data }
+}
@@ -0,0 +1,311 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import { ALERT_CONFIG } from '@/config/alerts'
+import { evaluateAlert } from '@/lib/alert-runner'
+import {
+  ALERT_CHANNELS,
+  ALERT_OPERATORS,
+  toAlertEvent,
+  toAlertRule,
+  type AlertEvent,
+  type AlertOperator,
+} from '@/lib/alerts'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+} from '@/lib/connection-profiles'
+import { nextRunAt } from '@/lib/report-schedule'
+import { toSavedQuery } from '@/lib/saved-queries'
+import { checkWebhookHost, checkWebhookUrl } from '@/lib/webhooks'
+import { createAdminClient } from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+const ALERT_NOT_FOUND_MESSAGE = 'Alert not found'
+
+const ruleSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .max(200, 'Name is too long'),
+    savedQueryId: z.string().uuid('Pick a saved query'),
+    connectionProfileId: z.string().uuid('Pick a connection'),
+    parameterValues: z.record(z.string()).default({}),
+    columnName: z.string().trim().min(1, 'Enter the column to check'),
+    operator: z.enum(Object.keys(ALERT_OPERATORS) as [AlertOperator]),
+    threshold: z.number({ message: 'Enter a threshold' }).finite(),
+    keyColumn: z.string().trim().nullable().default(null),
+    cron: z.string().trim(),
+    timeZone: z.string().trim().default('UTC'),
+    channel: z.enum(ALERT_CHANNELS),
+    recipients: z
+      .array(z.string().trim().email('Enter valid email addresses'))
+      .max(ALERT_CONFIG.maxRecipients, 'Too many recipients')
+      .default([]),
+    webhookUrl: z
+      .string()
+      .trim()
+      .url('Enter a valid webhook URL')
+      .superRefine((url, ctx) => {
+        const invalid = checkWebhookUrl(url)
+        if (invalid) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: invalid })
+        }
+      })
+      .nullable()
+      .default(null),
+  })
+  .refine((input) => nextRunAt(input.cron, input.timeZone) !== null, {
+    message: 'Enter a valid cron expression and time zone',
+  })
+  .refine((input) => input.channel !== 'email' || input.recipients.length, {
+    message: 'Add at least one recipient',
+  })
+  .refine((input) => input.channel !== 'webhook' || input.webhookUrl, {
+    message: 'Enter a webhook URL',
+  })
+
+const getUser = async () => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  return { client, user }
+}
+
+// Row level security only returns the user's own rules
+const loadRule = async (id: string) => {
+  const { client, user } = await getUser()
+  if (!user || !z.string().uuid().safeParse(id).success) {
+    return null
+  }
+
+  const { data, error } = await client
+    .from('alert_rules')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching alert rule:', error)
+  }
+
+  return data
+}
+
+export async function getAlertRules() {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { data, error } = await client
+    .from('alert_rules')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching alert rules:', error)
+    return { error: 'Error fetching alerts' }
+  }
+  if (!data.length) {
+    return { data: [] }
+  }
+
+  const { data: events, error: eventsError } = await client
+    .from('alert_events')
+    .select('*')
+    .in(
+      'rule_id',
+      data.map((row) => row.id)
+    )
+    .order('evaluated_at', { ascending: false })
+    .limit(data.length * ALERT_CONFIG.historyLength)
+
+  if (eventsError) {
+    console.error('Error fetching alert events:', eventsError)
+  }
+
+  const eventsByRule = new Map<string, AlertEvent[]>()
+  for (const event of events ?? []) {
+    const list = eventsByRule.get(event.rule_id) ?? []
+    if (list.length < ALERT_CONFIG.historyLength) {
+      list.push(toAlertEvent(event))
+    }
+    eventsByRule.set(event.rule_id, list)
+  }
+
+  return {
+    data: data.map((row) => toAlertRule(row, eventsByRule.get(row.id))),
+  }
+}
+
+export async function createAlertRule(input: z.input<typeof ruleSchema>) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = ruleSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const rule = parsed.data
+
+  const { data: query } = await client
+    .from('saved_queries')
+    .select('*')
+    .eq('id', rule.savedQueryId)
+    .maybeSingle()
+  if (!query) {
+    return { error: 'Pick one of your saved queries' }
+  }
+
+  const { parameters } = toSavedQuery(query)
+  const missing = parameters.find(
+    (parameter) => !rule.parameterValues[parameter.name]
+  )
+  if (missing) {
+    return { error: `Missing a value for ${missing.label}` }
+  }
+
+  if (!(await getCurrentConnectionString(rule.connectionProfileId))) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  if (rule.channel === 'webhook' && rule.webhookUrl) {
+    const invalidHost = await checkWebhookHost(rule.webhookUrl)
+    if (invalidHost) {
+      return { error: invalidHost }
+    }
+  }
+
+  const { error } = await createAdminClient()
+    .from('alert_rules')
+    .insert({
+      owner_id: user.id,
+      name: rule.name,
+      saved_query_id: rule.savedQueryId,
+      connection_profile_id: rule.connectionProfileId,
+      parameter_values: Object.fromEntries(
+        parameters.map((parameter) => [
+          parameter.name,
+          rule.parameterValues[parameter.name],
+        ])
+      ),
+      column_name: rule.columnName,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      key_column: rule.keyColumn || null,
+      cron: rule.cron,
+      time_zone: rule.timeZone,
+      channel: rule.channel,
+      recipients:
+        rule.channel === 'email' ? Array.from(new Set(rule.recipients)) : [],
+      webhook_url: rule.channel === 'webhook' ? rule.webhookUrl : null,
+      next_run_at: nextRunAt(rule.cron, rule.timeZone)?.toISOString(),
+    })
+
+  if (error) {
+    console.error('Error creating alert rule:', error)
+    return { error: 'Unexpected error creating alert' }
+  }
+
+  revalidatePath('/app/alerts')
+  return { success: 'Alert created' }
+}
+
+export async function setAlertRuleEnabled(id: string, isEnabled: boolean) {
+  const rule = await loadRule(id)
+  if (!rule) {
+    return { error: ALERT_NOT_FOUND_MESSAGE }
+  }
+
+  const { error } = await createAdminClient()
+    .from('alert_rules')
+    .update({
+      is_enabled: isEnabled,
+      next_run_at: isEnabled
+        ? nextRunAt(rule.cron, rule.time_zone)?.toISOString()
+        : rule.next_run_at,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error updating alert rule:', error)
+    return { error: 'Unexpected error updating alert' }
+  }
+
+  revalidatePath('/app/alerts')
+  return { success: isEnabled ? 'Alert enabled' : 'Alert paused' }
+}
+
+// Passing null ends a snooze right away
+export async function snoozeAlertRule(id: string, hours: number | null) {
+  const rule = await loadRule(id)
+  if (!rule) {
+    return { error: ALERT_NOT_FOUND_MESSAGE }
+  }
+  if (
+    hours !== null &&
+    !ALERT_CONFIG.snoozeOptions.some((option) => option.hours === hours)
+  ) {
+    return { error: 'Invalid snooze duration' }
+  }
+
+  const { error } = await createAdminClient()
+    .from('alert_rules')
+    .update({
+      snoozed_until: hours
+        ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+        : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error snoozing alert rule:', error)
+    return { error: 'Unexpected error snoozing alert' }
+  }
+
+  revalidatePath('/app/alerts')
+  return { success: hours ? 'Alert snoozed' : 'Snooze ended' }
+}
+
+export async function deleteAlertRule(id: string) {
+  const rule = await loadRule(id)
+  if (!rule) {
+    return { error: ALERT_NOT_FOUND_MESSAGE }
+  }
+
+  const { error } = await createAdminClient()
+    .from('alert_rules')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting alert rule:', error)
+    return { error: 'Unexpected error deleting alert' }
+  }
+
+  revalidatePath('/app/alerts')
+  return { success: 'Alert deleted' }
+}
+
+// Evaluates the rule right away, the schedule itself is left as it is
+export async function evaluateAlertRuleNow(id: string) {
+  const rule = await loadRule(id)
+  if (!rule) {
+    return { error: ALERT_NOT_FOUND_MESSAGE }
+  }
+
+  const result = await evaluateAlert(rule)
+  revalidatePath('/app/alerts')
+  return result
+}
@@ -1,19 +1,39 @@
 'use server'
 
-import { openai } from '@ai-sdk/openai'
 import { generateObject } from 'ai'
 
+import { budgetExceededMessage } from '@/lib/ai-usage'
+import { createBudgetCheck, recordAiUsage } from '@/lib/usage-accounting'
 import { type Result, configSchema, type Config } from '@/lib/chart'
+import { resolveModel, type UserApiKeys } from '@/lib/model-registry'
+import { createClient } from '@/utils/supabase/server'
 
 export const generateChartConfig = async (
   results: Result[],
-  userQuery: string
+  userQuery: string,
+  modelId: string,
+  userKeys: UserApiKeys,
+  // The chat message of the query, its usage is counted with the chat
+  source: { chatId?: string; messageId?: string } = {}
 ) => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  if (!user) {
+    throw new Error('Unauthorized')
+  }
+
   const system = 'You are a data visualization expert. '
 
   try {
-    const { object: config } = await generateObject({
-      model: openai('gpt-4o'),
+    const model = resolveModel(modelId, userKeys)
+    const budget = await createBudgetCheck(client, user.id)(model)
+    if (budget?.state === 'exceeded') {
+      return { error: budgetExceededMessage(budget) }
+    }
+    const { object: config, usage } = await generateObject({
+      model: model.model,
       system,
       prompt: `Given the following data from a SQL query result, generate the chart config that best visualises the data and answers the users query.
       For multiple groups use multi-lines.
@@ -51,6 +71,14 @@ export const generateChartConfig = async (
       ${JSON.stringify(results, null, 2)}`,
       schema: configSchema,
     })
+    await recordAiUsage({
+      userId: user.id,
+      kind: 'chart',
+      model,
+      usage,
+      chatId: source.chatId,
+      messageId: source.messageId,
+    })
 
     const colors: Record<string, string> = {}
     config.yKeys.forEach((key, index) => {
@@ -0,0 +1,49 @@
+'use server'
+
+import { z } from 'zod'
+
+import { createClient } from '@/utils/supabase/server'
+
+/** Remembers which branch of a chat is shown, the thread is what gets sent */
+export async function selectChatBranch(chatId: string, leafId: string) {
+  const idParsed = z.string().uuid().safeParse(chatId)
+  if (!idParsed.success) {
+    return { error: 'Invalid chat' }
+  }
+
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { data: message, error } = await client
+    .from('chat_messages')
+    .select('id')
+    .eq('chat_id', chatId)
+    .eq('id', leafId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching chat message:', error)
+    return { error: 'Unexpected error switching branch' }
+  }
+  if (!message) {
+    return { error: 'Branch not found' }
+  }
+
+  const { error: updateError } = await client
+    .from('chats')
+    .update({ leaf_message_id: leafId })
+    .eq('id', chatId)
+    .eq('user_id', user.id)
+
+  if (updateError) {
+    console.error('Error switching branch:', updateError)
+    return { error: 'Unexpected error switching branch' }
+  }
+
+  return { success: 'Branch selected' }
+}
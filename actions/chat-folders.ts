@@ -0,0 +1,87 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import { createClient } from '@/utils/supabase/server'
+
+const folderNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name must be less than 100 characters')
+
+const getUser = async () => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  return { client, user }
+}
+
+export async function getChatFolders() {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { data, error } = await client
+    .from('chat_folders')
+    .select('id, name')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching chat folders:', error)
+    return { error: 'Error fetching folders' }
+  }
+
+  return { data }
+}
+
+export async function createChatFolder(name: string) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = folderNameSchema.safeParse(name)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const { data, error } = await client
+    .from('chat_folders')
+    .insert({ user_id: user.id, name: parsed.data })
+    .select('id, name')
+    .single()
+
+  if (error) {
+    console.error('Error creating chat folder:', error)
+    return {
+      error:
+        error.code === '23505'
+          ? 'A folder with this name already exists'
+          : 'Unexpected error creating folder',
+    }
+  }
+
+  return { data, success: 'Folder created' }
+}
+
+// Chats in the folder are kept, they move back to "All chats"
+export async function deleteChatFolder(id: string) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { error } = await client.from('chat_folders').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting chat folder:', error)
+    return { error: 'Unexpected error deleting folder' }
+  }
+
+  revalidatePath('/app')
+  return { success: 'Folder deleted' }
+}
@@ -0,0 +1,219 @@
+'use server'
+
+import { z } from 'zod'
+
+import { USER_ROLES, type UserRole } from '@/config/diocese'
+import { loadAccessScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import {
+  checkConnectionString,
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  resolveConnectionString,
+} from '@/lib/connection-profiles'
+import { invalidateSchemaSnapshot } from '@/lib/schema-cache'
+import { encryptSecret } from '@/lib/secret-box'
+import { createAdminClient } from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+export type ConnectionProfile = {
+  id: string
+  name: string
+  sharedRole: UserRole | null
+  isOwner: boolean
+}
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Name is required')
+  .max(100, 'Name is too long')
+
+const createSchema = z.object({
+  name: nameSchema,
+  connectionString: z.string().min(1, 'Connection string is required'),
+  sharedRole: z
+    .enum(USER_ROLES as [UserRole, ...UserRole[]])
+    .nullable()
+    .default(null),
+})
+
+const getUser = async () => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  return { client, user }
+}
+
+// Only the owner can rename or delete a profile
+const isOwner = async (userId: string, profileId: string) => {
+  const { data } = await createAdminClient()
+    .from('connection_profiles')
+    .select('owner_id')
+    .eq('id', profileId)
+    .maybeSingle()
+
+  return data?.owner_id === userId
+}
+
+export async function getConnectionProfiles() {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  // Row level security returns own and shared profiles only
+  const { data, error } = await client
+    .from('connection_profiles')
+    .select('id, name, shared_role, owner_id')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching connection profiles:', error)
+    return { error: 'Error fetching connections' }
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+
+  return {
+    data: {
+      profiles: data.map(
+        (profile): ConnectionProfile => ({
+          id: profile.id,
+          name: profile.name,
+          sharedRole: profile.shared_role as UserRole | null,
+          isOwner: profile.owner_id === user.id,
+        })
+      ),
+      // Sharing a connection gives a whole role access to it
+      canShare: scope?.role === 'super_admin',
+    },
+  }
+}
+
+export async function createConnectionProfile(
+  input: z.input<typeof createSchema>
+) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = createSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const { name, connectionString, sharedRole } = parsed.data
+
+  // Users without access to any data have no reason to connect anywhere
+  const scope = await loadAccessScope(client, user.id)
+  if (!scope) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+  if (sharedRole && scope.role !== 'super_admin') {
+    return { error: 'Only super admins can share connections' }
+  }
+
+  const connectionError = await checkConnectionString(connectionString)
+  if (connectionError) {
+    return { error: connectionError }
+  }
+
+  const { data, error } = await createAdminClient()
+    .from('connection_profiles')
+    .insert({
+      owner_id: user.id,
+      name,
+      encrypted_connection_string: encryptSecret(connectionString),
+      shared_role: sharedRole,
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error creating connection profile:', error)
+    return { error: 'Unexpected error saving connection' }
+  }
+
+  return { data: { id: data.id }, success: 'Connection saved' }
+}
+
+export async function testConnectionProfile(profileId: string) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  if (!(await loadAccessScope(client, user.id))) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+
+  const connectionString = await resolveConnectionString(client, profileId)
+  if (!connectionString) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  const connectionError = await checkConnectionString(connectionString)
+  if (connectionError) {
+    return { error: connectionError }
+  }
+
+  return { success: 'Connection successful' }
+}
+
+export async function renameConnectionProfile(profileId: string, name: string) {
+  const { user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = nameSchema.safeParse(name)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  if (!(await isOwner(user.id, profileId))) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  const { error } = await createAdminClient()
+    .from('connection_profiles')
+    .update({ name: parsed.data, updated_at: new Date().toISOString() })
+    .eq('id', profileId)
+
+  if (error) {
+    console.error('Error renaming connection profile:', error)
+    return { error: 'Unexpected error renaming connection' }
+  }
+
+  return { success: 'Connection renamed' }
+}
+
+export async function deleteConnectionProfile(profileId: string) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  if (!(await isOwner(user.id, profileId))) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  const connectionString = await resolveConnectionString(client, profileId)
+
+  const { error } = await createAdminClient()
+    .from('connection_profiles')
+    .delete()
+    .eq('id', profileId)
+
+  if (error) {
+    console.error('Error deleting connection profile:', error)
+    return { error: 'Unexpected error deleting connection' }
+  }
+
+  if (connectionString) {
+    invalidateSchemaSnapshot(connectionString)
+  }
+
+  return { success: 'Connection deleted' }
+}
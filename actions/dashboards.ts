@@ -0,0 +1,314 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import {
+  getCurrentUserScope,
+  loadAccessScope,
+  NO_ACCESS_SCOPE_MESSAGE,
+} from '@/lib/access-scope'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+} from '@/lib/connection-profiles'
+import {
+  dashboardFilters,
+  dashboardTilesSchema,
+  toDashboard,
+} from '@/lib/dashboards'
+import {
+  loadParameterOptions,
+  runSavedQuerySql,
+} from '@/lib/saved-query-execution'
+import { toSavedQuery, type SavedQuery } from '@/lib/saved-queries'
+import { createAdminClient } from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+const DASHBOARD_NOT_FOUND_MESSAGE = 'Dashboard not found'
+
+const updateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(200, 'Name is too long'),
+  description: z.string().trim().max(2000).nullable().default(null),
+  tiles: dashboardTilesSchema,
+  isShared: z.boolean(),
+})
+
+const getUser = async () => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  return { client, user }
+}
+
+// Row level security returns own dashboards and the ones shared with a
+// scope the user covers
+const loadDashboard = async (id: string) => {
+  const { client, user } = await getUser()
+  if (!user || !z.string().uuid().safeParse(id).success) {
+    return null
+  }
+
+  const { data, error } = await client
+    .from('dashboards')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching dashboard:', error)
+  }
+
+  return data
+    ? { dashboard: toDashboard(data, user.id), ownerId: data.owner_id }
+    : null
+}
+
+// Tiles can only use the owner's saved queries. Viewers of a shared
+// dashboard cannot read those through row level security, so they are
+// loaded with the service role once access to the dashboard is checked.
+const loadTileQueries = async (
+  ownerId: string,
+  savedQueryIds: string[]
+): Promise<Record<string, SavedQuery>> => {
+  if (!savedQueryIds.length) return {}
+
+  const { data, error } = await createAdminClient()
+    .from('saved_queries')
+    .select('*')
+    .eq('user_id', ownerId)
+    .in('id', savedQueryIds)
+
+  if (error) {
+    console.error('Error fetching dashboard queries:', error)
+    return {}
+  }
+
+  return Object.fromEntries(data.map((row) => [row.id, toSavedQuery(row)]))
+}
+
+export async function getDashboards() {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { data, error } = await client
+    .from('dashboards')
+    .select('*')
+    .order('updated_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching dashboards:', error)
+    return { error: 'Error fetching dashboards' }
+  }
+
+  return { data: data.map((row) => toDashboard(row, user.id)) }
+}
+
+export async function getDashboard(id: string) {
+  const loaded = await loadDashboard(id)
+  if (!loaded) {
+    return { error: DASHBOARD_NOT_FOUND_MESSAGE }
+  }
+
+  const { dashboard, ownerId } = loaded
+  const queries = await loadTileQueries(
+    ownerId,
+    dashboard.tiles.map((tile) => tile.savedQueryId)
+  )
+
+  return {
+    data: {
+      dashboard,
+      queries,
+      filters: dashboardFilters(Object.values(queries)),
+    },
+  }
+}
+
+export async function createDashboard(name: string) {
+  const { user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = updateSchema.shape.name.safeParse(name)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const { data, error } = await createAdminClient()
+    .from('dashboards')
+    .insert({ owner_id: user.id, name: parsed.data })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error creating dashboard:', error)
+    return { error: 'Unexpected error creating dashboard' }
+  }
+
+  revalidatePath('/app/dashboards')
+  return { data: { id: data.id }, success: 'Dashboard created' }
+}
+
+export async function updateDashboard(
+  id: string,
+  input: z.input<typeof updateSchema>
+) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const loaded = await loadDashboard(id)
+  if (!loaded?.dashboard.isOwner) {
+    return { error: DASHBOARD_NOT_FOUND_MESSAGE }
+  }
+
+  const parsed = updateSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const { name, description, tiles, isShared } = parsed.data
+
+  const queries = await loadTileQueries(
+    user.id,
+    tiles.map((tile) => tile.savedQueryId)
+  )
+  if (tiles.some((tile) => !queries[tile.savedQueryId])) {
+    return { error: 'A tile uses a saved query that no longer exists' }
+  }
+
+  // Sharing records the owner's scope now, viewers must cover it
+  const scope = isShared ? await loadAccessScope(client, user.id) : null
+  if (isShared && !scope) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+
+  const { error } = await createAdminClient()
+    .from('dashboards')
+    .update({
+      name,
+      description: description || null,
+      tiles,
+      is_shared: isShared,
+      shared_role: scope?.role ?? null,
+      shared_diocese_ids: scope?.dioceseIds ?? [],
+      shared_testing_center_ids: scope?.testingCenterIds ?? [],
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error updating dashboard:', error)
+    return { error: 'Unexpected error saving dashboard' }
+  }
+
+  revalidatePath('/app/dashboards')
+  revalidatePath(`/app/dashboards/${id}`)
+  return { success: 'Dashboard saved' }
+}
+
+export async function deleteDashboard(id: string) {
+  const { user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const loaded = await loadDashboard(id)
+  if (!loaded?.dashboard.isOwner) {
+    return { error: DASHBOARD_NOT_FOUND_MESSAGE }
+  }
+
+  const { error } = await createAdminClient()
+    .from('dashboards')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting dashboard:', error)
+    return { error: 'Unexpected error deleting dashboard' }
+  }
+
+  revalidatePath('/app/dashboards')
+  return { success: 'Dashboard deleted' }
+}
+
+export async function getDashboardFilterOptions(
+  id: string,
+  connectionProfileId: string
+) {
+  const current = await getCurrentUserScope()
+  if (!current) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+
+  const dashboard = await getDashboard(id)
+  if (!dashboard.data) {
+    return { error: dashboard.error }
+  }
+
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  return {
+    data: await loadParameterOptions(
+      dashboard.data.filters,
+      connectionString,
+      current.scope,
+      { userId: current.userId, source: 'dashboard', connectionProfileId }
+    ),
+  }
+}
+
+/**
+ * Runs one tile of a dashboard with the dashboard's filter values. Tiles run
+ * with the viewer's scope, whoever owns the dashboard.
+ */
+export async function runDashboardTile(
+  id: string,
+  tileId: string,
+  connectionProfileId: string,
+  values: Record<string, string>
+) {
+  const current = await getCurrentUserScope()
+  if (!current) {
+    return NO_ACCESS_SCOPE_MESSAGE
+  }
+
+  const loaded = await loadDashboard(id)
+  const tile = loaded?.dashboard.tiles.find((t) => t.id === tileId)
+  if (!loaded || !tile) {
+    return DASHBOARD_NOT_FOUND_MESSAGE
+  }
+
+  const queries = await loadTileQueries(loaded.ownerId, [tile.savedQueryId])
+  const query = queries[tile.savedQueryId]
+  if (!query) {
+    return 'The saved query of this tile no longer exists'
+  }
+
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return CONNECTION_PROFILE_NOT_FOUND_MESSAGE
+  }
+
+  const result = await runSavedQuerySql(
+    query.sql,
+    values,
+    connectionString,
+    current.scope,
+    { userId: current.userId, source: 'dashboard', connectionProfileId }
+  )
+  return typeof result === 'string' ? result : JSON.stringify(result)
+}
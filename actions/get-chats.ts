@@ -1,11 +1,21 @@
 'use server'
 
+import { CHAT_LIST_CONFIG } from '@/config/chats'
+import {
+  CHAT_LIST_COLUMNS,
+  chatFilterSchema,
+  type ChatFilter,
+  type ChatListItem,
+} from '@/lib/chats'
 import { createClient } from '@/utils/supabase/server'
 
-export async function getChats() {
-  console.log('Starting getChats function')
+/**
+ * Loads one page of the user's chats for the sidebar, pinned chats first.
+ * `offset` is the number of chats the sidebar already has.
+ */
+export async function getChats(filter: Partial<ChatFilter> = {}, offset = 0) {
   const supabase = await createClient()
-  
+
   const {
     data: { user },
     error: userError,
@@ -16,19 +26,50 @@ export async function getChats() {
     return { error: 'Auth error' }
   }
 
-  console.log('Authenticated user:', user.id)
+  const parsed = chatFilterSchema.safeParse(filter)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+  const { search, folderId, tag, archived } = parsed.data
 
-  const { data, error } = await supabase
+  let query = supabase
     .from('chats')
-    .select('id, name, created_at')
+    .select(CHAT_LIST_COLUMNS)
     .eq('user_id', user.id)
+
+  query = archived
+    ? query.not('archived_at', 'is', null)
+    : query.is('archived_at', null)
+  if (folderId) {
+    query = query.eq('folder_id', folderId)
+  }
+  if (tag) {
+    query = query.contains('tags', [tag])
+  }
+  if (search) {
+    // Matches chat names and messages, see search_chats in the migrations
+    const { data: ids, error: searchError } = await supabase.rpc(
+      'search_chats',
+      { search, max_results: CHAT_LIST_CONFIG.maxSearchResults }
+    )
+    if (searchError) {
+      console.error('Error searching chats:', searchError)
+      return { error: 'Error searching chats' }
+    }
+    query = query.in('id', ids)
+  }
+
+  // One extra row tells whether there is another page
+  const { data, error } = await query
+    .order('is_pinned', { ascending: false })
     .order('created_at', { ascending: false })
+    .range(offset, offset + CHAT_LIST_CONFIG.pageSize)
 
   if (error) {
     console.error('Error fetching chats:', error)
     return { error: 'Error fetching chats' }
   }
 
-  console.log('Successfully fetched chats:', data?.length || 0, 'results')
-  return { data }
+  const chats: ChatListItem[] = data.slice(0, CHAT_LIST_CONFIG.pageSize)
+  return { data: { chats, hasMore: data.length > chats.length } }
 }
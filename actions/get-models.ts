@@ -0,0 +1,7 @@
+'use server'
+
+import { listAvailableModels } from '@/lib/model-registry'
+
+export const getModels = async () => {
+  return listAvailableModels()
+}
@@ -0,0 +1,99 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import type { Database } from '@/database.types'
+import { chatTagsSchema } from '@/lib/chats'
+import { createClient } from '@/utils/supabase/server'
+
+const organizeSchema = z.object({
+  folderId: z.string().uuid().nullable(),
+  tags: chatTagsSchema,
+})
+
+// Returns the error message, or null once the chat is updated
+const updateChat = async (
+  id: string,
+  update: Database['public']['Tables']['chats']['Update']
+) => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  if (!user) {
+    return 'Unauthorized'
+  }
+
+  // RLS checks the chat's owner but not the folder's, any folder id would
+  // otherwise be accepted
+  if (update.folder_id) {
+    const { data: folder, error } = await client
+      .from('chat_folders')
+      .select('id')
+      .eq('id', update.folder_id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error checking chat folder:', error)
+      return 'Unexpected error updating chat'
+    }
+    if (!folder) {
+      return 'Folder not found'
+    }
+  }
+
+  const { error } = await client
+    .from('chats')
+    .update(update)
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (error) {
+    console.error('Error updating chat:', error)
+    return 'Unexpected error updating chat'
+  }
+
+  revalidatePath('/app')
+  return null
+}
+
+export async function setChatPinned(id: string, isPinned: boolean) {
+  const error = await updateChat(id, { is_pinned: isPinned })
+  if (error) {
+    return { error }
+  }
+  return { success: isPinned ? 'Chat pinned' : 'Chat unpinned' }
+}
+
+// Archived chats leave the sidebar list but keep their messages
+export async function setChatArchived(id: string, isArchived: boolean) {
+  const error = await updateChat(id, {
+    archived_at: isArchived ? new Date().toISOString() : null,
+    is_pinned: isArchived ? false : undefined,
+  })
+  if (error) {
+    return { error }
+  }
+  return { success: isArchived ? 'Chat archived' : 'Chat restored' }
+}
+
+export async function organizeChat(
+  id: string,
+  input: z.input<typeof organizeSchema>
+) {
+  const parsed = organizeSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const error = await updateChat(id, {
+    folder_id: parsed.data.folderId,
+    tags: Array.from(new Set(parsed.data.tags)),
+  })
+  if (error) {
+    return { error }
+  }
+  return { success: 'Chat updated' }
+}
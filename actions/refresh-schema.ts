@@ -0,0 +1,32 @@
+'use server'
+
+import { getCurrentAccessScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+} from '@/lib/connection-profiles'
+import { getSchemaSnapshot, invalidateSchemaSnapshot } from '@/lib/schema-cache'
+
+export async function refreshSchema(connectionProfileId: string) {
+  const scope = await getCurrentAccessScope()
+  if (!scope) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  invalidateSchemaSnapshot(connectionString)
+
+  try {
+    const snapshot = await getSchemaSnapshot(connectionString, scope.role)
+    return {
+      success: `Schema refreshed, found ${snapshot.tables.length} tables`,
+    }
+  } catch (error) {
+    console.error('Error refreshing schema:', error)
+    return { error: 'Error refreshing schema' }
+  }
+}
@@ -0,0 +1,296 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import { REPORT_CONFIG } from '@/config/reports'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+} from '@/lib/connection-profiles'
+import { dashboardFilters, toDashboard } from '@/lib/dashboards'
+import { checkReportRecipients } from '@/lib/report-recipients'
+import { runReport } from '@/lib/report-runner'
+import {
+  ATTACHMENT_FORMATS,
+  nextRunAt,
+  toReportRun,
+  toReportSchedule,
+  type ReportRun,
+} from '@/lib/report-schedule'
+import { toSavedQuery, type QueryParameter } from '@/lib/saved-queries'
+import { createAdminClient } from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+const REPORT_NOT_FOUND_MESSAGE = 'Scheduled report not found'
+
+const scheduleSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Name is required')
+      .max(200, 'Name is too long'),
+    savedQueryId: z.string().uuid().nullable().default(null),
+    dashboardId: z.string().uuid().nullable().default(null),
+    connectionProfileId: z.string().uuid('Pick a connection'),
+    cron: z.string().trim(),
+    timeZone: z.string().trim().default('UTC'),
+    recipients: z
+      .array(z.string().trim().email('Enter valid email addresses'))
+      .min(1, 'Add at least one recipient')
+      .max(REPORT_CONFIG.maxRecipients, 'Too many recipients'),
+    attachmentFormat: z.enum(ATTACHMENT_FORMATS),
+    parameterValues: z.record(z.string()).default({}),
+  })
+  .refine((input) => !input.savedQueryId !== !input.dashboardId, {
+    message: 'Pick a saved query or a dashboard',
+  })
+  .refine((input) => nextRunAt(input.cron, input.timeZone) !== null, {
+    message: 'Enter a valid cron expression and time zone',
+  })
+
+const getUser = async () => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  return { client, user }
+}
+
+// Row level security only returns the user's own schedules
+const loadSchedule = async (id: string) => {
+  const { client, user } = await getUser()
+  if (!user || !z.string().uuid().safeParse(id).success) {
+    return null
+  }
+
+  const { data, error } = await client
+    .from('report_schedules')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching scheduled report:', error)
+  }
+
+  return data
+}
+
+// Parameters of the report's queries, null when the target is not the
+// user's own saved query or dashboard
+const loadTargetParameters = async (
+  savedQueryId: string | null,
+  dashboardId: string | null
+): Promise<QueryParameter[] | null> => {
+  const { client, user } = await getUser()
+  if (!user) return null
+
+  let queryIds = savedQueryId ? [savedQueryId] : []
+  if (dashboardId) {
+    const { data } = await client
+      .from('dashboards')
+      .select('*')
+      .eq('id', dashboardId)
+      .eq('owner_id', user.id)
+      .maybeSingle()
+    if (!data) return null
+    queryIds = toDashboard(data, user.id).tiles.map((tile) => tile.savedQueryId)
+  }
+
+  const { data, error } = await client
+    .from('saved_queries')
+    .select('*')
+    .in('id', queryIds)
+
+  if (error) {
+    console.error('Error fetching report queries:', error)
+    return null
+  }
+  if (savedQueryId && !data.length) return null
+
+  return dashboardFilters(data.map(toSavedQuery))
+}
+
+export async function getReportSchedules() {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { data, error } = await client
+    .from('report_schedules')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching scheduled reports:', error)
+    return { error: 'Error fetching scheduled reports' }
+  }
+  if (!data.length) {
+    return { data: [] }
+  }
+
+  const { data: runs, error: runsError } = await client
+    .from('report_runs')
+    .select('*')
+    .in(
+      'schedule_id',
+      data.map((row) => row.id)
+    )
+    .order('started_at', { ascending: false })
+    .limit(data.length * REPORT_CONFIG.historyLength)
+
+  if (runsError) {
+    console.error('Error fetching report runs:', runsError)
+  }
+
+  const runsBySchedule = new Map<string, ReportRun[]>()
+  for (const run of runs ?? []) {
+    const list = runsBySchedule.get(run.schedule_id) ?? []
+    if (list.length < REPORT_CONFIG.historyLength) {
+      list.push(toReportRun(run))
+    }
+    runsBySchedule.set(run.schedule_id, list)
+  }
+
+  return {
+    data: data.map((row) => toReportSchedule(row, runsBySchedule.get(row.id))),
+  }
+}
+
+export async function createReportSchedule(
+  input: z.input<typeof scheduleSchema>
+) {
+  const { user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = scheduleSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const {
+    name,
+    savedQueryId,
+    dashboardId,
+    connectionProfileId,
+    cron,
+    timeZone,
+    recipients,
+    attachmentFormat,
+    parameterValues,
+  } = parsed.data
+
+  const parameters = await loadTargetParameters(savedQueryId, dashboardId)
+  if (!parameters) {
+    return { error: 'Pick one of your saved queries or dashboards' }
+  }
+
+  const missing = parameters.find(
+    (parameter) => !parameterValues[parameter.name]
+  )
+  if (missing) {
+    return { error: `Missing a value for ${missing.label}` }
+  }
+
+  if (!(await getCurrentConnectionString(connectionProfileId))) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  const recipientError = await checkReportRecipients(recipients)
+  if (recipientError) {
+    return { error: recipientError }
+  }
+
+  const { error } = await createAdminClient()
+    .from('report_schedules')
+    .insert({
+      owner_id: user.id,
+      name,
+      saved_query_id: savedQueryId,
+      dashboard_id: dashboardId,
+      connection_profile_id: connectionProfileId,
+      cron,
+      time_zone: timeZone,
+      recipients: Array.from(new Set(recipients)),
+      attachment_format: attachmentFormat,
+      parameter_values: Object.fromEntries(
+        parameters.map((parameter) => [
+          parameter.name,
+          parameterValues[parameter.name],
+        ])
+      ),
+      next_run_at: nextRunAt(cron, timeZone)?.toISOString(),
+    })
+
+  if (error) {
+    console.error('Error creating scheduled report:', error)
+    return { error: 'Unexpected error scheduling report' }
+  }
+
+  revalidatePath('/app/reports')
+  return { success: 'Report scheduled' }
+}
+
+export async function setReportScheduleEnabled(id: string, isEnabled: boolean) {
+  const schedule = await loadSchedule(id)
+  if (!schedule) {
+    return { error: REPORT_NOT_FOUND_MESSAGE }
+  }
+
+  // Re-enabling starts from now instead of catching up on missed runs
+  const { error } = await createAdminClient()
+    .from('report_schedules')
+    .update({
+      is_enabled: isEnabled,
+      next_run_at: isEnabled
+        ? nextRunAt(schedule.cron, schedule.time_zone)?.toISOString()
+        : schedule.next_run_at,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error updating scheduled report:', error)
+    return { error: 'Unexpected error updating report' }
+  }
+
+  revalidatePath('/app/reports')
+  return { success: isEnabled ? 'Report enabled' : 'Report paused' }
+}
+
+export async function deleteReportSchedule(id: string) {
+  const schedule = await loadSchedule(id)
+  if (!schedule) {
+    return { error: REPORT_NOT_FOUND_MESSAGE }
+  }
+
+  const { error } = await createAdminClient()
+    .from('report_schedules')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting scheduled report:', error)
+    return { error: 'Unexpected error deleting report' }
+  }
+
+  revalidatePath('/app/reports')
+  return { success: 'Report deleted' }
+}
+
+// Sends the report right away, the schedule itself is left as it is
+export async function runReportScheduleNow(id: string) {
+  const schedule = await loadSchedule(id)
+  if (!schedule) {
+    return { error: REPORT_NOT_FOUND_MESSAGE }
+  }
+
+  const result = await runReport(schedule)
+  revalidatePath('/app/reports')
+  return result
+}
@@ -1,118 +1,34 @@
 'use server'
 
-import { Client } from 'pg'
-import { DIOCESE_CONFIG } from '@/config/diocese'
-
-export async function runSql(sql: string, connectionString: string) {
-  // Convert SQL to lowercase for case-insensitive checks
-  const sqlLower = sql.trim().toLowerCase()
-
-  // 1. Security checks for dangerous operations
-  if (
-    sqlLower.includes('drop') ||
-    sqlLower.includes('delete') ||
-    sqlLower.includes('alter') ||
-    sqlLower.includes('truncate') ||
-    sqlLower.includes('grant') ||
-    sqlLower.includes('revoke')
-  ) {
-    const action = sqlLower.includes('drop')
-      ? 'DROP'
-      : sqlLower.includes('delete')
-        ? 'DELETE'
-        : sqlLower.includes('alter')
-          ? 'ALTER'
-          : sqlLower.includes('truncate')
-            ? 'TRUNCATE'
-            : sqlLower.includes('grant')
-              ? 'GRANT'
-              : 'REVOKE'
-
-    return `This action is not allowed ${action}`
+import { getCurrentUserScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+} from '@/lib/connection-profiles'
+import { runScopedQuery } from '@/lib/scoped-query'
+
+export async function runSql(
+  sql: string,
+  connectionProfileId: string,
+  // The chat message the SQL block is in, for the audit log
+  origin: { chatId?: string; messageId?: string } = {}
+) {
+  const current = await getCurrentUserScope()
+  if (!current) {
+    return NO_ACCESS_SCOPE_MESSAGE
   }
 
-  // 2. Diocese and Testing Center safety check
-  // Check if query involves any protected tables
-  const hasProtectedTable = DIOCESE_CONFIG.protectedTables.some(table => 
-    sqlLower.includes(table)
-  )
-
-  // Super admin bypasses all restrictions except dangerous operations
-  if (DIOCESE_CONFIG.role === 'super_admin') {
-    // Only check for dangerous operations
-    if (
-      sqlLower.includes('drop') ||
-      sqlLower.includes('delete') ||
-      sqlLower.includes('alter') ||
-      sqlLower.includes('truncate') ||
-      sqlLower.includes('grant') ||
-      sqlLower.includes('revoke')
-    ) {
-      const action = sqlLower.includes('drop')
-        ? 'DROP'
-        : sqlLower.includes('delete')
-          ? 'DELETE'
-          : sqlLower.includes('alter')
-            ? 'ALTER'
-            : sqlLower.includes('truncate')
-              ? 'TRUNCATE'
-              : sqlLower.includes('grant')
-                ? 'GRANT'
-                : 'REVOKE'
-
-      return `This action is not allowed ${action}`
-    }
-  } else {
-    // Check for proper diocese filter
-    const hasDioceseFilter = 
-      sqlLower.includes(`diocese_id = ${DIOCESE_CONFIG.id}`) || 
-      sqlLower.includes(`diocese_id=${DIOCESE_CONFIG.id}`) ||
-      sqlLower.includes(`tc.diocese_id = ${DIOCESE_CONFIG.id}`) ||
-      sqlLower.includes(`tc.diocese_id=${DIOCESE_CONFIG.id}`)
-
-    // Check for proper testing center filter
-    const hasTestingCenterFilter = 
-      sqlLower.includes(`testing_center_id = ${DIOCESE_CONFIG.testingCenterId}`) ||
-      sqlLower.includes(`testing_center_id=${DIOCESE_CONFIG.testingCenterId}`) ||
-      sqlLower.includes(`tc.id = ${DIOCESE_CONFIG.testingCenterId}`) ||
-      sqlLower.includes(`tc.id=${DIOCESE_CONFIG.testingCenterId}`)
-
-    // If query involves protected tables but doesn't have proper restrictions
-    if (hasProtectedTable) {
-      // Diocese managers only need diocese filter
-      if (DIOCESE_CONFIG.role === 'diocese_manager') {
-        if (!hasDioceseFilter) {
-          return `Query must include diocese_id = ${DIOCESE_CONFIG.id} filter for security reasons`
-        }
-      } 
-      // School managers need both filters
-      else {
-        if (!hasDioceseFilter) {
-          return `Query must include diocese_id = ${DIOCESE_CONFIG.id} filter for security reasons`
-        }
-        if (!hasTestingCenterFilter) {
-          return `Query must include testing_center_id = ${DIOCESE_CONFIG.testingCenterId} filter for security reasons`
-        }
-      }
-    }
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return CONNECTION_PROFILE_NOT_FOUND_MESSAGE
   }
 
-  // 3. Execute the query
-  const client = new Client({
-    connectionString,
+  const result = await runScopedQuery(sql, connectionString, current.scope, {
+    userId: current.userId,
+    source: 'run_sql',
+    connectionProfileId,
+    chatId: origin.chatId,
+    messageId: origin.messageId,
   })
-
-  try {
-    await client.connect()
-    const result = await client.query(sql)
-    await client.end()
-
-    return JSON.stringify(result)
-  } catch (error) {
-    await client.end()
-    if (error instanceof Error) {
-      return error.message
-    }
-    return 'Unknown error'
-  }
-}
\ No newline at end of file
+  return typeof result === 'string' ? result : JSON.stringify(result)
+}
@@ -0,0 +1,231 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import { SAVED_QUERY_CONFIG } from '@/config/saved-queries'
+import { getCurrentUserScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import { configSchema } from '@/lib/chart'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+} from '@/lib/connection-profiles'
+import { bindQueryParameters, findQueryParameters } from '@/lib/query-parameters'
+import {
+  loadParameterOptions,
+  runSavedQuerySql,
+} from '@/lib/saved-query-execution'
+import { queryParameterSchema, toSavedQuery } from '@/lib/saved-queries'
+import { checkSqlPolicy, formatSqlPolicyViolation } from '@/lib/sql-policy'
+import { createClient } from '@/utils/supabase/server'
+
+const SAVED_QUERY_NOT_FOUND_MESSAGE = 'Saved query not found'
+
+const saveSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Title is required')
+    .max(200, 'Title is too long'),
+  description: z.string().trim().max(2000).nullable().default(null),
+  sql: z.string().trim().min(1, 'SQL is required'),
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(50))
+    .max(SAVED_QUERY_CONFIG.maxTags, 'Too many tags')
+    .default([]),
+  chartConfig: configSchema.nullable().default(null),
+  parameters: z.array(queryParameterSchema).default([]),
+})
+
+const getUser = async () => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  return { client, user }
+}
+
+// Row level security only returns the user's own queries
+const loadSavedQuery = async (id: string) => {
+  const { client, user } = await getUser()
+  if (!user || !z.string().uuid().safeParse(id).success) {
+    return null
+  }
+
+  const { data, error } = await client
+    .from('saved_queries')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching saved query:', error)
+  }
+
+  return data ? toSavedQuery(data) : null
+}
+
+export async function getSavedQueries() {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { data, error } = await client
+    .from('saved_queries')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching saved queries:', error)
+    return { error: 'Error fetching saved queries' }
+  }
+
+  return { data: data.map(toSavedQuery) }
+}
+
+export async function getSavedQuery(id: string) {
+  const query = await loadSavedQuery(id)
+  if (!query) {
+    return { error: SAVED_QUERY_NOT_FOUND_MESSAGE }
+  }
+  return { data: query }
+}
+
+export async function saveQuery(input: z.input<typeof saveSchema>) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = saveSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const { title, description, sql, tags, chartConfig, parameters } =
+    parsed.data
+
+  // Every placeholder needs a definition and the other way around
+  const names = findQueryParameters(sql)
+  const defined = parameters.map((parameter) => parameter.name)
+  if (
+    names.length !== defined.length ||
+    names.some((name) => !defined.includes(name))
+  ) {
+    return { error: 'The parameters do not match the placeholders in the SQL' }
+  }
+
+  // Reject queries that could never run, the values are only placeholders
+  const bound = bindQueryParameters(
+    sql,
+    Object.fromEntries(names.map((name) => [name, name]))
+  )
+  const policy = checkSqlPolicy('error' in bound ? sql : bound.sql)
+  if (!policy.allowed) {
+    return { error: formatSqlPolicyViolation(policy.violation) }
+  }
+
+  const { data, error } = await client
+    .from('saved_queries')
+    .insert({
+      user_id: user.id,
+      title,
+      description: description || null,
+      sql,
+      tags: Array.from(new Set(tags)),
+      chart_config: chartConfig,
+      parameters: parameters.map((parameter) => ({
+        ...parameter,
+        label: parameter.label || parameter.name,
+        optionsSql: parameter.optionsSql || null,
+      })),
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error saving query:', error)
+    return { error: 'Unexpected error saving query' }
+  }
+
+  revalidatePath('/app/queries')
+  return { data: { id: data.id }, success: 'Query saved' }
+}
+
+export async function deleteSavedQuery(id: string) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const { error } = await client.from('saved_queries').delete().eq('id', id)
+
+  if (error) {
+    console.error('Error deleting saved query:', error)
+    return { error: 'Unexpected error deleting query' }
+  }
+
+  revalidatePath('/app/queries')
+  return { success: 'Query deleted' }
+}
+
+export async function getParameterOptions(
+  savedQueryId: string,
+  connectionProfileId: string
+) {
+  const current = await getCurrentUserScope()
+  if (!current) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+
+  const query = await loadSavedQuery(savedQueryId)
+  if (!query) {
+    return { error: SAVED_QUERY_NOT_FOUND_MESSAGE }
+  }
+
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  return {
+    data: await loadParameterOptions(
+      query.parameters,
+      connectionString,
+      current.scope,
+      { userId: current.userId, source: 'saved_query', connectionProfileId }
+    ),
+  }
+}
+
+// The SQL is always the saved one, only the values come from the client
+export async function runSavedQuery(
+  savedQueryId: string,
+  connectionProfileId: string,
+  values: Record<string, string>
+) {
+  const current = await getCurrentUserScope()
+  if (!current) {
+    return NO_ACCESS_SCOPE_MESSAGE
+  }
+
+  const query = await loadSavedQuery(savedQueryId)
+  if (!query) {
+    return SAVED_QUERY_NOT_FOUND_MESSAGE
+  }
+
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return CONNECTION_PROFILE_NOT_FOUND_MESSAGE
+  }
+
+  const result = await runSavedQuerySql(
+    query.sql,
+    values,
+    connectionString,
+    current.scope,
+    { userId: current.userId, source: 'saved_query', connectionProfileId }
+  )
+  return typeof result === 'string' ? result : JSON.stringify(result)
+}
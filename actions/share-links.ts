@@ -0,0 +1,360 @@
+'use server'
+
+import { randomBytes } from 'crypto'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import type { AccessScope, UserRole } from '@/config/diocese'
+import { SHARE_LINK_CONFIG } from '@/config/share-links'
+import type { Json } from '@/database.types'
+import {
+  loadAccessScope,
+  NO_ACCESS_SCOPE_MESSAGE,
+  scopeCovers,
+} from '@/lib/access-scope'
+import { getThread, toChatTree } from '@/lib/chat-branches'
+import { CHAT_MESSAGE_COLUMNS, sqlResultKey } from '@/lib/chat-messages'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  getCurrentConnectionString,
+  resolveConnectionStringForUser,
+} from '@/lib/connection-profiles'
+import type { QueryAuditContext } from '@/lib/query-audit'
+import { runScopedQuery } from '@/lib/scoped-query'
+import {
+  extractSharedQueries,
+  isShareLinkActive,
+  SHARE_MODES,
+  toShareLink,
+  toSharedMessages,
+  type SharedContent,
+  type SharedMessage,
+  type SharedQuery,
+  type SharedResults,
+  type ShareMode,
+} from '@/lib/share-links'
+import { createAdminClient } from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+const SHARE_LINK_NOT_FOUND_MESSAGE = 'This link does not exist'
+
+const shareSchema = z.object({
+  chatId: z.string().uuid(),
+  // A single result of the chat, otherwise the whole chat
+  messageId: z.string().min(1).nullable().default(null),
+  sql: z.string().trim().min(1).nullable().default(null),
+  mode: z.enum(SHARE_MODES),
+  expiresInHours: z.number().int().positive().nullable().default(null),
+  connectionProfileId: z.string().uuid('Pick a connection'),
+})
+
+const getUser = async () => {
+  const client = await createClient()
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+  return { client, user }
+}
+
+// Queries run one after the other, like the chat runs its code blocks
+const runSharedQueries = async (
+  queries: SharedQuery[],
+  connectionString: string,
+  scope: AccessScope,
+  audit: QueryAuditContext
+) => {
+  const results: SharedResults = {}
+  for (const query of queries) {
+    results[query.key] = await runScopedQuery(
+      query.sql,
+      connectionString,
+      scope,
+      { ...audit, messageId: query.messageId }
+    )
+  }
+  return results
+}
+
+export async function getShareLinks(chatId: string) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+  if (!z.string().uuid().safeParse(chatId).success) {
+    return { error: 'Invalid chat' }
+  }
+
+  // Row level security only returns the user's own links
+  const { data, error } = await client
+    .from('share_links')
+    .select('*')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching share links:', error)
+    return { error: 'Error fetching share links' }
+  }
+
+  return { data: data.map(toShareLink) }
+}
+
+export async function createShareLink(input: z.input<typeof shareSchema>) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const parsed = shareSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+  const { chatId, messageId, sql, mode, expiresInHours, connectionProfileId } =
+    parsed.data
+  if (!messageId !== !sql) {
+    return { error: 'Pick a result to share' }
+  }
+
+  const { data: chat, error: chatError } = await client
+    .from('chats')
+    .select('id, name, leaf_message_id')
+    .eq('id', chatId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (chatError) {
+    console.error('Error fetching chat:', chatError)
+    return { error: 'Unexpected error sharing chat' }
+  }
+  if (!chat) {
+    return { error: 'Chat not found, send a message first' }
+  }
+
+  const { data: rows, error: rowsError } = await client
+    .from('chat_messages')
+    .select(CHAT_MESSAGE_COLUMNS)
+    .eq('chat_id', chatId)
+    .order('seq')
+
+  if (rowsError) {
+    console.error('Error fetching chat messages:', rowsError)
+    return { error: 'Unexpected error sharing chat' }
+  }
+
+  const tree = toChatTree(rows, chat.leaf_message_id)
+  let messages: SharedMessage[] | null = null
+  let queries: SharedQuery[]
+
+  if (messageId && sql) {
+    // Only SQL the assistant wrote in this chat can be shared
+    const message = tree.nodes.find((node) => node.message.id === messageId)
+    const key = sqlResultKey(sql, messageId)
+    queries = extractSharedQueries(message ? [message.message] : []).filter(
+      (query) => query.key === key
+    )
+    if (!queries.length) {
+      return { error: 'This query is not part of the chat' }
+    }
+  } else {
+    messages = toSharedMessages(getThread(tree, tree.leafId), mode)
+    queries = extractSharedQueries(messages).slice(
+      0,
+      SHARE_LINK_CONFIG.maxSharedQueries
+    )
+  }
+
+  const connectionString = await getCurrentConnectionString(connectionProfileId)
+  if (!connectionString) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  if (!scope) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+
+  // Snapshots keep the rows the author sees now
+  let results: SharedResults | null = null
+  if (mode === 'snapshot') {
+    results = await runSharedQueries(queries, connectionString, scope, {
+      userId: user.id,
+      source: 'share_link',
+      connectionProfileId,
+      chatId,
+    })
+  }
+
+  const { data, error } = await createAdminClient()
+    .from('share_links')
+    .insert({
+      token: randomBytes(24).toString('base64url'),
+      owner_id: user.id,
+      chat_id: chatId,
+      message_id: messageId,
+      sql: messageId ? queries[0].sql : null,
+      mode,
+      connection_profile_id: connectionProfileId,
+      title: chat.name,
+      messages: messages as unknown as Json,
+      results: results as unknown as Json,
+      // Decides who may see the snapshot's rows
+      shared_role: scope.role,
+      shared_diocese_ids: scope.dioceseIds,
+      shared_testing_center_ids: scope.testingCenterIds,
+      expires_at: expiresInHours
+        ? new Date(Date.now() + expiresInHours * 3_600_000).toISOString()
+        : null,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    console.error('Error creating share link:', error)
+    return { error: 'Unexpected error creating share link' }
+  }
+
+  revalidatePath(`/app/${chatId}`)
+  return { data: toShareLink(data) }
+}
+
+export async function revokeShareLink(id: string) {
+  const { user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+  if (!z.string().uuid().safeParse(id).success) {
+    return { error: SHARE_LINK_NOT_FOUND_MESSAGE }
+  }
+
+  const { data, error } = await createAdminClient()
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('owner_id', user.id)
+    .is('revoked_at', null)
+    .select('id')
+
+  if (error) {
+    console.error('Error revoking share link:', error)
+    return { error: 'Unexpected error revoking share link' }
+  }
+  if (!data.length) {
+    return { error: SHARE_LINK_NOT_FOUND_MESSAGE }
+  }
+
+  return { success: 'Link revoked' }
+}
+
+/**
+ * Loads a shared chat or result for the signed-in viewer. Re-run links use
+ * the author's connection but always the viewer's own access scope.
+ * Snapshots are only shown to viewers whose scope covers the author's,
+ * others get them re-run with their own scope.
+ */
+export async function getSharedContent(token: string) {
+  const { client, user } = await getUser()
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const admin = createAdminClient()
+  const { data: link, error } = await admin
+    .from('share_links')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching share link:', error)
+    return { error: 'Unexpected error opening link' }
+  }
+  if (!link) {
+    return { error: SHARE_LINK_NOT_FOUND_MESSAGE }
+  }
+
+  const shareLink = toShareLink(link)
+  if (!isShareLinkActive(shareLink)) {
+    return {
+      error: shareLink.revokedAt
+        ? 'This link has been revoked'
+        : 'This link has expired',
+    }
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  if (!scope) {
+    return { error: NO_ACCESS_SCOPE_MESSAGE }
+  }
+
+  // Links made before the author's scope was recorded are always re-run
+  const mode: ShareMode =
+    shareLink.mode === 'snapshot' &&
+    link.shared_role &&
+    scopeCovers(scope, {
+      role: link.shared_role as UserRole,
+      dioceseIds: link.shared_diocese_ids,
+      testingCenterIds: link.shared_testing_center_ids,
+    })
+      ? 'snapshot'
+      : 'rerun'
+
+  // Links created before messages were reduced on save still hold the full
+  // thread
+  const storedMessages = link.messages as unknown as SharedMessage[] | null
+  const messages = storedMessages && toSharedMessages(storedMessages, mode)
+  const query =
+    link.sql && link.message_id
+      ? {
+          key: sqlResultKey(link.sql, link.message_id),
+          sql: link.sql,
+          messageId: link.message_id,
+        }
+      : null
+  const content = {
+    title: link.title,
+    mode,
+    createdAt: link.created_at,
+    messages,
+    query,
+  }
+
+  if (mode === 'snapshot') {
+    const data: SharedContent = {
+      ...content,
+      results: (link.results ?? {}) as unknown as SharedResults,
+    }
+    return { data }
+  }
+
+  // The author's role decides whether the connection is still theirs to use
+  const ownerScope = await loadAccessScope(admin, link.owner_id)
+  const connectionString =
+    ownerScope &&
+    (await resolveConnectionStringForUser(
+      link.owner_id,
+      ownerScope.role,
+      link.connection_profile_id
+    ))
+  if (!connectionString) {
+    return { error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE }
+  }
+
+  const queries = query
+    ? [query]
+    : extractSharedQueries(messages ?? []).slice(
+        0,
+        SHARE_LINK_CONFIG.maxSharedQueries
+      )
+
+  const data: SharedContent = {
+    ...content,
+    // Logged as the viewer, the rows are read with their scope
+    results: await runSharedQueries(queries, connectionString, scope, {
+      userId: user.id,
+      source: 'share_link',
+      connectionProfileId: link.connection_profile_id,
+      chatId: link.chat_id,
+    }),
+  }
+  return { data }
+}
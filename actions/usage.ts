@@ -0,0 +1,265 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+
+import { MODELS } from '@/config/models'
+import { USAGE_CONFIG } from '@/config/usage'
+import { loadAccessScope } from '@/lib/access-scope'
+import {
+  AI_USAGE_KIND_LABELS,
+  budgetState,
+  groupUsage,
+  startOfMonth,
+  sumUsage,
+  type AiUsageKind,
+  type BudgetStatus,
+  type UsageTotals,
+  type UsageTotalsRow,
+} from '@/lib/ai-usage'
+import { loadBudgetStatus, loadUsageTotals } from '@/lib/usage-accounting'
+import {
+  createAdminClient,
+  listAllUsers,
+  selectAllRows,
+} from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+export type UsageGroup = {
+  key: string
+  label: string
+  totals: UsageTotals
+}
+
+export type UserUsage = {
+  userId: string
+  email: string | null
+  dioceseIds: number[]
+  totals: UsageTotals
+  budget: BudgetStatus
+}
+
+export type DioceseUsage = {
+  // null for users without a diocese, e.g. super admins
+  dioceseId: number | null
+  users: number
+  totals: UsageTotals
+}
+
+export type UsageOverview = {
+  since: string
+  totals: UsageTotals
+  budget: BudgetStatus
+  byModel: UsageGroup[]
+  byKind: UsageGroup[]
+  byChat: UsageGroup[]
+  // Everyone's usage, for super admins only
+  organization: {
+    totals: UsageTotals
+    byModel: UsageGroup[]
+    byUser: UserUsage[]
+    byDiocese: DioceseUsage[]
+  } | null
+}
+
+const budgetSchema = z.object({
+  userId: z.string().uuid(),
+  // null removes the budget
+  monthlyLimitUsd: z
+    .number()
+    .positive('The budget must be more than $0')
+    .max(1_000_000)
+    .nullable(),
+})
+
+const modelLabel = (id: string) =>
+  MODELS.find((model) => model.id === id)?.label ?? id
+
+const byModel = (rows: UsageTotalsRow[]): UsageGroup[] =>
+  groupUsage(rows, (row) => [row.model]).map(({ key, totals }) => ({
+    key,
+    label: modelLabel(key),
+    totals,
+  }))
+
+const byKind = (rows: UsageTotalsRow[]): UsageGroup[] =>
+  groupUsage(rows, (row) => [row.kind]).map(({ key, totals }) => ({
+    key,
+    label: AI_USAGE_KIND_LABELS[key as AiUsageKind] ?? key,
+    totals,
+  }))
+
+export async function getUsageOverview() {
+  const client = await createClient()
+
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const since = startOfMonth().toISOString()
+  const [usage, budget, scope] = await Promise.all([
+    loadUsageTotals(client, since, user.id),
+    loadBudgetStatus(client, user.id),
+    loadAccessScope(client, user.id),
+  ])
+
+  if (usage.error) {
+    console.error('Error fetching AI usage:', usage.error)
+    return { error: 'Error fetching AI usage' }
+  }
+
+  const own = usage.data
+
+  // The most expensive chats, named when they still exist
+  const chats = groupUsage(
+    own.filter((row) => row.chat_id),
+    (row) => [row.chat_id as string]
+  ).slice(0, USAGE_CONFIG.maxChats)
+  const { data: chatNames } = await client
+    .from('chats')
+    .select('id, name')
+    .in(
+      'id',
+      chats.map((chat) => chat.key)
+    )
+
+  const data: UsageOverview = {
+    since,
+    totals: sumUsage(own),
+    budget,
+    byModel: byModel(own),
+    byKind: byKind(own),
+    byChat: chats.map(({ key, totals }) => ({
+      key,
+      label: chatNames?.find((chat) => chat.id === key)?.name ?? 'Deleted chat',
+      totals,
+    })),
+    organization: null,
+  }
+
+  if (scope?.role !== 'super_admin') {
+    return { data }
+  }
+
+  const admin = createAdminClient()
+  const [allRows, usersData, scopes, budgets] = await Promise.all([
+    loadUsageTotals(admin, since),
+    listAllUsers(admin),
+    selectAllRows((from, to) =>
+      admin
+        .from('user_scopes')
+        .select('user_id, diocese_ids')
+        .order('user_id')
+        .range(from, to)
+    ),
+    admin.from('usage_budgets').select('user_id, monthly_limit_usd'),
+  ])
+
+  if (allRows.error || usersData.error || scopes.error || budgets.error) {
+    console.error(
+      'Error fetching organization usage:',
+      allRows.error ?? usersData.error ?? scopes.error ?? budgets.error
+    )
+    return { data, error: 'Error fetching the usage of other users' }
+  }
+
+  const dioceseIdsOf = (userId: string) =>
+    scopes.data.find((s) => s.user_id === userId)?.diocese_ids ?? []
+
+  const byUser: UserUsage[] = usersData.users
+    .map((member) => {
+      const totals = sumUsage(
+        allRows.data.filter((row) => row.user_id === member.id)
+      )
+      const limit = budgets.data.find((b) => b.user_id === member.id)
+      const limitUsd = limit ? Number(limit.monthly_limit_usd) : null
+      return {
+        userId: member.id,
+        email: member.email ?? null,
+        dioceseIds: dioceseIdsOf(member.id),
+        totals,
+        budget: {
+          state: budgetState(totals.projectCostUsd, limitUsd),
+          spentUsd: totals.projectCostUsd,
+          limitUsd,
+        },
+      }
+    })
+    .sort((a, b) => b.totals.costUsd - a.totals.costUsd)
+
+  // A user in several dioceses counts in each of them
+  const dioceseKeys = (userId: string) => {
+    const ids = dioceseIdsOf(userId)
+    return ids.length ? ids.map(String) : ['none']
+  }
+  const byDiocese: DioceseUsage[] = groupUsage(allRows.data, (row) =>
+    dioceseKeys(row.user_id)
+  ).map(({ key, totals }) => ({
+    dioceseId: key === 'none' ? null : Number(key),
+    users: new Set(
+      allRows.data
+        .filter((row) => dioceseKeys(row.user_id).includes(key))
+        .map((row) => row.user_id)
+    ).size,
+    totals,
+  }))
+
+  data.organization = {
+    totals: sumUsage(allRows.data),
+    byModel: byModel(allRows.data),
+    byUser,
+    byDiocese,
+  }
+
+  return { data }
+}
+
+export async function setUsageBudget(input: z.infer<typeof budgetSchema>) {
+  const client = await createClient()
+
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+
+  if (!user) {
+    return { error: 'Unauthorized' }
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  if (scope?.role !== 'super_admin') {
+    return { error: 'Forbidden' }
+  }
+
+  const parsed = budgetSchema.safeParse(input)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0].message }
+  }
+
+  const { userId, monthlyLimitUsd } = parsed.data
+  const budgets = createAdminClient().from('usage_budgets')
+
+  const { error } =
+    monthlyLimitUsd === null
+      ? await budgets.delete().eq('user_id', userId)
+      : await budgets.upsert({
+          user_id: userId,
+          monthly_limit_usd: monthlyLimitUsd,
+          updated_by: user.id,
+          updated_at: new Date().toISOString(),
+        })
+
+  if (error) {
+    console.error('Error updating usage budget:', error)
+    return { error: 'Unexpected error updating the budget' }
+  }
+
+  revalidatePath('/app/usage')
+
+  return {
+    success: monthlyLimitUsd === null ? 'Budget removed' : 'Budget updated',
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { Client } from 'pg'
+import { withPooledClient } from '@/lib/db-pool'
 import { validateUser, createSession, setSessionCookie } from '@/utils/auth'
 
 export async function POST(request: Request) {
@@ -13,13 +13,20 @@ export async function POST(request: Request) {
       )
     }
 
-    const client = new Client({
-      connectionString: process.env.DATABASE_URL
-    })
-
-    await client.connect()
+    const user = await withPooledClient(
+      // biome-ignore lint/style/noNonNullAssertion: <explanation>
+      process.env.DATABASE_URL!,
+      'system',
+      async (client) => {
+        const user = await validateUser(client, username, password)
+        if (user) {
+          const session = await createSession(client, user.id)
+          setSessionCookie(session.token)
+        }
+        return user
+      }
+    )
 
-    const user = await validateUser(client, username, password)
     if (!user) {
       return NextResponse.json(
         { message: 'Invalid username or password' },
@@ -27,11 +34,6 @@ export async function POST(request: Request) {
       )
     }
 
-    const session = await createSession(client, user.id)
-    setSessionCookie(session.token)
-
-    await client.end()
-
     return NextResponse.json({ user })
   } catch (error) {
     console.error('Login error:', error)
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { Client } from 'pg'
+import { withPooledClient } from '@/lib/db-pool'
 import { getSessionCookie, deleteSessionCookie, deleteSession } from '@/utils/auth'
 
 export async function POST() {
@@ -9,13 +9,12 @@ export async function POST() {
       return NextResponse.json({ message: 'Not logged in' }, { status: 401 })
     }
 
-    const client = new Client({
-      connectionString: process.env.DATABASE_URL
-    })
-
-    await client.connect()
-    await deleteSession(client, token)
-    await client.end()
+    await withPooledClient(
+      // biome-ignore lint/style/noNonNullAssertion: <explanation>
+      process.env.DATABASE_URL!,
+      'system',
+      (client) => deleteSession(client, token)
+    )
 
     deleteSessionCookie()
 
@@ -0,0 +1,208 @@
+import { headers } from 'next/headers'
+import { z } from 'zod'
+
+import { generateChartConfig } from '@/actions/chart'
+import { CHAT_EXPORT_CONFIG } from '@/config/chat-export'
+import type { AccessScope } from '@/config/diocese'
+import { MODEL_POLICY } from '@/config/models'
+import { loadAccessScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import type { Result } from '@/lib/chart'
+import { renderChartPng } from '@/lib/chart-image'
+import { getThread, toChatTree } from '@/lib/chat-branches'
+import {
+  CHAT_EXPORT_FORMATS,
+  chatExportFilename,
+  renderChatExport,
+  type ChatExportFormat,
+  type ChatExportQuery,
+} from '@/lib/chat-export'
+import { CHAT_MESSAGE_COLUMNS } from '@/lib/chat-messages'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  resolveConnectionString,
+} from '@/lib/connection-profiles'
+import type { UserApiKeys } from '@/lib/model-registry'
+import type { QueryAuditContext } from '@/lib/query-audit'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+import { runScopedQuery } from '@/lib/scoped-query'
+import { extractSharedQueries } from '@/lib/share-links'
+import { createClient } from '@/utils/supabase/server'
+
+// Every query of the chat runs again, charts need a model call each
+export const maxDuration = 300
+
+const exportSchema = z.object({
+  chatId: z.string().uuid(),
+  connectionProfileId: z.string().uuid(),
+  format: z.enum(Object.keys(CHAT_EXPORT_FORMATS) as [ChatExportFormat]),
+  collapseSql: z.boolean().default(false),
+  includeCharts: z.boolean().default(true),
+})
+
+// dioceses is not a protected table, the names are readable in any scope
+const loadDioceseNames = async (
+  connectionString: string,
+  scope: AccessScope,
+  audit: QueryAuditContext
+) => {
+  if (scope.role === 'super_admin') {
+    return null
+  }
+
+  const result = await runScopedQuery(
+    'SELECT name FROM dioceses WHERE id = ANY($1) ORDER BY name',
+    connectionString,
+    scope,
+    audit,
+    [scope.dioceseIds]
+  )
+  if (typeof result === 'string') {
+    console.error('Error fetching diocese names:', result)
+    return scope.dioceseIds.map((id) => `#${id}`)
+  }
+  return result.rows.map((row) => String(row.name))
+}
+
+// Like "Show chart" in the chat, a failed chart only leaves out the image
+const chartFor = async (
+  result: LimitedQueryResult,
+  sql: string,
+  modelId: string,
+  userKeys: UserApiKeys,
+  chatId: string
+) => {
+  if (result.rows.length < 2) {
+    return null
+  }
+
+  const rows = (result.rows as Result[]).slice(
+    0,
+    CHAT_EXPORT_CONFIG.maxChartRows
+  )
+  try {
+    const { config, error } = await generateChartConfig(
+      rows,
+      sql,
+      modelId,
+      userKeys,
+      { chatId }
+    )
+    if (!config) {
+      console.log('Export chart skipped:', error)
+      return null
+    }
+    return { title: config.title, png: renderChartPng(rows, config) }
+  } catch (error) {
+    console.error('Error generating export chart:', error)
+    return null
+  }
+}
+
+export async function POST(req: Request) {
+  const client = await createClient()
+  const { data } = await client.auth.getUser()
+  const user = data.user
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const parsed = exportSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return new Response('Invalid export request', { status: 400 })
+  }
+  const { chatId, connectionProfileId, format, collapseSql, includeCharts } =
+    parsed.data
+
+  const headers_ = await headers()
+  const modelId = headers_.get('x-model') ?? MODEL_POLICY.defaultModel
+  const userKeys = {
+    openai: headers_.get('x-openai-api-key'),
+    anthropic: headers_.get('x-anthropic-api-key'),
+  }
+
+  const { data: chat, error: chatError } = await client
+    .from('chats')
+    .select('id, name, leaf_message_id')
+    .eq('id', chatId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+
+  if (chatError) {
+    console.error('Error fetching chat:', chatError)
+    return new Response('Unexpected error exporting chat', { status: 500 })
+  }
+  if (!chat) {
+    return new Response('Chat not found', { status: 404 })
+  }
+
+  const { data: rows, error: rowsError } = await client
+    .from('chat_messages')
+    .select(CHAT_MESSAGE_COLUMNS)
+    .eq('chat_id', chatId)
+    .order('seq')
+
+  if (rowsError) {
+    console.error('Error fetching chat messages:', rowsError)
+    return new Response('Unexpected error exporting chat', { status: 500 })
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  if (!scope) {
+    return new Response(NO_ACCESS_SCOPE_MESSAGE, { status: 403 })
+  }
+
+  const connectionString = await resolveConnectionString(
+    client,
+    connectionProfileId
+  )
+  if (!connectionString) {
+    return new Response(CONNECTION_PROFILE_NOT_FOUND_MESSAGE, { status: 404 })
+  }
+
+  // The shown branch of the chat, as it reads in the app
+  const tree = toChatTree(rows, chat.leaf_message_id)
+  const messages = getThread(tree, tree.leafId)
+
+  const audit: QueryAuditContext = {
+    userId: user.id,
+    source: 'chat_export',
+    connectionProfileId,
+    chatId,
+  }
+
+  // Results are run again now so the report only has rows the user may see
+  const queries: Record<string, ChatExportQuery> = {}
+  for (const query of extractSharedQueries(messages).slice(
+    0,
+    CHAT_EXPORT_CONFIG.maxQueries
+  )) {
+    const result = await runScopedQuery(query.sql, connectionString, scope, {
+      ...audit,
+      messageId: query.messageId,
+    })
+    queries[query.key] = {
+      result,
+      chart:
+        includeCharts && typeof result !== 'string'
+          ? await chartFor(result, query.sql, modelId, userKeys, chatId)
+          : null,
+    }
+  }
+
+  const exportedAt = new Date()
+  const file = await renderChatExport(format, {
+    title: chat.name,
+    dioceses: await loadDioceseNames(connectionString, scope, audit),
+    exportedAt,
+    messages,
+    queries,
+    collapseSql,
+  })
+
+  return new Response(new Uint8Array(file), {
+    headers: {
+      'Content-Type': CHAT_EXPORT_FORMATS[format].contentType,
+      'Content-Disposition': `attachment; filename="${chatExportFilename(chat.name, exportedAt, format)}"`,
+    },
+  })
+}
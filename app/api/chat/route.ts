@@ -1,4 +1,3 @@
-import { createOpenAI } from '@ai-sdk/openai'
 import {
   streamText,
   convertToCoreMessages,
@@ -6,10 +5,11 @@ import {
   smoothStream,
   appendResponseMessages,
   generateText,
+  createDataStreamResponse,
+  type Message,
 } from 'ai'
 import { headers } from 'next/headers'
 import { z } from 'zod'
-import { DIOCESE_CONFIG } from '@/config/diocese'
 import {
   getExplainForQuery,
   getForeignKeyConstraints,
@@ -19,10 +19,33 @@ import {
   getTableStats,
   determineQueryType,
   getReferenceSection,
+  getAccessScopeSection,
   validateQuery,
 } from './utils'
 import { createClient } from '@/utils/supabase/server'
+import { loadAccessScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import {
+  QUERY_AUDIT_FAILED_MESSAGE,
+  recordQueryAudit,
+  runScopedQuery,
+  toQueryPreview,
+} from '@/lib/scoped-query'
+import type { QueryAuditContext } from '@/lib/query-audit'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  resolveConnectionString,
+} from '@/lib/connection-profiles'
+import { MODEL_POLICY } from '@/config/models'
+import {
+  ModelSelectionError,
+  resolveModel,
+  type ResolvedModel,
+} from '@/lib/model-registry'
 import { revalidatePath } from 'next/cache'
+import { toChatMessageInsert } from '@/lib/chat-messages'
+import { compactChatContext } from '@/lib/chat-context'
+import { budgetExceededMessage, formatUsd } from '@/lib/ai-usage'
+import { createBudgetCheck, recordAiUsage } from '@/lib/usage-accounting'
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30
@@ -40,9 +63,12 @@ export async function POST(req: Request) {
   console.log('Request payload:', { id, messageCount: messages?.length })
 
   const headers_ = await headers()
-  const connectionString = headers_.get('x-connection-string')
-  const openaiApiKey = headers_.get('x-openai-api-key')
-  const model = headers_.get('x-model')
+  const connectionProfileId = headers_.get('x-connection-profile-id')
+  const userKeys = {
+    openai: headers_.get('x-openai-api-key'),
+    anthropic: headers_.get('x-anthropic-api-key'),
+  }
+  const modelId = headers_.get('x-model')
 
   if (!id) {
     console.log('Bad request: No id provided')
@@ -76,23 +102,132 @@ export async function POST(req: Request) {
     return new Response('Unauthorized', { status: 401 })
   }
 
+  if (!connectionProfileId) {
+    console.log('Bad request: Missing connection profile')
+    return new Response('No database connection selected', { status: 400 })
+  }
+
+  // Credentials never come from the browser, only the saved profile's id
+  const connectionString = await resolveConnectionString(
+    client,
+    connectionProfileId
+  )
   if (!connectionString) {
-    console.log('Bad request: Missing connection string')
-    return new Response('No connection string provided', { status: 400 })
+    console.log('Not found: Connection profile', connectionProfileId)
+    return new Response(CONNECTION_PROFILE_NOT_FOUND_MESSAGE, { status: 404 })
   }
 
-  const projectOpenaiApiKey = process.env.OPENAI_API_KEY
+  // Loaded on every request so scope changes apply without a redeploy
+  const scope = await loadAccessScope(client, user.id)
+  if (!scope) {
+    console.log('Forbidden: No access scope for user', user.id)
+    return new Response(NO_ACCESS_SCOPE_MESSAGE, { status: 403 })
+  }
 
-  const openai = createOpenAI({
-    // biome-ignore lint/style/noNonNullAssertion: <explanation>
-    apiKey: projectOpenaiApiKey!,
-  })
+  let chatModel: ResolvedModel
+  try {
+    chatModel = resolveModel(modelId, userKeys)
+  } catch (error) {
+    if (error instanceof ModelSelectionError) {
+      console.log('Bad request: Model not available', error.message)
+      return new Response(error.message, { status: 400 })
+    }
+    throw error
+  }
+
+  // Budgets cap spend on the project's keys, own keys are never stopped
+  const checkBudget = createBudgetCheck(client, user.id)
+  const budget = await checkBudget(chatModel)
+  if (budget?.state === 'exceeded') {
+    console.log('Forbidden: Monthly AI budget exceeded', user.id)
+    return new Response(budgetExceededMessage(budget), { status: 429 })
+  }
+
+  // Naming uses a cheaper model when one is available, otherwise the chat model
+  let namingModel = chatModel
+  try {
+    namingModel = resolveModel(MODEL_POLICY.namingModel, userKeys)
+  } catch (error) {
+    console.error('Naming model unavailable, using the chat model:', error)
+  }
+
+  // Same for the summaries of long chats
+  let summaryModel = chatModel
+  try {
+    summaryModel = resolveModel(MODEL_POLICY.summaryModel, userKeys)
+  } catch (error) {
+    console.error('Summary model unavailable, using the chat model:', error)
+  }
+
+  // The chat model passed the budget check, a cheaper model on the project's
+  // keys may not have when the chat uses the user's own key
+  if ((await checkBudget(namingModel))?.state === 'exceeded') {
+    namingModel = chatModel
+  }
+  if ((await checkBudget(summaryModel))?.state === 'exceeded') {
+    summaryModel = chatModel
+  }
+
+  // Summaries stored on earlier messages let long chats skip their start
+  const summaries: Record<string, string> = {}
+  if (chat) {
+    const { data: summaryRows, error: summaryError } = await client
+      .from('chat_messages')
+      .select('id, context_summary')
+      .eq('chat_id', id)
+      .not('context_summary', 'is', null)
+    if (summaryError) {
+      console.error('Error fetching chat summaries:', summaryError)
+    }
+    for (const row of summaryRows ?? []) {
+      summaries[row.id] = row.context_summary ?? ''
+    }
+  }
+  const context = await compactChatContext(
+    messages,
+    summaries,
+    summaryModel.model
+  )
+  console.log('Chat context:', context.annotation)
+  if (context.summaryUsage) {
+    await recordAiUsage({
+      userId: user.id,
+      chatId: id,
+      messageId: context.newSummary?.messageId,
+      kind: 'context_summary',
+      model: summaryModel,
+      usage: context.summaryUsage,
+    })
+  }
 
   const shouldUpdateChats = !chat
 
+  // Every tool call is audited with the question that led to it
+  const audit: QueryAuditContext = {
+    userId: user.id,
+    source: 'chat_tool',
+    connectionProfileId,
+    chatId: id,
+    messageId: messages[messages.length - 1]?.id,
+  }
+
+  // Catalog tools read no user data, their calls are logged without SQL
+  const auditedTool = async <T>(tool: string, run: () => Promise<T>) => {
+    const startedAt = performance.now()
+    const result = await run()
+    const audited = await recordQueryAudit({ ...audit, tool }, scope, {
+      sql: null,
+      outcome: typeof result === 'string' ? 'error' : 'ok',
+      durationMs: performance.now() - startedAt,
+      rowCount: Array.isArray(result) ? result.length : null,
+      error: typeof result === 'string' ? result : null,
+    })
+    return audited ? result : QUERY_AUDIT_FAILED_MESSAGE
+  }
+
   const result = streamText({
-    model: openai('gpt-4o'),
-    messages: convertToCoreMessages(messages),
+    model: chatModel.model,
+    messages: convertToCoreMessages(context.messages),
     system: `
         You are a PostgreSQL database optimization expert specializing in both query performance tuning and SQL query construction. Your primary objective is to always provide a direct, complete, and executable SQL query as your response whenever possible, rather than vague or generic explanations.
 
@@ -106,8 +241,12 @@ export async function POST(req: Request) {
            - Do NOT make other changes
            - Validate again
          - If validation succeeds:
-           - Proceed with query execution
-      3. NEVER:
+           - Run the query with the runQuery tool
+      3. Look at the runQuery result before answering:
+         - If it returns zero rows or unexpected values, check your filters and joins, fix the query, validate and run it again
+         - Use the returned rows for follow-up calculations instead of guessing
+         - Base your answer on the actual result
+      4. NEVER:
          - Skip validation
          - Make changes not related to validation errors
          - Apologize for validation failures
@@ -148,7 +287,7 @@ export async function POST(req: Request) {
       1. NULL handling must be present where needed
       2. IDs must be used instead of names for operations
       3. Role-based filtering must be present
-      4. Diocese and testing center filters must be present
+      4. Diocese and testing center filters are injected automatically (do not add them)
       5. All columns must exist in the schema
       6. Proper join paths must be maintained
 
@@ -167,11 +306,7 @@ export async function POST(req: Request) {
       10. For score calculations, always use the formula: (knowledge_score / NULLIF(knowledge_total, 0)) * 100
 
       **Role-Based Access:**
-      ${DIOCESE_CONFIG.role === 'super_admin' 
-        ? '// Super admin has no filter restrictions (except dangerous operations)'
-        : `- diocese_id = ${DIOCESE_CONFIG.id}
-           ${DIOCESE_CONFIG.role === 'school_manager' ? `- testing_center_id = ${DIOCESE_CONFIG.testingCenterId}` : ''}`
-      }
+      ${getAccessScopeSection(scope)}
 
       **Schema Verification:**
       Before constructing any query:
@@ -187,10 +322,12 @@ export async function POST(req: Request) {
       2. NULL Handling: Ensure proper NULL handling for calculations
       3. ID Usage: Verify IDs are used instead of names
       4. Role Filtering: Check for proper role filters (5 for teachers, 7 for students)
-      5. Access Control: Verify diocese and testing center filters
+      5. Access Control: Handled automatically, no diocese or testing center filter needed
       6. Join Paths: Ensure proper table relationships
 
       ${getReferenceSection(determineQueryType(messages[messages.length - 1].content))}
+
+      ${context.summary ? `**Earlier in this conversation (summarized):**\n${context.summary}` : ''}
     `,
     maxSteps: 22,
     tools: {
@@ -198,7 +335,9 @@ export async function POST(req: Request) {
         description:
           'Retrieves a list of tables and their columns from the connected PostgreSQL database.',
         execute: async () => {
-          const tables = await getPublicTablesWithColumns(connectionString)
+          const tables = await auditedTool('getPublicTablesWithColumns', () =>
+            getPublicTablesWithColumns(connectionString, scope)
+          )
           return tables
         },
         parameters: z.object({}),
@@ -208,7 +347,12 @@ export async function POST(req: Request) {
         description:
           "Analyzes and optimizes a given SQL query, providing a detailed execution plan in JSON format. If the query is not valid, it should return an error message. The function itself will add the EXPLAIN keyword to the query, so you don't need to include it.",
         execute: async ({ query }) => {
-          const explain = await getExplainForQuery(query, connectionString)
+          const explain = await getExplainForQuery(
+            query,
+            connectionString,
+            scope,
+            { ...audit, tool: 'getExplainForQuery' }
+          )
           return explain
         },
         parameters: z.object({
@@ -219,7 +363,9 @@ export async function POST(req: Request) {
       getIndexStatsUsage: tool({
         description: 'Retrieves usage statistics for indexes in the database.',
         execute: async () => {
-          const indexStats = await getIndexStatsUsage(connectionString)
+          const indexStats = await auditedTool('getIndexStatsUsage', () =>
+            getIndexStatsUsage(connectionString, scope)
+          )
           return indexStats
         },
         parameters: z.object({}),
@@ -228,7 +374,9 @@ export async function POST(req: Request) {
       getIndexes: tool({
         description: 'Retrieves the indexes present in the connected database.',
         execute: async () => {
-          const indexes = await getIndexes(connectionString)
+          const indexes = await auditedTool('getIndexes', () =>
+            getIndexes(connectionString, scope)
+          )
           return indexes
         },
         parameters: z.object({}),
@@ -238,7 +386,9 @@ export async function POST(req: Request) {
         description:
           'Retrieves statistics about tables, including row counts and sizes.',
         execute: async () => {
-          const stats = await getTableStats(connectionString)
+          const stats = await auditedTool('getTableStats', () =>
+            getTableStats(connectionString, scope)
+          )
           return stats
         },
         parameters: z.object({}),
@@ -248,7 +398,9 @@ export async function POST(req: Request) {
         description:
           'Retrieves information about foreign key relationships between tables.',
         execute: async () => {
-          const constraints = await getForeignKeyConstraints(connectionString)
+          const constraints = await auditedTool('getForeignKeyConstraints', () =>
+            getForeignKeyConstraints(connectionString, scope)
+          )
           return constraints
         },
         parameters: z.object({}),
@@ -257,34 +409,66 @@ export async function POST(req: Request) {
       validateQuery: tool({
         description: 'MANDATORY - DO NOT SKIP: This tool MUST be used to validate EVERY SQL query before execution. The validation checks for proper NULL handling, ID usage, role filtering, and other requirements. If validation fails, you MUST fix the issues and validate again. NEVER proceed with query execution without successful validation.',
         execute: async ({ query }) => {
-          const validation = await validateQuery(query, connectionString);
+          const startedAt = performance.now()
+          const validation = await validateQuery(query, connectionString, scope);
+          // Validation does not run the query, failed checks count as rejected
+          const audited = await recordQueryAudit({ ...audit, tool: 'validateQuery' }, scope, {
+            sql: query,
+            outcome: validation.isValid ? 'ok' : 'rejected',
+            durationMs: performance.now() - startedAt,
+            rejectionReason: validation.isValid
+              ? null
+              : validation.errors.join('\n'),
+          })
+          if (!audited) {
+            return {
+              isValid: false,
+              errors: [QUERY_AUDIT_FAILED_MESSAGE],
+              warnings: [],
+            }
+          }
           return validation;
         },
         parameters: z.object({
           query: z.string().describe('The SQL query to validate'),
         }),
       }),
+
+      runQuery: tool({
+        description:
+          'Executes a validated SQL query and returns the column names and types, the first rows and the row count. Use it to check the results before answering, e.g. to notice zero rows and relax a filter, or to compute a follow-up.',
+        execute: async ({ query }) => {
+          const result = await runScopedQuery(query, connectionString, scope, {
+            ...audit,
+            tool: 'runQuery',
+          })
+          return typeof result === 'string' ? result : toQueryPreview(result)
+        },
+        parameters: z.object({
+          query: z.string().describe('The SQL query to run'),
+        }),
+      }),
     },
-    onFinish: async ({ response }) => {
+    onFinish: async ({ response, usage }) => {
       console.log('Stream completed, updating database')
+      const thread: Message[] = appendResponseMessages({
+        messages,
+        responseMessages: response.messages,
+      })
+      // Before the chat is stored, the tokens were spent either way
+      await recordAiUsage({
+        userId: user.id,
+        chatId: id,
+        messageId: thread[thread.length - 1].id,
+        kind: 'chat',
+        model: chatModel,
+        usage,
+      })
       try {
-        if (chat) {
-          console.log('Updating existing chat:', id)
-          await client
-            .from('chats')
-            .update({
-              messages: JSON.stringify(
-                appendResponseMessages({
-                  messages,
-                  responseMessages: response.messages,
-                })
-              ),
-            })
-            .eq('id', id)
-        } else {
+        if (!chat) {
           console.log('Creating new chat:', id)
           const generatedName = await generateText({
-            model: openai('gpt-4o-mini'),
+            model: namingModel.model,
             system: `
 You are an assistant that generates short, concise, descriptive chat names for a PostgreSQL chatbot. 
 The name must:
@@ -307,19 +491,82 @@ Your response should be the title text only, nothing else.
             )}</MESSAGES>`,
           })
 
-          await client.from('chats').insert({
+          const { error: insertError } = await client.from('chats').insert({
             id,
             user_id: user.id,
-            messages: JSON.stringify(
-              appendResponseMessages({
-                messages,
-                responseMessages: response.messages,
-              })
-            ),
             name: generatedName.text,
             created_at: new Date().toISOString(),
           })
+          if (insertError) {
+            throw insertError
+          }
+          await recordAiUsage({
+            userId: user.id,
+            chatId: id,
+            kind: 'chat_name',
+            model: namingModel,
+            usage: generatedName.usage,
+          })
+        }
+
+        // Only messages not stored yet are written, an edited question or a
+        // regenerated answer gets a new id and becomes a sibling branch
+        const { data: stored, error: storedError } = await client
+          .from('chat_messages')
+          .select('id')
+          .eq('chat_id', id)
+        if (storedError) {
+          throw storedError
+        }
+        const storedIds = new Set(stored.map((message) => message.id))
+        const reply = thread[thread.length - 1]
+
+        const rows = thread.flatMap((message, index) => {
+          if (storedIds.has(message.id) && message !== reply) {
+            return []
+          }
+          const row = toChatMessageInsert(
+            id,
+            user.id,
+            message,
+            index ? thread[index - 1].id : null
+          )
+          return message === reply && message.role === 'assistant'
+            ? [
+                {
+                  ...row,
+                  model: chatModel.id,
+                  prompt_tokens: usage.promptTokens,
+                  completion_tokens: usage.completionTokens,
+                  total_tokens: usage.totalTokens,
+                  annotations: [context.annotation],
+                },
+              ]
+            : [row]
+        })
+
+        const { error: messagesError } = await client
+          .from('chat_messages')
+          .upsert(rows, { onConflict: 'chat_id,id' })
+        if (messagesError) {
+          throw messagesError
+        }
+
+        if (context.newSummary) {
+          const { error: summaryError } = await client
+            .from('chat_messages')
+            .update({ context_summary: context.newSummary.summary })
+            .eq('chat_id', id)
+            .eq('id', context.newSummary.messageId)
+          if (summaryError) {
+            throw summaryError
+          }
         }
+
+        await client
+          .from('chats')
+          .update({ leaf_message_id: reply.id })
+          .eq('id', id)
         console.log('Database update completed successfully')
         revalidatePath('/app')
       } catch (error) {
@@ -329,9 +576,19 @@ Your response should be the title text only, nothing else.
   })
 
   console.log('Returning stream response')
-  return result.toDataStreamResponse({
+  return createDataStreamResponse({
     headers: {
       'x-should-update-chats': shouldUpdateChats.toString(),
+      ...(budget?.state === 'warning' && {
+        'x-usage-warning': `You have used ${formatUsd(
+          budget.spentUsd
+        )} of your monthly AI budget of ${formatUsd(budget.limitUsd ?? 0)}.`,
+      }),
+    },
+    execute: (dataStream) => {
+      // Lands on the reply, the chat shows when its context was compacted
+      dataStream.writeMessageAnnotation(context.annotation)
+      result.mergeIntoDataStream(dataStream)
     },
   })
 }
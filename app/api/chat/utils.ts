@@ -1,5 +1,4 @@
-import { Client as PGClient } from 'pg'
-import { DIOCESE_CONFIG } from '@/config/diocese'
+import { ACCESS_SCOPE_CONFIG, type AccessScope } from '@/config/diocese'
 import {
   QUESTION_REFERENCES,
   NULL_HANDLING_PATTERNS,
@@ -7,51 +6,34 @@ import {
   SCORE_CALCULATION,
   ROLE_TYPES
 } from '@/config/prompt-references'
-
-export async function getPublicTablesWithColumns(connectionString: string) {
-  const client = new PGClient(connectionString)
-  await client.connect()
-
+import type { QueryAuditContext } from '@/lib/query-audit'
+import { withReadOnlyTransaction } from '@/lib/read-only-query'
+import { getSchemaSnapshot } from '@/lib/schema-cache'
+import {
+  QUERY_AUDIT_FAILED_MESSAGE,
+  recordQueryAudit,
+} from '@/lib/scoped-query'
+import { stripExplain } from '@/lib/sql-policy'
+import { scopeSql, type ScopedSql } from '@/lib/sql-scope'
+
+// Catalog queries run under the same read-only transaction, timeouts and
+// connection pool as the user's own queries. Schema lookups (tables,
+// columns, foreign keys, indexes) go through the shared schema cache.
+
+export async function getPublicTablesWithColumns(
+  connectionString: string,
+  scope: AccessScope
+) {
   try {
-    // Get tables
-    const tablesRes = await client.query(`
-      SELECT table_name, table_schema
-      FROM information_schema.tables
-      WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
-      ORDER BY table_schema, table_name
-    `)
-
-    // Get columns for each table
-    const tablesWithColumns = await Promise.all(
-      tablesRes.rows.map(async (table) => {
-        const columnsRes = await client.query(
-          `
-        SELECT column_name, data_type, is_nullable
-        FROM information_schema.columns
-        WHERE table_schema = $1 AND table_name = $2
-        ORDER BY ordinal_position
-      `,
-          [table.table_schema, table.table_name]
-        )
-
-        return {
-          tableName: table.table_name,
-          schemaName: table.table_schema,
-          columns: columnsRes.rows.map((col) => ({
-            name: col.column_name,
-            type: col.data_type,
-            isNullable: col.is_nullable === 'YES',
-          })),
-        }
-      })
+    const { tables: tablesWithColumns } = await getSchemaSnapshot(
+      connectionString,
+      scope.role
     )
 
-    await client.end()
-
     // Add diocese-specific information to relevant tables
     return tablesWithColumns.map(table => {
       // Check if this table needs diocese filtering
-      const needsDioceseFilter = DIOCESE_CONFIG.protectedTables.includes(table.tableName)
+      const needsDioceseFilter = ACCESS_SCOPE_CONFIG.protectedTables.includes(table.tableName)
 
       // Check if this table has a direct diocese_id column
       const hasDioceseColumn = table.columns.some(col => col.name === 'diocese_id')
@@ -73,240 +55,229 @@ export async function getPublicTablesWithColumns(connectionString: string) {
       return {
         ...table,
         description: needsDioceseFilter ? {
-          requiresDioceseFilter: true,
+          // runSql rewrites these tables to the user's scope, the query
+          // does not need its own diocese / testing center filter
+          accessScopeAppliedAutomatically: true,
           joinPath,
           hasDirectDioceseColumn: hasDioceseColumn,
-          example: `-- Example query for ${table.tableName}:
-SELECT *
-FROM ${table.tableName} t
-${joinPath === 'Direct access - contains diocese_id' 
-  ? `WHERE t.diocese_id = ${DIOCESE_CONFIG.id}`
-  : `JOIN testing_section_students tss ON tss.${table.tableName}_id = t.id
-JOIN testing_sections ts ON ts.id = tss.testing_section_id
-JOIN testing_centers tc ON tc.id = ts.testing_center_id
-WHERE tc.diocese_id = ${DIOCESE_CONFIG.id}`}`
         } : undefined
       }
     })
   } catch (error) {
     console.error('Error fetching tables with columns:', error)
-    await client.end()
     return `Error fetching tables with columns: ${error}`
   }
 }
 
 export async function getExplainForQuery(
   query: string,
-  connectionString: string
+  connectionString: string,
+  scope: AccessScope,
+  audit: QueryAuditContext
 ) {
-  const explainAnalyzeRegex = /explain\s+analyze\s+(.*)/i
-  const explainRegex = /explain\s+(.*)/i
-
-  let queryToRun = query
-
-  const match =
-    queryToRun.match(explainAnalyzeRegex) || queryToRun.match(explainRegex)
-
-  if (match) {
-    // Remove EXPLAIN or EXPLAIN ANALYZE
-    queryToRun = match[1].trim()
+  const startedAt = performance.now()
+
+  // The plan is requested as JSON below, so an EXPLAIN the agent wrote
+  // itself is dropped rather than wrapped in a second one
+  const queryToRun = stripExplain(query)
+
+  // Plan the query as it will actually run, with access scoping applied
+  const scoped: ScopedSql =
+    stripExplain(queryToRun) === queryToRun
+      ? await scopeSql(queryToRun, scope, connectionString)
+      : { allowed: false, reason: 'EXPLAIN can only be given once' }
+  if (!scoped.allowed) {
+    await recordQueryAudit(audit, scope, {
+      sql: query,
+      outcome: 'rejected',
+      durationMs: performance.now() - startedAt,
+      rejectionReason: scoped.reason,
+    })
+    return scoped.reason
   }
 
-  const client = new PGClient(connectionString)
-
   try {
-    await client.connect()
-
-    const explain = await client.query(`EXPLAIN (FORMAT JSON) ${queryToRun}`)
-    await client.end()
+    const explain = await withReadOnlyTransaction(
+      connectionString,
+      scope.role,
+      (client) => client.query(`EXPLAIN (FORMAT JSON) ${scoped.sql}`)
+    )
 
-    return explain.rows[0]['QUERY PLAN']
+    // Only the plan is read, no rows of the query
+    const audited = await recordQueryAudit(audit, scope, {
+      sql: query,
+      outcome: 'ok',
+      durationMs: performance.now() - startedAt,
+    })
+    return audited ? explain.rows[0]['QUERY PLAN'] : QUERY_AUDIT_FAILED_MESSAGE
   } catch (error) {
     console.error('Error running EXPLAIN:', error)
-    await client.end()
+    await recordQueryAudit(audit, scope, {
+      sql: query,
+      outcome: 'error',
+      durationMs: performance.now() - startedAt,
+      error: String(error),
+    })
     return `Error running EXPLAIN: ${error}`
   }
 }
 
-export async function getIndexStatsUsage(connectionString: string) {
-  const client = new PGClient(connectionString)
-  await client.connect()
-
+export async function getIndexStatsUsage(
+  connectionString: string,
+  scope: AccessScope
+) {
   try {
-    const result = await client.query(`
-      SELECT
-        schemaname,
-        relname,
-        indexrelname,
-        idx_scan,
-        idx_tup_read,
-        idx_tup_fetch
-      FROM
-        pg_stat_user_indexes
-      ORDER BY
-        schemaname,
-        relname,
-        indexrelname;
-    `)
-
-    await client.end()
+    const result = await withReadOnlyTransaction(
+      connectionString,
+      scope.role,
+      (client) => client.query(`
+          SELECT
+            schemaname,
+            relname,
+            indexrelname,
+            idx_scan,
+            idx_tup_read,
+            idx_tup_fetch
+          FROM
+            pg_stat_user_indexes
+          ORDER BY
+            schemaname,
+            relname,
+            indexrelname;
+        `)
+    )
     return result.rows
   } catch (error) {
     console.error('Error fetching index stats usage:', error)
-    await client.end()
     return `Error fetching index stats usage: ${error}`
   }
 }
 
-export async function getIndexes(connectionString: string) {
-  const client = new PGClient(connectionString)
-  await client.connect()
-
+export async function getIndexes(
+  connectionString: string,
+  scope: AccessScope
+) {
   try {
-    const result = await client.query(`
-      SELECT
-        indexname,
-        tablename,
-        schemaname,
-        indexdef
-      FROM
-        pg_indexes
-      WHERE
-        schemaname NOT IN ('pg_catalog', 'information_schema')
-      ORDER BY
-        schemaname,
-        tablename,
-        indexname;
-    `)
-
-    await client.end()
-    return result.rows
+    const { indexes } = await getSchemaSnapshot(
+      connectionString,
+      scope.role
+    )
+    return indexes
   } catch (error) {
     console.error('Error fetching indexes:', error)
-    await client.end()
     return `Error fetching indexes: ${error}`
   }
 }
 
-export async function getTableStats(connectionString: string) {
-  const client = new PGClient(connectionString)
-  await client.connect()
-
+export async function getTableStats(
+  connectionString: string,
+  scope: AccessScope
+) {
   try {
-    const result = await client.query(`
-      SELECT
-        schemaname,
-        relname as table_name,
-        n_live_tup as row_count,
-        pg_total_relation_size(relid) as total_size,
-        pg_relation_size(relid) as table_size,
-        pg_indexes_size(relid) as indexes_size,
-        last_vacuum,
-        last_analyze
-      FROM
-        pg_stat_user_tables
-      ORDER BY
-        total_size DESC;
-    `)
-    await client.end()
+    const result = await withReadOnlyTransaction(
+      connectionString,
+      scope.role,
+      (client) => client.query(`
+          SELECT
+            schemaname,
+            relname as table_name,
+            n_live_tup as row_count,
+            pg_total_relation_size(relid) as total_size,
+            pg_relation_size(relid) as table_size,
+            pg_indexes_size(relid) as indexes_size,
+            last_vacuum,
+            last_analyze
+          FROM
+            pg_stat_user_tables
+          ORDER BY
+            total_size DESC;
+        `)
+    )
     return result.rows
   } catch (error) {
     console.error('Error fetching table stats:', error)
-    await client.end()
     return `Error fetching table stats: ${error}`
   }
 }
 
-export async function getColumnStats(connectionString: string) {
-  const client = new PGClient(connectionString)
-  await client.connect()
-
+export async function getColumnStats(
+  connectionString: string,
+  scope: AccessScope
+) {
   try {
-    const result = await client.query(`
-      SELECT
-        schemaname,
-        tablename,
-        attname as column_name,
-        n_distinct::float,
-        null_frac,
-        avg_width,
-        most_common_vals,
-        most_common_freqs
-      FROM
-        pg_stats
-      WHERE
-        schemaname NOT IN ('pg_catalog', 'information_schema')
-      ORDER BY
-        schemaname,
-        tablename,
-        attname;
-    `)
-    await client.end()
+    const result = await withReadOnlyTransaction(
+      connectionString,
+      scope.role,
+      (client) => client.query(`
+          SELECT
+            schemaname,
+            tablename,
+            attname as column_name,
+            n_distinct::float,
+            null_frac,
+            avg_width,
+            most_common_vals,
+            most_common_freqs
+          FROM
+            pg_stats
+          WHERE
+            schemaname NOT IN ('pg_catalog', 'information_schema')
+          ORDER BY
+            schemaname,
+            tablename,
+            attname;
+        `)
+    )
     return result.rows
   } catch (error) {
     console.error('Error fetching column stats:', error)
-    await client.end()
     return `Error fetching column stats: ${error}`
   }
 }
 
-export async function getDetailedIndexStats(connectionString: string) {
-  const client = new PGClient(connectionString)
-  await client.connect()
-
+export async function getDetailedIndexStats(
+  connectionString: string,
+  scope: AccessScope
+) {
   try {
-    const result = await client.query(`
-      SELECT
-        s.schemaname,
-        s.relname as table_name,
-        s.indexrelname as index_name,
-        s.idx_scan as index_scans,
-        s.idx_tup_read as tuples_read,
-        s.idx_tup_fetch as tuples_fetched,
-        pg_relation_size(s.indexrelid) as index_size
-      FROM
-        pg_stat_user_indexes s
-        JOIN pg_index i ON s.indexrelid = i.indexrelid
-      ORDER BY
-        s.idx_scan DESC;
-    `)
-    await client.end()
+    const result = await withReadOnlyTransaction(
+      connectionString,
+      scope.role,
+      (client) => client.query(`
+          SELECT
+            s.schemaname,
+            s.relname as table_name,
+            s.indexrelname as index_name,
+            s.idx_scan as index_scans,
+            s.idx_tup_read as tuples_read,
+            s.idx_tup_fetch as tuples_fetched,
+            pg_relation_size(s.indexrelid) as index_size
+          FROM
+            pg_stat_user_indexes s
+            JOIN pg_index i ON s.indexrelid = i.indexrelid
+          ORDER BY
+            s.idx_scan DESC;
+        `)
+    )
     return result.rows
   } catch (error) {
     console.error('Error fetching detailed index stats:', error)
-    await client.end()
     return `Error fetching detailed index stats: ${error}`
   }
 }
 
-export async function getForeignKeyConstraints(connectionString: string) {
-  const client = new PGClient(connectionString)
-  await client.connect()
-
+export async function getForeignKeyConstraints(
+  connectionString: string,
+  scope: AccessScope
+) {
   try {
-    const result = await client.query(`
-      SELECT
-        tc.table_schema,
-        tc.table_name,
-        kcu.column_name,
-        ccu.table_schema AS foreign_table_schema,
-        ccu.table_name AS foreign_table_name,
-        ccu.column_name AS foreign_column_name
-      FROM
-        information_schema.table_constraints AS tc
-        JOIN information_schema.key_column_usage AS kcu
-          ON tc.constraint_name = kcu.constraint_name
-          AND tc.table_schema = kcu.table_schema
-        JOIN information_schema.constraint_column_usage AS ccu
-          ON ccu.constraint_name = tc.constraint_name
-          AND ccu.table_schema = tc.table_schema
-      WHERE tc.constraint_type = 'FOREIGN KEY';
-    `)
-    await client.end()
-    return result.rows
+    const { foreignKeys } = await getSchemaSnapshot(
+      connectionString,
+      scope.role
+    )
+    return foreignKeys
   } catch (error) {
     console.error('Error fetching foreign key constraints:', error)
-    await client.end()
     return `Error fetching foreign key constraints: ${error}`
   }
 }
@@ -398,19 +369,43 @@ export const getReferenceSection = (types: string[]) => {
   return references.join('\n\n');
 };
 
+export const getAccessScopeSection = (scope: AccessScope) => {
+  if (scope.role === 'super_admin') {
+    return '// Super admin has no filter restrictions (except dangerous operations)';
+  }
+
+  const lines = [
+    `- Rows are automatically limited to diocese_id IN (${scope.dioceseIds.join(', ')})`
+  ];
+  if (scope.role === 'school_manager') {
+    lines.push(`- Rows are automatically limited to testing_center_id IN (${scope.testingCenterIds.join(', ')})`);
+  }
+  lines.push('- Do NOT add diocese or testing center filters yourself, they are injected when the query runs');
+
+  return lines.join('\n      ');
+};
+
 export interface QueryValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
 }
 
-export async function validateQuery(query: string, connectionString: string): Promise<QueryValidationResult> {
+export async function validateQuery(query: string, connectionString: string, scope: AccessScope): Promise<QueryValidationResult> {
   const result: QueryValidationResult = {
     isValid: true,
     errors: [],
     warnings: []
   };
 
+  // 0. Statement must pass the same policy and scoping runSql enforces
+  const scoped = await scopeSql(query, scope, connectionString);
+  if (!scoped.allowed) {
+    result.errors.push(scoped.reason);
+    result.isValid = false;
+    return result;
+  }
+
   // 1. Check for NULL handling
   const nullHandlingChecks = [
     { 
@@ -467,20 +462,13 @@ export async function validateQuery(query: string, connectionString: string): Pr
     }
   }
 
-  // 4. Check for diocese and testing center filters
-  if (DIOCESE_CONFIG.role !== 'super_admin') {
-    if (!query.includes(`diocese_id = ${DIOCESE_CONFIG.id}`)) {
-      result.errors.push(`Missing diocese_id filter: diocese_id = ${DIOCESE_CONFIG.id}`);
-      result.isValid = false;
-    }
-    if (DIOCESE_CONFIG.role === 'school_manager' && !query.includes(`testing_center_id = ${DIOCESE_CONFIG.testingCenterId}`)) {
-      result.errors.push(`Missing testing_center_id filter: testing_center_id = ${DIOCESE_CONFIG.testingCenterId}`);
-      result.isValid = false;
-    }
+  // 4. Diocese and testing center filters are injected automatically
+  if (scoped.scopedTables.length > 0) {
+    result.warnings.push(`Access scope filters will be applied automatically to: ${scoped.scopedTables.join(', ')}`);
   }
 
   // 5. Check for column existence
-  const tables = await getPublicTablesWithColumns(connectionString);
+  const tables = await getPublicTablesWithColumns(connectionString, scope);
   if (typeof tables === 'string') {
     result.errors.push(tables);
     result.isValid = false;
@@ -0,0 +1,22 @@
+import { runDueAlerts } from '@/lib/alert-runner'
+
+// A batch of alert queries can take a while to run
+export const maxDuration = 300
+
+/**
+ * Evaluates the due alert rules. Call it every few minutes from a cron job
+ * with the CRON_SECRET as a bearer token, see vercel.json.
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const result = await runDueAlerts()
+  if (result.error) {
+    return Response.json({ error: result.error }, { status: 500 })
+  }
+
+  return Response.json(result.data)
+}
@@ -0,0 +1,22 @@
+import { runDueReports } from '@/lib/report-runner'
+
+// A batch of reports can take a while to run and send
+export const maxDuration = 300
+
+/**
+ * Runs the due report schedules. Call it every few minutes from a cron job
+ * with the CRON_SECRET as a bearer token, see vercel.json.
+ */
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const result = await runDueReports()
+  if (result.error) {
+    return Response.json({ error: result.error }, { status: 500 })
+  }
+
+  return Response.json(result.data)
+}
@@ -0,0 +1,176 @@
+import { PassThrough, Readable } from 'node:stream'
+import { after } from 'next/server'
+import { z } from 'zod'
+
+import { QUERY_LIMITS } from '@/config/query-limits'
+import { loadAccessScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  resolveConnectionString,
+} from '@/lib/connection-profiles'
+import type { QueryAuditContext } from '@/lib/query-audit'
+import { readInBatches, withReadOnlyTransaction } from '@/lib/read-only-query'
+import {
+  createExportWriter,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportWriter,
+} from '@/lib/result-export'
+import {
+  QUERY_AUDIT_FAILED_MESSAGE,
+  recordQueryAudit,
+} from '@/lib/scoped-query'
+import { scopeSql } from '@/lib/sql-scope'
+import { createClient } from '@/utils/supabase/server'
+
+// Large exports can take a while to stream
+export const maxDuration = 300
+
+const EXPORT_BATCH_SIZE = 1_000
+
+const exportSchema = z.object({
+  sql: z.string().min(1),
+  connectionProfileId: z.string().uuid(),
+  format: z.enum(Object.keys(EXPORT_FORMATS) as [ExportFormat]),
+})
+
+export async function POST(req: Request) {
+  const client = await createClient()
+  const { data } = await client.auth.getUser()
+  const user = data.user
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  // Posted as a form so the browser streams the download straight to disk
+  const form = await req.formData().catch(() => null)
+  const parsed = exportSchema.safeParse(form && Object.fromEntries(form))
+  if (!parsed.success) {
+    return new Response('Invalid export request', { status: 400 })
+  }
+  const { sql, connectionProfileId, format } = parsed.data
+
+  const scope = await loadAccessScope(client, user.id)
+  if (!scope) {
+    return new Response(NO_ACCESS_SCOPE_MESSAGE, { status: 403 })
+  }
+
+  const connectionString = await resolveConnectionString(
+    client,
+    connectionProfileId
+  )
+  if (!connectionString) {
+    return new Response(CONNECTION_PROFILE_NOT_FOUND_MESSAGE, { status: 404 })
+  }
+
+  const audit: QueryAuditContext = {
+    userId: user.id,
+    source: 'result_export',
+    connectionProfileId,
+  }
+  const startedAt = performance.now()
+
+  // Same policy check and scope rewrite as runSql
+  const scoped = await scopeSql(sql, scope, connectionString)
+  if (!scoped.allowed) {
+    await recordQueryAudit(audit, scope, {
+      sql,
+      outcome: 'rejected',
+      durationMs: performance.now() - startedAt,
+      rejectionReason: scoped.reason,
+    })
+    return new Response(scoped.reason, { status: 400 })
+  }
+
+  const exportedAt = new Date()
+  const output = new PassThrough()
+  const maxRows = QUERY_LIMITS[scope.role].maxExportRows
+
+  // The transaction stays open while the file streams, rows are read from
+  // the cursor only as fast as the download consumes them. Exports get a
+  // pool of their own so slow downloads cannot take the connections
+  // interactive queries need, and a download that stops reading is ended
+  // by the role's idle in transaction timeout. The export is audited with
+  // the rows that were written before the file is completed, when that
+  // fails the download is aborted instead.
+  let rowCount = 0
+  let started: (value: null) => void
+  const firstBatch = new Promise<null>((resolve) => {
+    started = resolve
+  })
+  const exported = withReadOnlyTransaction(
+    connectionString,
+    scope.role,
+    async (db) => {
+      let writer: ExportWriter | null = null
+      let truncatedAt: number | null = null
+      for await (const { fields, rows, truncated } of readInBatches(
+        db,
+        scoped.sql,
+        EXPORT_BATCH_SIZE,
+        maxRows
+      )) {
+        // The query ran, the download can start
+        started(null)
+        if (output.destroyed) {
+          throw new Error('Export download was cancelled')
+        }
+        writer ??= await createExportWriter(format, fields, output, {
+          sql,
+          exportedAt,
+        })
+        await writer.writeRows(rows)
+        rowCount += rows.length
+        if (truncated) truncatedAt = maxRows
+      }
+      const audited = await recordQueryAudit(audit, scope, {
+        sql,
+        outcome: 'ok',
+        durationMs: performance.now() - startedAt,
+        rowCount,
+      })
+      if (!audited) {
+        throw new Error(QUERY_AUDIT_FAILED_MESSAGE)
+      }
+      await writer?.close(truncatedAt)
+    },
+    'export'
+  ).then(
+    () => null,
+    async (error) => {
+      console.error('Error exporting query:', error)
+      const message = error instanceof Error ? error.message : String(error)
+      // Aborts the download, so the browser reports it as failed rather
+      // than keeping a file that silently stops
+      output.destroy(new Error(message))
+      // Nothing left to withhold, the download has already failed
+      await recordQueryAudit(audit, scope, {
+        sql,
+        outcome: 'error',
+        durationMs: performance.now() - startedAt,
+        rowCount,
+        error: message,
+      })
+      return message
+    }
+  )
+
+  after(exported)
+
+  // Errors and timeouts before the first rows get a status instead of an
+  // empty file
+  const failure = await Promise.race([firstBatch, exported])
+  if (failure) {
+    return new Response(`Error exporting query: ${failure}`, { status: 500 })
+  }
+
+  const { extension, contentType } = EXPORT_FORMATS[format]
+  const filename = `query-${exportedAt.toISOString().replace(/[:.]/g, '-')}.${extension}`
+
+  return new Response(Readable.toWeb(output) as ReadableStream, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    },
+  })
+}
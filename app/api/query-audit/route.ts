@@ -0,0 +1,124 @@
+import { z } from 'zod'
+
+import { QUERY_AUDIT_CONFIG } from '@/config/query-audit'
+import { loadAccessScope } from '@/lib/access-scope'
+import {
+  queryAuditFiltersSchema,
+  selectQueryAudit,
+  type QueryAuditFilters,
+} from '@/lib/query-audit'
+import { csvCell } from '@/lib/result-export'
+import { createAdminClient, listAllUsers } from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+export const maxDuration = 300
+
+const exportSchema = z.object({ filters: queryAuditFiltersSchema })
+
+const COLUMNS = [
+  'id',
+  'created_at',
+  'user_id',
+  'email',
+  'role',
+  'diocese_ids',
+  'testing_center_ids',
+  'source',
+  'tool',
+  'connection_profile_id',
+  'chat_id',
+  'message_id',
+  'outcome',
+  'row_count',
+  'duration_ms',
+  'rejection_reason',
+  'error',
+  'sql_hash',
+  'sql_text',
+] as const
+
+// Pages through the log by id, up to maxExportRows entries
+async function* auditRows(
+  admin: ReturnType<typeof createAdminClient>,
+  filters: QueryAuditFilters
+) {
+  let beforeId: number | null = null
+  let exported = 0
+
+  while (exported < QUERY_AUDIT_CONFIG.maxExportRows) {
+    const { data, error } = await selectQueryAudit(
+      admin,
+      filters,
+      beforeId
+    ).limit(
+      Math.min(
+        QUERY_AUDIT_CONFIG.exportBatchSize,
+        QUERY_AUDIT_CONFIG.maxExportRows - exported
+      )
+    )
+    if (error) {
+      throw error
+    }
+
+    yield data
+    exported += data.length
+    if (data.length < QUERY_AUDIT_CONFIG.exportBatchSize) {
+      return
+    }
+    beforeId = data[data.length - 1].id
+  }
+}
+
+export async function POST(req: Request) {
+  const client = await createClient()
+  const { data } = await client.auth.getUser()
+  const user = data.user
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 })
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  if (scope?.role !== 'super_admin') {
+    return new Response('Forbidden', { status: 403 })
+  }
+
+  const parsed = exportSchema.safeParse(await req.json().catch(() => null))
+  if (!parsed.success) {
+    return new Response('Invalid export request', { status: 400 })
+  }
+
+  const admin = createAdminClient()
+  const { users, error: usersError } = await listAllUsers(admin)
+  if (usersError) {
+    console.error('Error listing users:', usersError)
+  }
+  const emails = new Map(users.map((member) => [member.id, member.email ?? '']))
+
+  const lines = [COLUMNS.join(',')]
+  try {
+    for await (const rows of auditRows(admin, parsed.data.filters)) {
+      for (const row of rows) {
+        const values: Record<(typeof COLUMNS)[number], unknown> = {
+          ...row,
+          email: emails.get(row.user_id) ?? '',
+          diocese_ids: row.diocese_ids.join(' '),
+          testing_center_ids: row.testing_center_ids.join(' '),
+        }
+        lines.push(COLUMNS.map((column) => csvCell(values[column])).join(','))
+      }
+    }
+  } catch (error) {
+    console.error('Error exporting query audit:', error)
+    return new Response('Unexpected error exporting the audit log', {
+      status: 500,
+    })
+  }
+
+  const exportedAt = new Date().toISOString().replace(/[:.]/g, '-')
+  return new Response(`${lines.join('\r\n')}\r\n`, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="query-audit-${exportedAt}.csv"`,
+    },
+  })
+}
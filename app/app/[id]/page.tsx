@@ -2,7 +2,8 @@ import { createClient } from '@/utils/supabase/server'
 import { redirect } from 'next/navigation'
 
 import ChatInterface from '@/components/chat-interface'
-import { Message } from 'ai'
+import { getThread, toChatTree } from '@/lib/chat-branches'
+import { CHAT_MESSAGE_COLUMNS } from '@/lib/chat-messages'
 
 export default async function ProtectedPage({
   params,
@@ -31,13 +32,22 @@ export default async function ProtectedPage({
     return redirect('/app')
   }
 
+  const { data: rows } = await supabase
+    .from('chat_messages')
+    .select(CHAT_MESSAGE_COLUMNS)
+    .eq('chat_id', chat.id)
+    .order('seq')
+
+  const messageTree = toChatTree(rows ?? [], chat.leaf_message_id)
+
   return (
     <ChatInterface
       user={user}
       chat={{
         id: chat.id,
         name: chat.name,
-        messages: JSON.parse(chat.messages as string) as Message[],
+        messages: getThread(messageTree, messageTree.leafId),
+        messageTree,
       }}
     />
   )
@@ -0,0 +1,28 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getQueryAudit } from '@/actions/admin'
+import { QueryAuditLog } from '@/components/query-audit-log'
+import { loadAccessScope } from '@/lib/access-scope'
+import { EMPTY_QUERY_AUDIT_FILTERS } from '@/lib/query-audit'
+
+export default async function QueryAuditPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const scope = await loadAccessScope(supabase, user.id)
+  if (scope?.role !== 'super_admin') {
+    return redirect('/app')
+  }
+
+  const { data, error } = await getQueryAudit(EMPTY_QUERY_AUDIT_FILTERS)
+
+  return <QueryAuditLog initial={data ?? null} error={error} />
+}
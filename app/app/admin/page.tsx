@@ -0,0 +1,29 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getAdminUsers } from '@/actions/admin'
+import { AdminConsole } from '@/components/admin-console'
+import { loadAccessScope } from '@/lib/access-scope'
+
+export default async function AdminPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const scope = await loadAccessScope(supabase, user.id)
+  if (scope?.role !== 'super_admin') {
+    return redirect('/app')
+  }
+
+  const { data, error } = await getAdminUsers()
+
+  return (
+    <AdminConsole users={data ?? []} currentUserId={user.id} error={error} />
+  )
+}
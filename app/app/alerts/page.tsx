@@ -0,0 +1,34 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getAlertRules } from '@/actions/alert-rules'
+import { getConnectionProfiles } from '@/actions/connection-profiles'
+import { getSavedQueries } from '@/actions/saved-queries'
+import { AlertRules } from '@/components/alert-rules'
+
+export default async function AlertsPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const [rules, queries, profiles] = await Promise.all([
+    getAlertRules(),
+    getSavedQueries(),
+    getConnectionProfiles(),
+  ])
+
+  return (
+    <AlertRules
+      rules={rules.data ?? []}
+      queries={queries.data ?? []}
+      profiles={profiles.data?.profiles ?? []}
+      error={rules.error}
+    />
+  )
+}
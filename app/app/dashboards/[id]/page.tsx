@@ -0,0 +1,36 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getDashboard } from '@/actions/dashboards'
+import { DashboardView } from '@/components/dashboard-view'
+
+export default async function DashboardPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const { data } = await getDashboard(id)
+
+  if (!data) {
+    return redirect('/app/dashboards')
+  }
+
+  return (
+    <DashboardView
+      key={data.dashboard.updatedAt}
+      dashboard={data.dashboard}
+      queries={data.queries}
+    />
+  )
+}
@@ -0,0 +1,21 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getDashboards } from '@/actions/dashboards'
+import { DashboardList } from '@/components/dashboard-list'
+
+export default async function DashboardsPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const { data, error } = await getDashboards()
+
+  return <DashboardList dashboards={data ?? []} error={error} />
+}
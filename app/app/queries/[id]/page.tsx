@@ -0,0 +1,30 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getSavedQuery } from '@/actions/saved-queries'
+import { SavedQueryRunner } from '@/components/saved-query-runner'
+
+export default async function SavedQueryPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const { data: query } = await getSavedQuery(id)
+
+  if (!query) {
+    return redirect('/app/queries')
+  }
+
+  return <SavedQueryRunner key={query.id} query={query} />
+}
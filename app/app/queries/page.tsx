@@ -0,0 +1,21 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getSavedQueries } from '@/actions/saved-queries'
+import { SavedQueryLibrary } from '@/components/saved-query-library'
+
+export default async function SavedQueriesPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const { data, error } = await getSavedQueries()
+
+  return <SavedQueryLibrary queries={data ?? []} error={error} />
+}
@@ -0,0 +1,38 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getConnectionProfiles } from '@/actions/connection-profiles'
+import { getDashboards } from '@/actions/dashboards'
+import { getReportSchedules } from '@/actions/report-schedules'
+import { getSavedQueries } from '@/actions/saved-queries'
+import { ReportSchedules } from '@/components/report-schedules'
+
+export default async function ReportsPage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const [schedules, queries, dashboards, profiles] = await Promise.all([
+    getReportSchedules(),
+    getSavedQueries(),
+    getDashboards(),
+    getConnectionProfiles(),
+  ])
+
+  return (
+    <ReportSchedules
+      schedules={schedules.data ?? []}
+      queries={queries.data ?? []}
+      // Reports can only use the user's own dashboards
+      dashboards={(dashboards.data ?? []).filter((d) => d.isOwner)}
+      profiles={profiles.data?.profiles ?? []}
+      error={schedules.error}
+    />
+  )
+}
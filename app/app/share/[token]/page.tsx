@@ -0,0 +1,26 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getSharedContent } from '@/actions/share-links'
+import { SharedChat } from '@/components/shared-chat'
+
+export default async function SharedPage({
+  params,
+}: {
+  params: Promise<{ token: string }>
+}) {
+  const { token } = await params
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const { data, error } = await getSharedContent(token)
+
+  return <SharedChat content={data ?? null} error={error} />
+}
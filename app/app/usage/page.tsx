@@ -0,0 +1,21 @@
+import { createClient } from '@/utils/supabase/server'
+import { redirect } from 'next/navigation'
+
+import { getUsageOverview } from '@/actions/usage'
+import { UsageOverview } from '@/components/usage-overview'
+
+export default async function UsagePage() {
+  const supabase = await createClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return redirect('/login')
+  }
+
+  const { data, error } = await getUsageOverview()
+
+  return <UsageOverview overview={data ?? null} error={error} />
+}
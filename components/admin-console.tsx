@@ -0,0 +1,353 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Pencil } from 'lucide-react'
+
+import {
+  type AdminUser,
+  type ScopeOptions,
+  getScopeOptions,
+  removeUserScope,
+  updateUserScope,
+} from '@/actions/admin'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+
+type EditableRole = 'diocese_manager' | 'school_manager'
+
+const roleLabels = {
+  super_admin: 'Super admin',
+  diocese_manager: 'Diocese manager',
+  school_manager: 'School manager',
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : 'Never'
+
+function ScopeEditor({
+  user,
+  options,
+  onClose,
+}: {
+  user: AdminUser
+  options: ScopeOptions | null
+  onClose: () => void
+}) {
+  const router = useRouter()
+  const [role, setRole] = useState<EditableRole>(
+    user.scope?.role === 'school_manager' ? 'school_manager' : 'diocese_manager'
+  )
+  const [dioceseIds, setDioceseIds] = useState<number[]>(
+    user.scope?.dioceseIds ?? []
+  )
+  const [testingCenterIds, setTestingCenterIds] = useState<number[]>(
+    user.scope?.testingCenterIds ?? []
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  const toggle = (ids: number[], id: number) =>
+    ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id]
+
+  const testingCenters = useMemo(
+    () =>
+      (options?.testingCenters ?? []).filter((tc) =>
+        dioceseIds.includes(tc.dioceseId)
+      ),
+    [options, dioceseIds]
+  )
+
+  const handleResult = (result: { error?: string; success?: string }) => {
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    router.refresh()
+    onClose()
+  }
+
+  const save = async () => {
+    setIsSaving(true)
+    const result = await updateUserScope({
+      userId: user.id,
+      role,
+      dioceseIds,
+      // Drop schools that no longer belong to a selected diocese
+      testingCenterIds: testingCenterIds.filter((id) =>
+        testingCenters.some((tc) => tc.id === id)
+      ),
+    })
+    setIsSaving(false)
+    handleResult(result)
+  }
+
+  const remove = async () => {
+    setIsSaving(true)
+    const result = await removeUserScope(user.id)
+    setIsSaving(false)
+    handleResult(result)
+  }
+
+  return (
+    <SheetContent className="flex flex-col gap-4 overflow-y-auto">
+      <SheetHeader>
+        <SheetTitle>Edit access</SheetTitle>
+        <SheetDescription>{user.email}</SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-2">
+        <Label>Role</Label>
+        <Select
+          value={role}
+          onValueChange={(value) => setRole(value as EditableRole)}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="diocese_manager">
+              {roleLabels.diocese_manager}
+            </SelectItem>
+            <SelectItem value="school_manager">
+              {roleLabels.school_manager}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!options ? (
+        <p className="text-sm text-muted-foreground">
+          Connect a database to pick dioceses and testing centers.
+        </p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label>Dioceses</Label>
+            <div className="max-h-48 overflow-y-auto space-y-1 rounded-md border p-2">
+              {options.dioceses.map((diocese) => (
+                <label
+                  key={diocese.id}
+                  className="flex items-center gap-2 text-sm"
+                >
+                  <Checkbox
+                    checked={dioceseIds.includes(diocese.id)}
+                    onCheckedChange={() =>
+                      setDioceseIds((ids) => toggle(ids, diocese.id))
+                    }
+                  />
+                  {diocese.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {role === 'school_manager' && (
+            <div className="space-y-2">
+              <Label>Testing centers</Label>
+              <div className="max-h-64 overflow-y-auto space-y-1 rounded-md border p-2">
+                {testingCenters.length ? (
+                  testingCenters.map((tc) => (
+                    <label
+                      key={tc.id}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Checkbox
+                        checked={testingCenterIds.includes(tc.id)}
+                        onCheckedChange={() =>
+                          setTestingCenterIds((ids) => toggle(ids, tc.id))
+                        }
+                      />
+                      {tc.name}
+                    </label>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Pick a diocese first.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <SheetFooter className="mt-auto gap-2">
+        {user.scope && (
+          <Button variant="destructive" onClick={remove} disabled={isSaving}>
+            Remove access
+          </Button>
+        )}
+        <Button onClick={save} disabled={isSaving || !options}>
+          Save
+        </Button>
+      </SheetFooter>
+    </SheetContent>
+  )
+}
+
+export function AdminConsole({
+  users,
+  currentUserId,
+  error,
+}: {
+  users: AdminUser[]
+  currentUserId: string
+  error?: string
+}) {
+  const { value } = useAppLocalStorage()
+  const [options, setOptions] = useState<ScopeOptions | null>(null)
+  const [search, setSearch] = useState('')
+  const [editing, setEditing] = useState<AdminUser | null>(null)
+
+  useEffect(() => {
+    if (!value.connectionProfileId) return
+
+    getScopeOptions(value.connectionProfileId).then((result) => {
+      if (result.error) {
+        toast({
+          title: 'Error',
+          description: result.error,
+          variant: 'destructive',
+        })
+        return
+      }
+      setOptions(result.data ?? null)
+    })
+  }, [value.connectionProfileId])
+
+  const nameOf = (
+    list: { id: number; name: string }[] | undefined,
+    id: number
+  ) => list?.find((item) => item.id === id)?.name ?? `#${id}`
+
+  const filteredUsers = users.filter((user) =>
+    (user.email ?? '').toLowerCase().includes(search.toLowerCase())
+  )
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="text-lg font-semibold">Users and access</h1>
+      </nav>
+
+      <div className="container mx-auto max-w-6xl px-4 pb-6 space-y-4">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <Input
+          placeholder="Search by email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+
+        <div className="rounded-md border w-full">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Dioceses</TableHead>
+                <TableHead>Testing centers</TableHead>
+                <TableHead>Last login</TableHead>
+                <TableHead className="text-right">Chats</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredUsers.map((user) => (
+                <TableRow key={user.id}>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell>
+                    {user.scope ? (
+                      <Badge variant="secondary">
+                        {roleLabels[user.scope.role]}
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">No access</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {user.scope?.dioceseIds
+                      .map((id) => nameOf(options?.dioceses, id))
+                      .join(', ')}
+                  </TableCell>
+                  <TableCell>
+                    {user.scope?.testingCenterIds
+                      .map((id) => nameOf(options?.testingCenters, id))
+                      .join(', ')}
+                  </TableCell>
+                  <TableCell>{formatDate(user.lastSignInAt)}</TableCell>
+                  <TableCell className="text-right">{user.chatCount}</TableCell>
+                  <TableCell className="text-right">
+                    {/* Super admins are managed in the database directly */}
+                    {user.id !== currentUserId &&
+                      user.scope?.role !== 'super_admin' && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setEditing(user)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Sheet
+        open={!!editing}
+        onOpenChange={(open) => {
+          if (!open) setEditing(null)
+        }}
+      >
+        {editing && (
+          <ScopeEditor
+            key={editing.id}
+            user={editing}
+            options={options}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </Sheet>
+    </div>
+  )
+}
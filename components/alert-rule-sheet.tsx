@@ -0,0 +1,315 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import type { ConnectionProfile } from '@/actions/connection-profiles'
+import { createAlertRule } from '@/actions/alert-rules'
+import { REPORT_CONFIG } from '@/config/reports'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Textarea } from '@/components/ui/textarea'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import {
+  ALERT_CHANNELS,
+  ALERT_OPERATORS,
+  type AlertChannel,
+  type AlertOperator,
+} from '@/lib/alerts'
+import { nextRunAt } from '@/lib/report-schedule'
+import type { SavedQuery } from '@/lib/saved-queries'
+
+const channelLabels = { email: 'Email', webhook: 'Webhook' }
+
+export function AlertRuleSheet({
+  queries,
+  profiles,
+  onClose,
+}: {
+  queries: SavedQuery[]
+  profiles: ConnectionProfile[]
+  onClose: () => void
+}) {
+  const router = useRouter()
+  const { value } = useAppLocalStorage()
+  const [name, setName] = useState('')
+  const [savedQueryId, setSavedQueryId] = useState('')
+  const [connectionProfileId, setConnectionProfileId] = useState(
+    value.connectionProfileId
+  )
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [columnName, setColumnName] = useState('')
+  const [operator, setOperator] = useState<AlertOperator>('lt')
+  const [threshold, setThreshold] = useState('')
+  const [keyColumn, setKeyColumn] = useState('')
+  const [cron, setCron] = useState('0 7 * * *')
+  const [timeZone, setTimeZone] = useState(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone
+  )
+  const [channel, setChannel] = useState<AlertChannel>('email')
+  const [recipients, setRecipients] = useState('')
+  const [webhookUrl, setWebhookUrl] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const query = queries.find((q) => q.id === savedQueryId)
+  const nextRun = nextRunAt(cron, timeZone)
+
+  const save = async () => {
+    setIsSaving(true)
+    const result = await createAlertRule({
+      name,
+      savedQueryId,
+      connectionProfileId,
+      parameterValues: values,
+      columnName,
+      operator,
+      threshold: threshold.trim() === '' ? NaN : Number(threshold),
+      keyColumn: keyColumn || null,
+      cron,
+      timeZone,
+      channel,
+      recipients: recipients
+        .split(/[\s,;]+/)
+        .map((recipient) => recipient.trim())
+        .filter(Boolean),
+      webhookUrl: webhookUrl || null,
+    })
+    setIsSaving(false)
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    router.refresh()
+    onClose()
+  }
+
+  return (
+    <SheetContent className="flex flex-col gap-4 overflow-y-auto sm:max-w-lg">
+      <SheetHeader>
+        <SheetTitle>New alert</SheetTitle>
+        <SheetDescription>
+          Runs a saved query on a schedule with your access and notifies you
+          when a row crosses the threshold.
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="alertName">Name</Label>
+        <Input
+          id="alertName"
+          placeholder="Eucharist belief below 60%"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alertQuery">Saved query</Label>
+        <Select
+          value={savedQueryId}
+          onValueChange={(selected) => {
+            setSavedQueryId(selected)
+            setValues({})
+          }}
+        >
+          <SelectTrigger id="alertQuery">
+            <SelectValue placeholder="Pick a saved query" />
+          </SelectTrigger>
+          <SelectContent>
+            {queries.map((q) => (
+              <SelectItem key={q.id} value={q.id}>
+                {q.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {query?.parameters.map((parameter) => (
+        <div key={parameter.name} className="space-y-2">
+          <Label htmlFor={`alertParameter-${parameter.name}`}>
+            {parameter.label}
+          </Label>
+          <Input
+            id={`alertParameter-${parameter.name}`}
+            type={parameter.type}
+            value={values[parameter.name] ?? ''}
+            onChange={(e) =>
+              setValues((current) => ({
+                ...current,
+                [parameter.name]: e.target.value,
+              }))
+            }
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label htmlFor="alertConnection">Connection</Label>
+        <Select
+          value={connectionProfileId}
+          onValueChange={setConnectionProfileId}
+        >
+          <SelectTrigger id="alertConnection">
+            <SelectValue placeholder="Pick a connection" />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alertColumn">Condition</Label>
+        <div className="flex gap-2">
+          <Input
+            id="alertColumn"
+            className="font-mono"
+            placeholder="pct_believe"
+            value={columnName}
+            onChange={(e) => setColumnName(e.target.value)}
+          />
+          <Select
+            value={operator}
+            onValueChange={(selected) => setOperator(selected as AlertOperator)}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ALERT_OPERATORS).map(([key, { label }]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            aria-label="Threshold"
+            className="w-28"
+            type="number"
+            placeholder="60"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alertKeyColumn">For each (optional)</Label>
+        <Input
+          id="alertKeyColumn"
+          className="font-mono"
+          placeholder="school_name"
+          value={keyColumn}
+          onChange={(e) => setKeyColumn(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          A column that tells rows apart. Each value is notified once when it
+          starts matching, without it the whole result is one alert.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alertCron">Check</Label>
+        <Select value="" onValueChange={setCron}>
+          <SelectTrigger>
+            <SelectValue placeholder="Pick a preset" />
+          </SelectTrigger>
+          <SelectContent>
+            {REPORT_CONFIG.schedulePresets.map((preset) => (
+              <SelectItem key={preset.cron} value={preset.cron}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Input
+            id="alertCron"
+            className="font-mono"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+          />
+          <Input
+            aria-label="Time zone"
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {nextRun
+            ? `Next check: ${nextRun.toLocaleString()}`
+            : 'Use five cron fields: minute, hour, day of month, month, day of week.'}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="alertChannel">Notify by</Label>
+        <Select
+          value={channel}
+          onValueChange={(selected) => setChannel(selected as AlertChannel)}
+        >
+          <SelectTrigger id="alertChannel" className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ALERT_CHANNELS.map((item) => (
+              <SelectItem key={item} value={item}>
+                {channelLabels[item]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {channel === 'email' ? (
+          <Textarea
+            aria-label="Recipients"
+            placeholder="manager@example.org, office@example.org"
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+          />
+        ) : (
+          <Input
+            aria-label="Webhook URL"
+            type="url"
+            placeholder="https://hooks.example.org/alerts"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+          />
+        )}
+      </div>
+
+      <SheetFooter className="mt-auto gap-2">
+        <Button onClick={save} disabled={isSaving}>
+          Create
+        </Button>
+      </SheetFooter>
+    </SheetContent>
+  )
+}
@@ -0,0 +1,296 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { BellOff, History, Pause, Play, RefreshCw, Trash2 } from 'lucide-react'
+
+import {
+  deleteAlertRule,
+  evaluateAlertRuleNow,
+  setAlertRuleEnabled,
+  snoozeAlertRule,
+} from '@/actions/alert-rules'
+import type { ConnectionProfile } from '@/actions/connection-profiles'
+import { AlertRuleSheet } from '@/components/alert-rule-sheet'
+import { ALERT_CONFIG } from '@/config/alerts'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Sheet } from '@/components/ui/sheet'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from '@/hooks/use-toast'
+import {
+  describeCondition,
+  type AlertEvent,
+  type AlertRule,
+} from '@/lib/alerts'
+import type { SavedQuery } from '@/lib/saved-queries'
+
+const statusVariants = {
+  ok: 'outline',
+  triggered: 'secondary',
+  failed: 'destructive',
+} as const
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleString() : '-'
+
+const notify = (result: { error?: string; success?: string }) => {
+  if (result.error) {
+    toast({
+      title: 'Error',
+      description: result.error,
+      variant: 'destructive',
+    })
+    return
+  }
+  toast({ title: 'Done!', description: result.success })
+}
+
+function EventHistory({ events }: { events: AlertEvent[] }) {
+  if (!events.length) {
+    return <p className="text-sm text-muted-foreground">No checks yet.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Checked</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Matches</TableHead>
+          <TableHead className="text-right">New</TableHead>
+          <TableHead>Notified</TableHead>
+          <TableHead>Error</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {events.map((event) => (
+          <TableRow key={event.id}>
+            <TableCell className="whitespace-nowrap">
+              {formatDate(event.evaluatedAt)}
+            </TableCell>
+            <TableCell>
+              <Badge variant={statusVariants[event.status]}>
+                {event.status}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {event.matchCount}
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {event.newMatchCount}
+            </TableCell>
+            <TableCell>{event.notified ? 'Yes' : 'No'}</TableCell>
+            <TableCell className="text-red-500">{event.error}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function AlertRules({
+  rules,
+  queries,
+  profiles,
+  error,
+}: {
+  rules: AlertRule[]
+  queries: SavedQuery[]
+  profiles: ConnectionProfile[]
+  error?: string
+}) {
+  const router = useRouter()
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [checkingId, setCheckingId] = useState<string | null>(null)
+
+  const act = async (
+    action: () => Promise<{ error?: string; success?: string }>
+  ) => {
+    notify(await action())
+    router.refresh()
+  }
+
+  const checkNow = async (id: string) => {
+    setCheckingId(id)
+    await act(() => evaluateAlertRuleNow(id))
+    setCheckingId(null)
+  }
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="flex-1 text-lg font-semibold">Alerts</h1>
+        <Button onClick={() => setIsCreateOpen(true)}>New alert</Button>
+      </nav>
+
+      <div className="container mx-auto max-w-4xl px-4 pb-6 space-y-4">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {rules.length ? (
+          rules.map((rule) => {
+            const isSnoozed =
+              !!rule.snoozedUntil && new Date(rule.snoozedUntil) > new Date()
+            const lastEvent = rule.events[0]
+            return (
+              <Card key={rule.id}>
+                <CardHeader className="flex flex-row items-start gap-2 space-y-0">
+                  <div className="flex-1 space-y-1">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      {rule.name}
+                      {!rule.isEnabled && (
+                        <Badge variant="secondary">Paused</Badge>
+                      )}
+                      {isSnoozed && (
+                        <Badge variant="secondary">
+                          Snoozed until {formatDate(rule.snoozedUntil)}
+                        </Badge>
+                      )}
+                      {lastEvent && (
+                        <Badge variant={statusVariants[lastEvent.status]}>
+                          {lastEvent.status}
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {queries.find((q) => q.id === rule.savedQueryId)?.title ??
+                        '?'}
+                      :{' '}
+                      <span className="font-mono">
+                        {describeCondition(rule)}
+                      </span>
+                    </CardDescription>
+                    <CardDescription>
+                      <span className="font-mono">{rule.cron}</span> (
+                      {rule.timeZone}) ·{' '}
+                      {rule.channel === 'email'
+                        ? rule.recipients.join(', ')
+                        : rule.webhookUrl}
+                    </CardDescription>
+                    <CardDescription>
+                      Next check:{' '}
+                      {rule.isEnabled ? formatDate(rule.nextRunAt) : '-'} · Open
+                      matches: {rule.activeKeys.length}
+                    </CardDescription>
+                    {lastEvent?.status === 'failed' && (
+                      <p className="text-sm text-red-500">{lastEvent.error}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Check now"
+                    disabled={checkingId === rule.id}
+                    onClick={() => checkNow(rule.id)}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" title="Snooze">
+                        <BellOff className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {ALERT_CONFIG.snoozeOptions.map((option) => (
+                        <DropdownMenuItem
+                          key={option.hours}
+                          onClick={() =>
+                            act(() => snoozeAlertRule(rule.id, option.hours))
+                          }
+                        >
+                          Snooze for {option.label}
+                        </DropdownMenuItem>
+                      ))}
+                      {isSnoozed && (
+                        <DropdownMenuItem
+                          onClick={() =>
+                            act(() => snoozeAlertRule(rule.id, null))
+                          }
+                        >
+                          End snooze
+                        </DropdownMenuItem>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={rule.isEnabled ? 'Pause' : 'Resume'}
+                    onClick={() =>
+                      act(() => setAlertRuleEnabled(rule.id, !rule.isEnabled))
+                    }
+                  >
+                    {rule.isEnabled ? (
+                      <Pause className="h-4 w-4" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="History"
+                    onClick={() =>
+                      setHistoryId(historyId === rule.id ? null : rule.id)
+                    }
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    onClick={() => act(() => deleteAlertRule(rule.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardHeader>
+                {historyId === rule.id && (
+                  <CardContent>
+                    <EventHistory events={rule.events} />
+                  </CardContent>
+                )}
+              </Card>
+            )
+          })
+        ) : (
+          <p className="text-sm text-muted-foreground">No alerts yet.</p>
+        )}
+      </div>
+
+      <Sheet open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        {isCreateOpen && (
+          <AlertRuleSheet
+            queries={queries}
+            profiles={profiles}
+            onClose={() => setIsCreateOpen(false)}
+          />
+        )}
+      </Sheet>
+    </div>
+  )
+}
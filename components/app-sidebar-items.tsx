@@ -3,25 +3,168 @@ import { useAppState } from '../state'
 import { SidebarLink } from './sidebar-link'
 import {
   SidebarGroupLabel,
+  SidebarInput,
   SidebarMenuItem,
   SidebarMenuSub,
   SidebarMenuSubItem,
 } from './ui/sidebar'
-import { useEffect } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { Trash2, X } from 'lucide-react'
+
+import { deleteChatFolder } from '@/actions/chat-folders'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CHAT_LIST_CONFIG } from '@/config/chats'
+import { toast } from '@/hooks/use-toast'
+import {
+  DEFAULT_CHAT_FILTER,
+  type ChatFilter,
+  type ChatListItem,
+} from '@/lib/chats'
+
+// Select values for the views that are not a folder
+const ALL_CHATS = 'all'
+const ARCHIVED = 'archived'
+
+const isDefaultFilter = (filter: ChatFilter) =>
+  JSON.stringify(filter) === JSON.stringify(DEFAULT_CHAT_FILTER)
+
+function ChatFilters() {
+  const { chatFilter, chatFolders, setChatFilter, loadChatFolders } =
+    useAppState()
+  const [search, setSearch] = useState(chatFilter.search)
+
+  useEffect(() => {
+    loadChatFolders()
+  }, [loadChatFolders])
+
+  useEffect(() => {
+    if (search === useAppState.getState().chatFilter.search) return
+
+    const timeout = setTimeout(
+      () => setChatFilter({ search }),
+      CHAT_LIST_CONFIG.searchDebounceMs
+    )
+    return () => clearTimeout(timeout)
+  }, [search, setChatFilter])
+
+  const view = chatFilter.archived
+    ? ARCHIVED
+    : (chatFilter.folderId ?? ALL_CHATS)
+
+  const changeView = (value: string) =>
+    setChatFilter({
+      archived: value === ARCHIVED,
+      folderId: value === ARCHIVED || value === ALL_CHATS ? null : value,
+    })
+
+  const removeFolder = async (id: string) => {
+    const result = await deleteChatFolder(id)
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    await loadChatFolders()
+    await setChatFilter({ folderId: null })
+  }
+
+  return (
+    <div className="space-y-2 px-2 pb-2">
+      <SidebarInput
+        placeholder="Search chats"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+      <div className="flex items-center gap-1">
+        <Select value={view} onValueChange={changeView}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_CHATS}>All chats</SelectItem>
+            {chatFolders.map((folder) => (
+              <SelectItem key={folder.id} value={folder.id}>
+                {folder.name}
+              </SelectItem>
+            ))}
+            <SelectItem value={ARCHIVED}>Archived</SelectItem>
+          </SelectContent>
+        </Select>
+        {chatFilter.folderId && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            title="Delete folder"
+            onClick={() => removeFolder(chatFilter.folderId!)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {chatFilter.tag && (
+        <Badge
+          variant="secondary"
+          className="cursor-pointer gap-1"
+          onClick={() => setChatFilter({ tag: null })}
+        >
+          {chatFilter.tag}
+          <X className="h-3 w-3" />
+        </Badge>
+      )}
+    </div>
+  )
+}
 
 export function AppSidebarItems({
   chats: chatsProp,
+  hasMore,
 }: {
-  chats: {
-    id: string
-    name: string
-    created_at: string
-  }[]
+  chats: ChatListItem[]
+  hasMore: boolean
 }) {
-  const { setChats, chats } = useAppState()
+  const {
+    setChats,
+    chats,
+    chatFilter,
+    hasMoreChats,
+    isLoadingChats,
+    loadChats,
+  } = useAppState()
+  const sentinel = useRef<HTMLLIElement>(null)
+
+  // The server renders the unfiltered first page, keep a search or folder
+  // view the user is in when the layout refreshes
   useEffect(() => {
-    setChats(chatsProp)
-  }, [chatsProp, setChats])
+    if (isDefaultFilter(useAppState.getState().chatFilter)) {
+      setChats(chatsProp, hasMore)
+    }
+  }, [chatsProp, hasMore, setChats])
+
+  // Loads the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const element = sentinel.current
+    if (!element || !hasMoreChats || isLoadingChats) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadChats()
+      }
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [hasMoreChats, isLoadingChats, loadChats, chats.length])
 
   const now = new Date()
 
@@ -36,8 +179,9 @@ export function AppSidebarItems({
 
   const items: {
     title: string
-    data: { title: string; id: string; createdAt: string }[]
+    data: ChatListItem[]
   }[] = [
+    { title: 'Pinned', data: [] },
     { title: 'Today', data: [] },
     { title: 'Yesterday', data: [] },
     { title: 'Past', data: [] },
@@ -47,24 +191,14 @@ export function AppSidebarItems({
     // Compare to today & yesterday based on ISO string
     const chatDateString = new Date(chat.created_at).toISOString().split('T')[0]
 
-    if (chatDateString === todayString) {
-      items[0].data.push({
-        title: chat.name!,
-        id: chat.id,
-        createdAt: chat.created_at,
-      })
+    if (chat.is_pinned) {
+      items[0].data.push(chat)
+    } else if (chatDateString === todayString) {
+      items[1].data.push(chat)
     } else if (chatDateString === yesterdayString) {
-      items[1].data.push({
-        title: chat.name!,
-        id: chat.id,
-        createdAt: chat.created_at,
-      })
+      items[2].data.push(chat)
     } else {
-      items[2].data.push({
-        title: chat.name!,
-        id: chat.id,
-        createdAt: chat.created_at,
-      })
+      items[3].data.push(chat)
     }
   }
 
@@ -73,7 +207,7 @@ export function AppSidebarItems({
   for (const group of items) {
     group.data.sort(
       (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
     )
   }
 
@@ -82,6 +216,9 @@ export function AppSidebarItems({
 
   return (
     <>
+      <SidebarMenuItem className="sticky top-0 z-10 bg-sidebar">
+        <ChatFilters />
+      </SidebarMenuItem>
       {filteredItems?.map((item) => (
         <SidebarMenuItem key={item.title}>
           <SidebarGroupLabel>
@@ -92,12 +229,20 @@ export function AppSidebarItems({
           <SidebarMenuSub>
             {item.data.map((chat) => (
               <SidebarMenuSubItem key={chat.id}>
-                <SidebarLink id={chat.id} title={chat.title} />
+                <SidebarLink chat={chat} />
               </SidebarMenuSubItem>
             ))}
           </SidebarMenuSub>
         </SidebarMenuItem>
       ))}
+      {!chats.length && !isLoadingChats && (
+        <SidebarMenuItem>
+          <p className="px-3 text-sm text-muted-foreground">
+            {isDefaultFilter(chatFilter) ? 'No chats yet.' : 'No chats found.'}
+          </p>
+        </SidebarMenuItem>
+      )}
+      <SidebarMenuItem ref={sentinel} className="h-1" />
     </>
   )
 }
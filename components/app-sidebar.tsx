@@ -13,8 +13,12 @@ import { Suspense } from 'react'
 import { createClient } from '@/utils/supabase/server'
 import { redirect } from 'next/navigation'
 
+import Link from 'next/link'
 import { NewChatSidebar } from './new-chat-sidebar'
 import { AppSidebarItems } from './app-sidebar-items'
+import { Button } from './ui/button'
+import { loadAccessScope } from '@/lib/access-scope'
+import { getChats } from '@/actions/get-chats'
 
 async function Items() {
   const client = await createClient()
@@ -28,17 +32,46 @@ async function Items() {
     return redirect('/login')
   }
 
-  const { data: chats } = await client
-    .from('chats')
-    .select('*')
-    .eq('user_id', user.id)
-    .order('created_at', { ascending: false })
+  // Only the first page, the sidebar loads more as it scrolls
+  const { data } = await getChats()
 
-  if (!chats) {
+  if (!data) {
     return null
   }
 
-  return <AppSidebarItems chats={chats} />
+  return <AppSidebarItems chats={data.chats} hasMore={data.hasMore} />
+}
+
+async function AdminLink() {
+  const client = await createClient()
+
+  const {
+    data: { user },
+  } = await client.auth.getUser()
+
+  if (!user) {
+    return null
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  if (scope?.role !== 'super_admin') {
+    return null
+  }
+
+  return (
+    <>
+      <SidebarGroupLabel>
+        <Button variant="ghost" className="w-full" size="lg" asChild>
+          <Link href="/app/admin">Users and access</Link>
+        </Button>
+      </SidebarGroupLabel>
+      <SidebarGroupLabel>
+        <Button variant="ghost" className="w-full" size="lg" asChild>
+          <Link href="/app/admin/audit">Query audit</Link>
+        </Button>
+      </SidebarGroupLabel>
+    </>
+  )
 }
 
 export function AppSidebar() {
@@ -159,6 +192,34 @@ export function AppSidebar() {
           <SidebarGroupLabel className="my-2">
             <NewChatSidebar />
           </SidebarGroupLabel>
+          <SidebarGroupLabel>
+            <Button variant="ghost" className="w-full" size="lg" asChild>
+              <Link href="/app/queries">Saved queries</Link>
+            </Button>
+          </SidebarGroupLabel>
+          <SidebarGroupLabel>
+            <Button variant="ghost" className="w-full" size="lg" asChild>
+              <Link href="/app/dashboards">Dashboards</Link>
+            </Button>
+          </SidebarGroupLabel>
+          <SidebarGroupLabel>
+            <Button variant="ghost" className="w-full" size="lg" asChild>
+              <Link href="/app/reports">Scheduled reports</Link>
+            </Button>
+          </SidebarGroupLabel>
+          <SidebarGroupLabel>
+            <Button variant="ghost" className="w-full" size="lg" asChild>
+              <Link href="/app/alerts">Alerts</Link>
+            </Button>
+          </SidebarGroupLabel>
+          <SidebarGroupLabel>
+            <Button variant="ghost" className="w-full" size="lg" asChild>
+              <Link href="/app/usage">Usage</Link>
+            </Button>
+          </SidebarGroupLabel>
+          <Suspense fallback={null}>
+            <AdminLink />
+          </Suspense>
 
           <SidebarGroupContent className="flex flex-col gap-2 max-h-[50%] overflow-y-auto">
             <SidebarMenu>
@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import type { ChatExportFormat } from '@/lib/chat-export'
+
+const formatLabels: Record<ChatExportFormat, string> = {
+  pdf: 'PDF',
+  html: 'HTML',
+  markdown: 'Markdown',
+}
+
+const filenameFrom = (response: Response, format: ChatExportFormat) =>
+  response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ??
+  `chat.${format}`
+
+// The chat's queries run again on the server, so the report has complete
+// results even for blocks that were never run in the browser
+export function ChatExportMenu({ chatId }: { chatId: string }) {
+  const { value } = useAppLocalStorage()
+  const [collapseSql, setCollapseSql] = useState(false)
+  const [includeCharts, setIncludeCharts] = useState(true)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const download = async (format: ChatExportFormat) => {
+    setIsExporting(true)
+    try {
+      const response = await fetch('/api/chat-export', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-openai-api-key': value.openaiApiKey,
+          'x-anthropic-api-key': value.anthropicApiKey,
+          'x-model': value.model,
+        },
+        body: JSON.stringify({
+          chatId,
+          connectionProfileId: value.connectionProfileId,
+          format,
+          collapseSql,
+          includeCharts,
+        }),
+      })
+      if (!response.ok) {
+        throw new Error(await response.text())
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filenameFrom(response, format)
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast({
+        title: 'Error exporting chat',
+        description:
+          error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      })
+    }
+    setIsExporting(false)
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" disabled={isExporting}>
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuCheckboxItem
+          checked={includeCharts}
+          onCheckedChange={setIncludeCharts}
+          onSelect={(event) => event.preventDefault()}
+        >
+          Include charts
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={collapseSql}
+          onCheckedChange={setCollapseSql}
+          onSelect={(event) => event.preventDefault()}
+        >
+          Collapse SQL
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        {Object.entries(formatLabels).map(([format, label]) => (
+          <DropdownMenuItem
+            key={format}
+            onClick={() => download(format as ChatExportFormat)}
+          >
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
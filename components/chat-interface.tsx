@@ -10,6 +10,7 @@ import { User } from '@supabase/supabase-js'
 import { useAppState } from '@/state'
 import { useIsMounted } from '@/hooks/use-is-mounted'
 import { v4 } from 'uuid'
+import { EMPTY_CHAT_TREE, type ChatTree } from '@/lib/chat-branches'
 
 export default function ChatInterface({
   chat: chatProp,
@@ -20,6 +21,7 @@ export default function ChatInterface({
         id: string
         name: string
         messages: Message[]
+        messageTree: ChatTree
       }
     | undefined
   user: User
@@ -37,14 +39,15 @@ export default function ChatInterface({
         id: v4(),
         name: 'New Chat',
         messages: [],
+        messageTree: EMPTY_CHAT_TREE,
       })
     }
   }, [setChat, chatProp])
 
   const shouldShowChat = useMemo(() => {
     if (!isMounted) return false
-    return !!value.connectionString
-  }, [isMounted, value.connectionString])
+    return !!value.connectionProfileId
+  }, [isMounted, value.connectionProfileId])
 
   if (!isMounted) return null
   if (!chatState?.id) return null
@@ -54,7 +57,7 @@ export default function ChatInterface({
       {shouldShowChat ? (
         <Chat initialId={chatState.id} user={user} key={chatState.id} />
       ) : (
-        <ConnectionForm setConnectionString={setValue} />
+        <ConnectionForm setConnection={setValue} />
       )}
     </>
   )
@@ -8,7 +8,7 @@ import { Form } from './form'
 import TextSkeleton from './text-skeleton'
 import Markdown from 'react-markdown'
 import CodeBlock from './code-block'
-import type { QueryResult } from 'pg'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
 import remarkGfm from 'remark-gfm'
 import {
   Table,
@@ -23,6 +23,23 @@ import Navbar from './navbar'
 import { User } from '@supabase/supabase-js'
 import { useAppState } from '../state'
 import { usePathname } from 'next/navigation'
+import { Pencil, RefreshCw } from 'lucide-react'
+import { Button } from './ui/button'
+import {
+  BranchSwitcher,
+  ContextIndicator,
+  EditMessageForm,
+} from './message-actions'
+import { selectChatBranch } from '@/actions/chat-branches'
+import { sqlResultKey } from '@/lib/chat-messages'
+import {
+  EMPTY_CHAT_TREE,
+  getLatestLeafId,
+  getSiblingIds,
+  getThread,
+  mergeThread,
+} from '@/lib/chat-branches'
+import { getContextAnnotation } from '@/lib/chat-context'
 
 const toolCallToNameText = {
   getExplainForQuery: 'Getting query plan...',
@@ -31,6 +48,7 @@ const toolCallToNameText = {
   getIndexStatsUsage: 'Analyzing index usage...',
   getPublicTablesWithColumns: 'Retrieving public tables and columns...',
   getTableStats: 'Collecting table statistics...',
+  runQuery: 'Running query...',
 }
 
 function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
@@ -79,14 +97,28 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
     if (response.headers.get('x-should-update-chats') === 'true') {
       shouldUpdateChats.current = true
     }
+    const usageWarning = response.headers.get('x-usage-warning')
+    if (usageWarning) {
+      toast({ title: 'AI budget almost used', description: usageWarning })
+    }
   }, [])
 
-  const { messages, input, handleInputChange, handleSubmit, isLoading } =
-    useChat({
+  const {
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    isLoading,
+    setMessages,
+    append,
+    reload,
+  } = useChat({
       api: '/api/chat',
       headers: {
-        'x-connection-string': value.connectionString,
+        'x-connection-profile-id': value.connectionProfileId,
         'x-openai-api-key': value.openaiApiKey,
+        'x-anthropic-api-key': value.anthropicApiKey ?? '',
+        'x-model': value.model,
       },
       onFinish,
       streamProtocol: 'data',
@@ -97,6 +129,49 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
       onResponse,
     })
 
+  // Every branch of the chat, the shown one is `messages`
+  const [messageTree, setMessageTree] = useState(
+    chat?.messageTree ?? EMPTY_CHAT_TREE
+  )
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+
+  useEffect(() => {
+    setMessageTree((tree) => mergeThread(tree, messages))
+  }, [messages])
+
+  // Edits and regenerations resend the thread up to the message, the server
+  // stores the new reply as a sibling of the old one
+  const editMessage = useCallback(
+    (index: number, content: string) => {
+      setEditingMessageId(null)
+      setMessages(messages.slice(0, index))
+      append({ role: 'user', content })
+      scrollMessagesToBottom()
+    },
+    [messages, setMessages, append, scrollMessagesToBottom]
+  )
+
+  const regenerateMessage = useCallback(
+    (index: number) => {
+      setMessages(messages.slice(0, index))
+      reload()
+    },
+    [messages, setMessages, reload]
+  )
+
+  const selectBranch = useCallback(
+    async (messageId: string) => {
+      const leafId = getLatestLeafId(messageTree, messageId)
+      setMessages(getThread(messageTree, leafId))
+
+      const result = await selectChatBranch(initialId, leafId)
+      if (result.error) {
+        onError(new Error(result.error))
+      }
+    },
+    [messageTree, setMessages, initialId, onError]
+  )
+
   // Cleanup SQL results when component unmounts
   useEffect(() => {
     return () => {
@@ -112,11 +187,11 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
 
   // New state to manage SQL results
   const [sqlResults, setSqlResults] = useState<{
-    [key: string]: QueryResult<unknown[]> | string
+    [key: string]: LimitedQueryResult | string
   }>({})
 
   const handleSetSqlResult = useCallback(
-    (messageId: string, result: QueryResult<unknown[]> | string) => {
+    (messageId: string, result: LimitedQueryResult | string) => {
       setSqlResults((prev) => ({
         ...prev,
         [messageId]: result,
@@ -125,6 +200,25 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
     []
   )
 
+  // Results of queries the agent already ran, saved with the chat, so
+  // reloading a chat does not execute them again
+  const savedQueryResults = useMemo(() => {
+    const results: { [key: string]: LimitedQueryResult | string } = {}
+    for (const message of messages) {
+      for (const part of message.parts ?? []) {
+        if (
+          part.type === 'tool-invocation' &&
+          part.toolInvocation.toolName === 'runQuery' &&
+          part.toolInvocation.state === 'result'
+        ) {
+          const { args, result } = part.toolInvocation
+          results[sqlResultKey(args.query, message.id)] = result
+        }
+      }
+    }
+    return results
+  }, [messages])
+
   const toolsLoading = useMemo(() => {
     const toolInvocation = messages[messages.length - 1]?.toolInvocations
 
@@ -139,7 +233,7 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
         <div className="container mx-auto max-w-4xl h-full">
           <div className="px-4 py-6">
             <div className="w-full space-y-12">
-              {messages.map((message) => (
+              {messages.map((message, index) => (
                 <motion.div
                   key={message.id}
                   initial={{ opacity: 0, y: 20 }}
@@ -148,14 +242,42 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
                   className="w-full"
                 >
                   {message.role === 'user' ? (
-                    <motion.div
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                      transition={{ duration: 0.3 }}
-                      className="text-2xl font-bold text-primary mb-6 border-b pb-2"
-                    >
-                      {message.content}
-                    </motion.div>
+                    editingMessageId === message.id ? (
+                      <div className="mb-6">
+                        <EditMessageForm
+                          content={message.content}
+                          onSubmit={(content) => editMessage(index, content)}
+                          onCancel={() => setEditingMessageId(null)}
+                        />
+                      </div>
+                    ) : (
+                      <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        transition={{ duration: 0.3 }}
+                        className="group flex items-start justify-between gap-2 text-2xl font-bold text-primary mb-6 border-b pb-2"
+                      >
+                        <span>{message.content}</span>
+                        <div className="flex shrink-0 items-center gap-1 font-normal">
+                          <BranchSwitcher
+                            siblingIds={getSiblingIds(messageTree, message.id)}
+                            messageId={message.id}
+                            isDisabled={isLoading}
+                            onSelect={selectBranch}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Edit question"
+                            disabled={isLoading}
+                            onClick={() => setEditingMessageId(message.id)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </motion.div>
+                    )
                   ) : (
                     <>
                       {message.parts && message.parts.length > 0 && (
@@ -185,25 +307,32 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
                                       )
                                         ? 'sql'
                                         : 'markup'
+                                      const resultKey = sqlResultKey(
+                                        children?.toString(),
+                                        message.id
+                                      )
                                       return (
                                         <CodeBlock
-                                          connectionString={
-                                            value.connectionString
+                                          connectionProfileId={
+                                            value.connectionProfileId
                                           }
                                           isDisabled={isLoading}
                                           language={language}
                                           sqlResult={
-                                            sqlResults[
-                                              `${children?.toString()}_${message.id}`
-                                            ]
+                                            sqlResults[resultKey] ??
+                                            savedQueryResults[resultKey]
                                           }
                                           setSqlResult={(result) =>
                                             handleSetSqlResult(
-                                              `${children?.toString()}_${message.id}`,
+                                              resultKey,
                                               result
                                             )
                                           }
                                           autoRun={language === 'sql'}
+                                          share={{
+                                            chatId: initialId,
+                                            messageId: message.id,
+                                          }}
                                         >
                                           {children}
                                         </CodeBlock>
@@ -281,23 +410,27 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
                                   const language = className?.includes('sql')
                                     ? 'sql'
                                     : 'markup'
+                                  const resultKey = sqlResultKey(
+                                    children?.toString(),
+                                    message.id
+                                  )
                                   return (
                                     <CodeBlock
-                                      connectionString={value.connectionString}
+                                      connectionProfileId={value.connectionProfileId}
                                       isDisabled={isLoading}
                                       language={language}
                                       sqlResult={
-                                        sqlResults[
-                                          `${children?.toString()}_${message.id}`
-                                        ]
+                                        sqlResults[resultKey] ??
+                                        savedQueryResults[resultKey]
                                       }
                                       setSqlResult={(result) =>
-                                        handleSetSqlResult(
-                                          `${children?.toString()}_${message.id}`,
-                                          result
-                                        )
+                                        handleSetSqlResult(resultKey, result)
                                       }
                                       autoRun={language === 'sql'}
+                                      share={{
+                                        chatId: initialId,
+                                        messageId: message.id,
+                                      }}
                                     >
                                       {children}
                                     </CodeBlock>
@@ -368,6 +501,29 @@ function ChatComponent({ initialId, user }: { initialId: string; user: User }) {
                           )}
                         </motion.div>
                       )}
+                      {!(isLoading && index === messages.length - 1) && (
+                        <div className="mt-4 flex items-center gap-1">
+                          <BranchSwitcher
+                            siblingIds={getSiblingIds(messageTree, message.id)}
+                            messageId={message.id}
+                            isDisabled={isLoading}
+                            onSelect={selectBranch}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-muted-foreground"
+                            title="Regenerate answer"
+                            disabled={isLoading}
+                            onClick={() => regenerateMessage(index)}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <ContextIndicator
+                            annotation={getContextAnnotation(message)}
+                          />
+                        </div>
+                      )}
                       {(showSkeleton || toolsLoading.length > 0) &&
                         message.id === messages[messages.length - 1].id && (
                           <div className="mt-6">
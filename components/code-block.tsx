@@ -1,16 +1,21 @@
 'use client'
 
-import { Check, Copy, BarChart3 } from 'lucide-react'
+import { Check, Copy, BarChart3, BookmarkPlus, Share2 } from 'lucide-react'
 import { useState, useEffect, useCallback } from 'react'
 
 import { Button } from '@/components/ui/button'
 import { runSql } from '@/actions/run-sql'
 import { toast } from '@/hooks/use-toast'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
 import { DynamicChart } from '@/components/dynamic-chart'
+import { ExportMenu } from '@/components/export-menu'
+import { SaveQuerySheet } from '@/components/save-query-sheet'
+import { ShareSheet } from '@/components/share-sheet'
+import { Sheet } from '@/components/ui/sheet'
 import { generateChartConfig } from '@/actions/chart'
 import type { Config, Result } from '@/lib/chart'
 
-import type { QueryResult } from 'pg'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
 import SqlResult from './sql-result'
 import Prism from 'prismjs'
 import 'prismjs/components/prism-sql'
@@ -34,26 +39,32 @@ function CodeBlock({
   sqlResult,
   setSqlResult,
   isDisabled,
-  connectionString,
+  connectionProfileId,
   autoRun = true,
+  share,
 }: {
   children: React.ReactNode
   language?: string
-  sqlResult?: QueryResult<unknown[]> | string
-  setSqlResult: (result: QueryResult<unknown[]> | string) => void
+  sqlResult?: LimitedQueryResult | string
+  setSqlResult: (result: LimitedQueryResult | string) => void
   isDisabled?: boolean
-  connectionString: string
+  connectionProfileId: string
   autoRun?: boolean
+  // Where the block is in a chat, enables sharing its result
+  share?: { chatId: string; messageId: string }
 }) {
   useEffect(() => {
     Prism.highlightAll()
   }, [])
 
+  const { value } = useAppLocalStorage()
   const [copied, setCopied] = useState(false)
   const [showChart, setShowChart] = useState(false)
   const [chartConfig, setChartConfig] = useState<Config | null>(null)
   const [isChartLoading, setIsChartLoading] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [isShareOpen, setIsShareOpen] = useState(false)
 
   const run = useCallback(async () => {
     if (!children?.toString()) {
@@ -68,7 +79,8 @@ function CodeBlock({
     const sqlFunctionBinded = runSql.bind(
       null,
       children?.toString(),
-      connectionString
+      connectionProfileId,
+      { chatId: share?.chatId, messageId: share?.messageId }
     )
     const result = await sqlFunctionBinded()
     try {
@@ -79,7 +91,13 @@ function CodeBlock({
     }
 
     setIsLoading(false)
-  }, [children, connectionString, setSqlResult])
+  }, [
+    children,
+    connectionProfileId,
+    setSqlResult,
+    share?.chatId,
+    share?.messageId,
+  ])
 
   useEffect(() => {
     if (language === 'sql' && autoRun && !sqlResult && !isDisabled && children?.toString()) {
@@ -105,10 +123,22 @@ function CodeBlock({
     setIsChartLoading(true)
     try {
       const rows = convertToResult(sqlResult.rows)
-      const { config } = await generateChartConfig(
+      const { config, error } = await generateChartConfig(
         rows,
-        children?.toString() || ''
+        children?.toString() || '',
+        value.model,
+        { openai: value.openaiApiKey, anthropic: value.anthropicApiKey },
+        share
       )
+      if (!config) {
+        toast({
+          title: 'Error generating chart',
+          description: error,
+          variant: 'destructive',
+        })
+        setIsChartLoading(false)
+        return
+      }
       setChartConfig(config)
       setShowChart(true)
     } catch (error) {
@@ -160,18 +190,44 @@ function CodeBlock({
           <SqlResult result={sqlResult} />
           {typeof sqlResult !== 'string' && sqlResult.rows?.length > 0 && (
             <>
-              {!showChart && (
+              <div className="flex gap-2">
+                {!showChart && (
+                  <Button
+                    size={'sm'}
+                    variant={'outline'}
+                    onClick={handleShowChart}
+                    disabled={isChartLoading}
+                    className="flex items-center gap-2"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    Show Chart
+                  </Button>
+                )}
+                <ExportMenu
+                  sql={children?.toString() || ''}
+                  connectionProfileId={connectionProfileId}
+                />
                 <Button
                   size={'sm'}
                   variant={'outline'}
-                  onClick={handleShowChart}
-                  disabled={isChartLoading}
+                  onClick={() => setIsSaveOpen(true)}
                   className="flex items-center gap-2"
                 >
-                  <BarChart3 className="w-4 h-4" />
-                  Show Chart
+                  <BookmarkPlus className="w-4 h-4" />
+                  Save Query
                 </Button>
-              )}
+                {share && (
+                  <Button
+                    size={'sm'}
+                    variant={'outline'}
+                    onClick={() => setIsShareOpen(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <Share2 className="w-4 h-4" />
+                    Share
+                  </Button>
+                )}
+              </div>
               {showChart && chartConfig && (
                 <div className="mt-4">
                   <DynamicChart
@@ -185,6 +241,28 @@ function CodeBlock({
         </>
       ) : null}
 
+      <Sheet open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        {isSaveOpen && (
+          <SaveQuerySheet
+            sql={children?.toString() || ''}
+            chartConfig={chartConfig}
+            onClose={() => setIsSaveOpen(false)}
+          />
+        )}
+      </Sheet>
+
+      <Sheet open={isShareOpen} onOpenChange={setIsShareOpen}>
+        {isShareOpen && share && (
+          <ShareSheet
+            chatId={share.chatId}
+            query={{
+              messageId: share.messageId,
+              sql: children?.toString() || '',
+            }}
+          />
+        )}
+      </Sheet>
+
       {language === 'sql' && !autoRun && (
         <Button
           disabled={isDisabled}
@@ -1,13 +1,29 @@
 'use client'
 
-import { useState } from 'react'
-import { CircleCheck } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { CircleCheck, Pencil, PlugZap, Trash2 } from 'lucide-react'
 
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { toast } from '@/hooks/use-toast'
-import { validateDbConnection } from '@/actions/validate-db-connection'
+import {
+  type ConnectionProfile,
+  createConnectionProfile,
+  deleteConnectionProfile,
+  getConnectionProfiles,
+  renameConnectionProfile,
+  testConnectionProfile,
+} from '@/actions/connection-profiles'
 import { validateOpenaiKey } from '@/actions/validate-openai-key'
+import { getModels } from '@/actions/get-models'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import {
   Card,
   CardHeader,
@@ -16,49 +32,158 @@ import {
   CardContent,
 } from '@/components/ui/card'
 import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { MODEL_POLICY, normalizeModelId } from '@/config/models'
+import type { UserRole } from '@/config/diocese'
+
+const sharedRoleLabels = {
+  super_admin: 'Shared with super admins',
+  diocese_manager: 'Shared with diocese managers',
+  school_manager: 'Shared with school managers',
+}
+
+const showResult = (result: { error?: string; success?: string }) => {
+  if (result.error) {
+    toast({
+      title: 'Error',
+      description: result.error,
+      variant: 'destructive',
+    })
+    return false
+  }
+  toast({ title: 'Done!', description: result.success })
+  return true
+}
 
 export function ConnectionForm({
-  setConnectionString,
+  setConnection,
 }: {
-  setConnectionString: React.Dispatch<
+  setConnection: React.Dispatch<
     React.SetStateAction<{
-      connectionString: string
+      connectionProfileId: string
       openaiApiKey: string
+      anthropicApiKey: string
       model: string
     }>
   >
 }) {
   const { value } = useAppLocalStorage()
-  const [connectionString, setConnectionStringInput] = useState(
-    value.connectionString
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([])
+  const [canShare, setCanShare] = useState(false)
+  const [selectedProfileId, setSelectedProfileId] = useState(
+    value.connectionProfileId
+  )
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null
+  )
+  const [newName, setNewName] = useState('')
+  const [newConnectionString, setNewConnectionString] = useState('')
+  const [newSharedRole, setNewSharedRole] = useState<UserRole | 'none'>(
+    'none'
   )
   const [openaiApiKey, setOpenaiApiKey] = useState(value.openaiApiKey)
-  const [model, setModel] = useState(value.model || 'gpt-4o-mini')
+  const [anthropicApiKey, setAnthropicApiKey] = useState(
+    value.anthropicApiKey ?? ''
+  )
+  const [model, setModel] = useState(normalizeModelId(value.model))
+  const [models, setModels] = useState<
+    Awaited<ReturnType<typeof getModels>>
+  >([])
   const [isLoading, setIsLoading] = useState(false)
+  const [isSavingProfile, setIsSavingProfile] = useState(false)
   const [testSuccess, setTestSuccess] = useState(false)
   const [errors, setErrors] = useState<{ [key: string]: string }>({})
 
+  const loadProfiles = useCallback(async () => {
+    const result = await getConnectionProfiles()
+    if (result.error || !result.data) {
+      showResult(result)
+      return
+    }
+    setProfiles(result.data.profiles)
+    setCanShare(result.data.canShare)
+  }, [])
+
+  useEffect(() => {
+    loadProfiles()
+    getModels().then(setModels)
+  }, [loadProfiles])
+
+  const selectedModel = models.find((option) => option.id === model)
+  const provider = model.split(':')[0]
+
+  async function createProfile() {
+    setErrors({})
+    if (!newName || !newConnectionString) {
+      setErrors({
+        newProfile: 'A name and a connection string are required.',
+      })
+      return
+    }
+
+    setIsSavingProfile(true)
+    const result = await createConnectionProfile({
+      name: newName,
+      connectionString: newConnectionString,
+      sharedRole: newSharedRole === 'none' ? null : newSharedRole,
+    })
+    setIsSavingProfile(false)
+
+    if (showResult(result) && result.data) {
+      setNewName('')
+      setNewConnectionString('')
+      setNewSharedRole('none')
+      setSelectedProfileId(result.data.id)
+      await loadProfiles()
+    }
+  }
+
+  async function testProfile(id: string) {
+    setIsSavingProfile(true)
+    showResult(await testConnectionProfile(id))
+    setIsSavingProfile(false)
+  }
+
+  async function renameProfile() {
+    if (!renaming) return
+
+    setIsSavingProfile(true)
+    const result = await renameConnectionProfile(renaming.id, renaming.name)
+    setIsSavingProfile(false)
+
+    if (showResult(result)) {
+      setRenaming(null)
+      await loadProfiles()
+    }
+  }
+
+  async function deleteProfile(id: string) {
+    setIsSavingProfile(true)
+    const result = await deleteConnectionProfile(id)
+    setIsSavingProfile(false)
+
+    if (showResult(result)) {
+      if (selectedProfileId === id) {
+        setSelectedProfileId('')
+      }
+      await loadProfiles()
+    }
+  }
+
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
     setIsLoading(true)
     setErrors({})
 
-    if (!connectionString) {
+    if (!selectedProfileId) {
       setErrors((prev) => ({
         ...prev,
-        connectionString: 'Connection string is required.',
+        connectionProfileId: 'Pick or add a connection.',
       }))
       setIsLoading(false)
       return
     }
 
     try {
-      const response = await validateDbConnection(connectionString)
-
-      if (response !== 'Valid connection') {
-        throw new Error(response)
-      }
-
       // Validate OpenAI API key if provided
       if (openaiApiKey) {
         const openaiResponse = await validateOpenaiKey(openaiApiKey)
@@ -67,11 +192,19 @@ export function ConnectionForm({
         }
       }
 
+      if (selectedModel?.requiresUserKey) {
+        const key = provider === 'anthropic' ? anthropicApiKey : openaiApiKey
+        if (!key) {
+          throw new Error(`${selectedModel.label} requires your own API key`)
+        }
+      }
+
       setTestSuccess(true)
-      setConnectionString({
-        connectionString,
+      setConnection({
+        connectionProfileId: selectedProfileId,
         openaiApiKey: openaiApiKey || '',
-        model: model || '',
+        anthropicApiKey: anthropicApiKey || '',
+        model: model || MODEL_POLICY.defaultModel,
       })
       toast({
         title: 'Done!',
@@ -92,37 +225,157 @@ export function ConnectionForm({
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
-        <CardTitle>Add Connection String</CardTitle>
+        <CardTitle>Connect a Database</CardTitle>
         <CardDescription>
-          Enter the details for your database connection string.
+          Pick a saved connection or add a new one.
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={onSubmit} className="space-y-4">
           <div className="space-y-2 w-full">
-            <label htmlFor="connectionString">Connection String</label>
+            <label>Saved Connections</label>
+            {profiles.length ? (
+              <div className="space-y-1 rounded-md border p-2">
+                {profiles.map((profile) => (
+                  <div
+                    key={profile.id}
+                    className={`flex items-center gap-2 rounded-md p-2 text-sm ${
+                      selectedProfileId === profile.id ? 'bg-muted' : ''
+                    }`}
+                  >
+                    {renaming?.id === profile.id ? (
+                      <Input
+                        autoFocus
+                        value={renaming.name}
+                        onChange={(e) =>
+                          setRenaming({ id: profile.id, name: e.target.value })
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault()
+                            renameProfile()
+                          }
+                          if (e.key === 'Escape') setRenaming(null)
+                        }}
+                        onBlur={() => setRenaming(null)}
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        className="flex-1 text-left"
+                        onClick={() => setSelectedProfileId(profile.id)}
+                      >
+                        {profile.name}
+                        {profile.sharedRole && (
+                          <Badge variant="secondary" className="ml-2">
+                            {sharedRoleLabels[profile.sharedRole]}
+                          </Badge>
+                        )}
+                      </button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title="Test connection"
+                      disabled={isSavingProfile}
+                      onClick={() => testProfile(profile.id)}
+                    >
+                      <PlugZap className="h-4 w-4" />
+                    </Button>
+                    {profile.isOwner && (
+                      <>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          title="Rename"
+                          disabled={isSavingProfile}
+                          onClick={() =>
+                            setRenaming({ id: profile.id, name: profile.name })
+                          }
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          disabled={isSavingProfile}
+                          onClick={() => deleteProfile(profile.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No saved connections yet.</p>
+            )}
+            {errors.connectionProfileId && (
+              <p className="text-red-500 text-sm">
+                {errors.connectionProfileId}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2 w-full">
+            <label htmlFor="connectionString">New Connection</label>
             <p className="text-sm text-gray-500">
-              We don't store your connection string. It's saved in your browser,
-              you can see the source code{' '}
-              <a
-                href="https://github.com/NicolasMontone/chat-with-your-base"
-                target="_blank"
-                className="text-primary underline"
-              >
-                Here
-              </a>
+              The connection string is tested, encrypted and stored on the
+              server. Your browser only keeps a reference to it.
             </p>
+            <Input
+              id="connectionName"
+              className="w-full"
+              placeholder="Name, e.g. Production replica"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
             <Input
               id="connectionString"
+              type="password"
               className="w-full"
               placeholder="Enter your connection string"
-              value={connectionString}
-              onChange={(e) => setConnectionStringInput(e.target.value)}
+              value={newConnectionString}
+              onChange={(e) => setNewConnectionString(e.target.value)}
             />
-            {errors.connectionString && (
-              <p className="text-red-500 text-sm">{errors.connectionString}</p>
+            {canShare && (
+              <Select
+                value={newSharedRole}
+                onValueChange={(role) =>
+                  setNewSharedRole(role as UserRole | 'none')
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Only me</SelectItem>
+                  {Object.entries(sharedRoleLabels).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {errors.newProfile && (
+              <p className="text-red-500 text-sm">{errors.newProfile}</p>
             )}
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isSavingProfile}
+              onClick={createProfile}
+            >
+              Test and Save Connection
+            </Button>
           </div>
+
           <div className="space-y-2 w-full">
             <label htmlFor="openaiApiKey">OpenAI API Key (Optional)</label>
             <p className="text-sm text-gray-500">
@@ -137,10 +390,38 @@ export function ConnectionForm({
               onChange={(e) => setOpenaiApiKey(e.target.value)}
             />
           </div>
+          <div className="space-y-2 w-full">
+            <label htmlFor="anthropicApiKey">
+              Anthropic API Key (Optional)
+            </label>
+            <Input
+              id="anthropicApiKey"
+              className="w-full"
+              placeholder="Enter your Anthropic API key (optional)"
+              value={anthropicApiKey}
+              onChange={(e) => setAnthropicApiKey(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2 w-full">
+            <label htmlFor="model">Model</label>
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger id="model">
+                <SelectValue placeholder="Select a model" />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                    {option.requiresUserKey && ' (your key)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
           <div className="flex gap-4 mt-4">
             <Button type="submit" disabled={isLoading}>
-              Save Connection
+              Use Connection
             </Button>
           </div>
           {testSuccess && (
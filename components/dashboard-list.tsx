@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Trash2 } from 'lucide-react'
+
+import { createDashboard, deleteDashboard } from '@/actions/dashboards'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import { toast } from '@/hooks/use-toast'
+import type { Dashboard } from '@/lib/dashboards'
+
+const showError = (error: string) =>
+  toast({
+    title: 'Error',
+    description: error,
+    variant: 'destructive',
+  })
+
+export function DashboardList({
+  dashboards,
+  error,
+}: {
+  dashboards: Dashboard[]
+  error?: string
+}) {
+  const router = useRouter()
+  const [name, setName] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+
+  const create = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setIsCreating(true)
+    const result = await createDashboard(name)
+    setIsCreating(false)
+
+    if (result.error || !result.data) {
+      showError(result.error ?? 'Unexpected error creating dashboard')
+      return
+    }
+    router.push(`/app/dashboards/${result.data.id}`)
+  }
+
+  const remove = async (id: string) => {
+    const result = await deleteDashboard(id)
+    if (result.error) {
+      showError(result.error)
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    router.refresh()
+  }
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="text-lg font-semibold">Dashboards</h1>
+      </nav>
+
+      <div className="container mx-auto max-w-4xl px-4 pb-6 space-y-4">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <form onSubmit={create} className="flex max-w-md gap-2">
+          <Input
+            placeholder="New dashboard name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button type="submit" disabled={isCreating || !name.trim()}>
+            Create
+          </Button>
+        </form>
+
+        {dashboards.length ? (
+          dashboards.map((dashboard) => (
+            <Card key={dashboard.id}>
+              <CardHeader className="flex flex-row items-start gap-2 space-y-0">
+                <div className="flex-1 space-y-1">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Link
+                      href={`/app/dashboards/${dashboard.id}`}
+                      className="hover:underline"
+                    >
+                      {dashboard.name}
+                    </Link>
+                    {!dashboard.isOwner ? (
+                      <Badge variant="outline">Shared with you</Badge>
+                    ) : (
+                      dashboard.isShared && (
+                        <Badge variant="secondary">Shared</Badge>
+                      )
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    {dashboard.description ||
+                      `${dashboard.tiles.length} tiles`}
+                  </CardDescription>
+                </div>
+                {dashboard.isOwner && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    onClick={() => remove(dashboard.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </CardHeader>
+            </Card>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">No dashboards yet.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowLeft, ArrowRight, RefreshCw, Trash2 } from 'lucide-react'
+
+import { runDashboardTile } from '@/actions/dashboards'
+import { DynamicChart } from '@/components/dynamic-chart'
+import SqlResult from '@/components/sql-result'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Result } from '@/lib/chart'
+import {
+  TILE_TYPES,
+  TILE_WIDTHS,
+  type DashboardTile as Tile,
+} from '@/lib/dashboards'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+import { toNumber } from '@/lib/result-columns'
+import type { SavedQuery } from '@/lib/saved-queries'
+
+// Static class names so Tailwind keeps them
+const widthClasses = {
+  1: 'md:col-span-1',
+  2: 'md:col-span-2',
+  3: 'md:col-span-3',
+}
+
+const tileTypeLabels = { table: 'Table', chart: 'Chart', kpi: 'Number' }
+
+// First value of the first row, the usual shape of a "total" query
+function Kpi({ result }: { result: LimitedQueryResult }) {
+  const field = result.fields[0]
+  const row: Record<string, unknown> | undefined = result.rows[0]
+  const value = field && row ? row[field.name] : null
+  const number = toNumber(value)
+
+  return (
+    <div className="flex flex-col items-center justify-center py-6">
+      <span className="text-4xl font-semibold tabular-nums">
+        {value === null || value === undefined
+          ? '-'
+          : number !== null
+            ? number.toLocaleString()
+            : String(value)}
+      </span>
+      {field && (
+        <span className="text-sm text-muted-foreground">{field.name}</span>
+      )}
+    </div>
+  )
+}
+
+export function DashboardTile({
+  dashboardId,
+  tile,
+  query,
+  values,
+  refreshKey,
+  connectionProfileId,
+  isSaved,
+  isEditing,
+  onChange,
+  onMove,
+  onRemove,
+}: {
+  dashboardId: string
+  tile: Tile
+  query: SavedQuery | undefined
+  values: Record<string, string>
+  refreshKey: number
+  connectionProfileId: string
+  isSaved: boolean
+  isEditing: boolean
+  onChange: (tile: Tile) => void
+  onMove: (direction: -1 | 1) => void
+  onRemove: () => void
+}) {
+  const [result, setResult] = useState<LimitedQueryResult | string>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [tileRefreshKey, setTileRefreshKey] = useState(0)
+
+  const missing = (query?.parameters ?? []).filter(
+    (parameter) => !values[parameter.name]
+  )
+  const canRun =
+    !!query && isSaved && !!connectionProfileId && missing.length === 0
+
+  // Only the values of this tile's own parameters trigger a new run
+  const tileValues = JSON.stringify(
+    Object.fromEntries(
+      (query?.parameters ?? []).map((p) => [p.name, values[p.name]])
+    )
+  )
+
+  useEffect(() => {
+    if (!canRun) return
+
+    let cancelled = false
+    setIsLoading(true)
+    runDashboardTile(
+      dashboardId,
+      tile.id,
+      connectionProfileId,
+      JSON.parse(tileValues)
+    ).then((response) => {
+      if (cancelled) return
+      try {
+        setResult(JSON.parse(response))
+      } catch {
+        setResult(response)
+      }
+      setIsLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [
+    canRun,
+    dashboardId,
+    tile.id,
+    connectionProfileId,
+    tileValues,
+    refreshKey,
+    tileRefreshKey,
+  ])
+
+  const renderResult = () => {
+    if (!query) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          The saved query of this tile no longer exists.
+        </p>
+      )
+    }
+    if (!isSaved) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          Save the dashboard to run this tile.
+        </p>
+      )
+    }
+    if (missing.length) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          Pick {missing.map((parameter) => parameter.label).join(', ')} to
+          run this tile.
+        </p>
+      )
+    }
+    if (isLoading) {
+      return (
+        <div className="w-full h-32 bg-primary opacity-20 rounded-md animate-pulse" />
+      )
+    }
+    if (!result) return null
+    if (typeof result === 'string') {
+      return <SqlResult result={result} />
+    }
+
+    switch (tile.type) {
+      case 'kpi':
+        return <Kpi result={result} />
+      case 'chart':
+        return query.chartConfig ? (
+          <DynamicChart
+            chartData={result.rows as Result[]}
+            chartConfig={query.chartConfig}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This query was saved without a chart, use a table tile instead.
+          </p>
+        )
+      default:
+        return <SqlResult result={result} />
+    }
+  }
+
+  return (
+    <Card className={`min-w-0 ${widthClasses[tile.width]}`}>
+      <CardHeader className="flex flex-row items-center gap-2 space-y-0 p-4">
+        {isEditing ? (
+          <Input
+            value={tile.title}
+            placeholder={query?.title}
+            onChange={(e) => onChange({ ...tile, title: e.target.value })}
+          />
+        ) : (
+          <CardTitle className="flex-1 text-base">
+            {tile.title || query?.title}
+          </CardTitle>
+        )}
+        {!isEditing && (
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Refresh"
+            disabled={!canRun || isLoading}
+            onClick={() => setTileRefreshKey((key) => key + 1)}
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        )}
+      </CardHeader>
+      {isEditing && (
+        <div className="flex flex-wrap items-center gap-2 px-4 pb-4">
+          <Select
+            value={tile.type}
+            onValueChange={(type) =>
+              onChange({ ...tile, type: type as Tile['type'] })
+            }
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TILE_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {tileTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(tile.width)}
+            onValueChange={(width) =>
+              onChange({ ...tile, width: Number(width) as Tile['width'] })
+            }
+          >
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TILE_WIDTHS.map((width) => (
+                <SelectItem key={width} value={String(width)}>
+                  {width} / 3 wide
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Move left"
+            onClick={() => onMove(-1)}
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Move right"
+            onClick={() => onMove(1)}
+          >
+            <ArrowRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Remove tile"
+            onClick={onRemove}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <CardContent className="p-4 pt-0">{renderResult()}</CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,347 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Pencil, Plus, RefreshCw } from 'lucide-react'
+
+import {
+  getDashboardFilterOptions,
+  updateDashboard,
+} from '@/actions/dashboards'
+import { getSavedQueries } from '@/actions/saved-queries'
+import { DashboardTile } from '@/components/dashboard-tile'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import { Textarea } from '@/components/ui/textarea'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import {
+  dashboardFilters,
+  type Dashboard,
+  type DashboardTile as Tile,
+} from '@/lib/dashboards'
+import type { ParameterOption, SavedQuery } from '@/lib/saved-queries'
+
+export function DashboardView({
+  dashboard,
+  queries: initialQueries,
+}: {
+  dashboard: Dashboard
+  queries: Record<string, SavedQuery>
+}) {
+  const router = useRouter()
+  const { value } = useAppLocalStorage()
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [name, setName] = useState(dashboard.name)
+  const [description, setDescription] = useState(dashboard.description ?? '')
+  const [isShared, setIsShared] = useState(dashboard.isShared)
+  const [tiles, setTiles] = useState(dashboard.tiles)
+  const [queries, setQueries] = useState(initialQueries)
+  const [ownQueries, setOwnQueries] = useState<SavedQuery[]>([])
+  const [options, setOptions] = useState<Record<string, ParameterOption[]>>(
+    {}
+  )
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [appliedValues, setAppliedValues] = useState<Record<string, string>>(
+    {}
+  )
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const savedTileIds = useMemo(
+    () => new Set(dashboard.tiles.map((tile) => tile.id)),
+    [dashboard.tiles]
+  )
+
+  const filters = useMemo(
+    () =>
+      dashboardFilters(
+        tiles
+          .map((tile) => queries[tile.savedQueryId])
+          .filter((query): query is SavedQuery => !!query)
+      ),
+    [tiles, queries]
+  )
+
+  useEffect(() => {
+    if (!value.connectionProfileId) return
+
+    getDashboardFilterOptions(dashboard.id, value.connectionProfileId).then(
+      (result) => {
+        if (result.error) {
+          toast({
+            title: 'Error',
+            description: result.error,
+            variant: 'destructive',
+          })
+          return
+        }
+        setOptions(result.data ?? {})
+      }
+    )
+  }, [dashboard.id, dashboard.tiles, value.connectionProfileId])
+
+  const startEditing = async () => {
+    setIsEditing(true)
+    const result = await getSavedQueries()
+    if (result.data) {
+      setOwnQueries(result.data)
+      setQueries((current) => ({
+        ...current,
+        ...Object.fromEntries(result.data.map((query) => [query.id, query])),
+      }))
+    }
+  }
+
+  const addTile = (savedQueryId: string) => {
+    const query = queries[savedQueryId]
+    setTiles((current) => [
+      ...current,
+      {
+        id: crypto.randomUUID(),
+        savedQueryId,
+        type: query?.chartConfig ? 'chart' : 'table',
+        title: '',
+        width: 1,
+      },
+    ])
+  }
+
+  const updateTile = (tile: Tile) =>
+    setTiles((current) => current.map((t) => (t.id === tile.id ? tile : t)))
+
+  const moveTile = (index: number, direction: -1 | 1) =>
+    setTiles((current) => {
+      const target = index + direction
+      if (target < 0 || target >= current.length) return current
+      const next = [...current]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+
+  const save = async () => {
+    setIsSaving(true)
+    const result = await updateDashboard(dashboard.id, {
+      name,
+      description,
+      tiles,
+      isShared,
+    })
+    setIsSaving(false)
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    setIsEditing(false)
+    router.refresh()
+  }
+
+  const cancel = () => {
+    setName(dashboard.name)
+    setDescription(dashboard.description ?? '')
+    setIsShared(dashboard.isShared)
+    setTiles(dashboard.tiles)
+    setIsEditing(false)
+  }
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/app/dashboards" title="Dashboards">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <h1 className="flex-1 text-lg font-semibold">{dashboard.name}</h1>
+        {dashboard.isShared && <Badge variant="secondary">Shared</Badge>}
+        {!isEditing && (
+          <Button
+            variant="outline"
+            className="flex items-center gap-2"
+            onClick={() => setRefreshKey((key) => key + 1)}
+          >
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+        )}
+        {dashboard.isOwner &&
+          (isEditing ? (
+            <>
+              <Button variant="ghost" onClick={cancel} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={save} disabled={isSaving}>
+                Save
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="outline"
+              className="flex items-center gap-2"
+              onClick={startEditing}
+            >
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+          ))}
+      </nav>
+
+      <div className="w-full px-4 pb-6 space-y-4">
+        {isEditing ? (
+          <div className="grid gap-4 rounded-md border p-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="dashboardName">Name</Label>
+              <Input
+                id="dashboardName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={isShared}
+                  onCheckedChange={(checked) => setIsShared(checked === true)}
+                />
+                Share with users whose access covers yours
+              </label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dashboardDescription">Description</Label>
+              <Textarea
+                id="dashboardDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Add a tile</Label>
+              <Select value="" onValueChange={addTile}>
+                <SelectTrigger className="max-w-md">
+                  <Plus className="h-4 w-4" />
+                  <SelectValue placeholder="Pick a saved query" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ownQueries.map((query) => (
+                    <SelectItem key={query.id} value={query.id}>
+                      {query.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          dashboard.description && (
+            <p className="text-sm text-muted-foreground">
+              {dashboard.description}
+            </p>
+          )
+        )}
+
+        {!value.connectionProfileId && (
+          <p className="text-sm text-muted-foreground">
+            Connect a database to load this dashboard.
+          </p>
+        )}
+
+        {filters.length > 0 && (
+          <form
+            className="flex flex-wrap items-end gap-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              setAppliedValues(values)
+            }}
+          >
+            {filters.map((filter) => (
+              <div key={filter.name} className="space-y-2 min-w-48">
+                <Label htmlFor={`filter-${filter.name}`}>{filter.label}</Label>
+                {options[filter.name] ? (
+                  <Select
+                    value={values[filter.name] ?? ''}
+                    onValueChange={(selected) =>
+                      setValues((current) => ({
+                        ...current,
+                        [filter.name]: selected,
+                      }))
+                    }
+                  >
+                    <SelectTrigger id={`filter-${filter.name}`}>
+                      <SelectValue placeholder={`Pick ${filter.label}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {options[filter.name].map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={`filter-${filter.name}`}
+                    type={filter.type}
+                    value={values[filter.name] ?? ''}
+                    onChange={(e) =>
+                      setValues((current) => ({
+                        ...current,
+                        [filter.name]: e.target.value,
+                      }))
+                    }
+                  />
+                )}
+              </div>
+            ))}
+            <Button type="submit">Apply filters</Button>
+          </form>
+        )}
+
+        {tiles.length ? (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            {tiles.map((tile, index) => (
+              <DashboardTile
+                key={tile.id}
+                dashboardId={dashboard.id}
+                tile={tile}
+                query={queries[tile.savedQueryId]}
+                values={appliedValues}
+                refreshKey={refreshKey}
+                connectionProfileId={value.connectionProfileId}
+                isSaved={savedTileIds.has(tile.id)}
+                isEditing={isEditing}
+                onChange={updateTile}
+                onMove={(direction) => moveTile(index, direction)}
+                onRemove={() =>
+                  setTiles((current) => current.filter((t) => t.id !== tile.id))
+                }
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {dashboard.isOwner
+              ? 'No tiles yet. Edit the dashboard to add saved queries.'
+              : 'This dashboard has no tiles yet.'}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useId } from 'react'
+import { Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { toast } from '@/hooks/use-toast'
+import type { ExportFormat } from '@/lib/result-export'
+
+const formatLabels: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  json: 'JSON',
+  parquet: 'Parquet',
+}
+
+// The query is run again on the server, so the file is not limited to the
+// rows loaded in the browser
+export function ExportMenu({
+  sql,
+  connectionProfileId,
+}: {
+  sql: string
+  connectionProfileId: string
+}) {
+  const frameName = useId()
+
+  // A form posted into a hidden frame lets the browser stream the file to
+  // disk instead of holding it in memory. A successful download leaves the
+  // frame alone, an error replaces its content with the message.
+  const download = (format: ExportFormat) => {
+    const form = document.createElement('form')
+    form.method = 'POST'
+    form.action = '/api/export'
+    form.target = frameName
+    for (const [name, value] of Object.entries({
+      sql,
+      connectionProfileId,
+      format,
+    })) {
+      const input = document.createElement('input')
+      input.type = 'hidden'
+      input.name = name
+      input.value = value
+      form.append(input)
+    }
+    document.body.append(form)
+    form.submit()
+    form.remove()
+
+    toast({
+      title: 'Export started',
+      description: 'The download begins once the query returns its first rows',
+    })
+  }
+
+  const showError = (frame: HTMLIFrameElement) => {
+    const message = frame.contentDocument?.body?.textContent
+    if (message) {
+      toast({
+        title: 'Error exporting results',
+        description: message,
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            size={'sm'}
+            variant={'outline'}
+            className="flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {Object.entries(formatLabels).map(([format, label]) => (
+            <DropdownMenuItem
+              key={format}
+              onClick={() => download(format as ExportFormat)}
+            >
+              {label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <iframe
+        name={frameName}
+        title="Export download"
+        className="hidden"
+        onLoad={(event) => showError(event.currentTarget)}
+      />
+    </>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { ChevronLeft, ChevronRight, Layers } from 'lucide-react'
+import { useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip'
+import type { ContextAnnotation } from '@/lib/chat-context'
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+
+/** Shows "2 / 3" and moves between the alternatives of a message */
+export function BranchSwitcher({
+  siblingIds,
+  messageId,
+  isDisabled,
+  onSelect,
+}: {
+  siblingIds: string[]
+  messageId: string
+  isDisabled: boolean
+  onSelect: (siblingId: string) => void
+}) {
+  const index = siblingIds.indexOf(messageId)
+  if (siblingIds.length < 2 || index === -1) {
+    return null
+  }
+
+  return (
+    <div className="flex items-center gap-1 text-sm text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        title="Previous version"
+        disabled={isDisabled || index === 0}
+        onClick={() => onSelect(siblingIds[index - 1])}
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1} / {siblingIds.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        title="Next version"
+        disabled={isDisabled || index === siblingIds.length - 1}
+        onClick={() => onSelect(siblingIds[index + 1])}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+export function EditMessageForm({
+  content,
+  onSubmit,
+  onCancel,
+}: {
+  content: string
+  onSubmit: (content: string) => void
+  onCancel: () => void
+}) {
+  const [value, setValue] = useState(content)
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (value.trim()) {
+          onSubmit(value.trim())
+        }
+      }}
+    >
+      <Textarea
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            onCancel()
+          }
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!value.trim()}>
+          Send
+        </Button>
+      </div>
+    </form>
+  )
+}
+
+/** Shown on replies whose earlier messages were shortened or summarized */
+export function ContextIndicator({
+  annotation,
+}: {
+  annotation: ContextAnnotation | undefined
+}) {
+  if (
+    !annotation ||
+    (!annotation.summarizedMessages && !annotation.elidedToolResults)
+  ) {
+    return null
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip delayDuration={100}>
+        <TooltipTrigger asChild>
+          <span className="flex items-center gap-1 px-1 text-xs text-muted-foreground">
+            <Layers className="h-3 w-3" />
+            Context compacted
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          {annotation.summarizedMessages > 0 && (
+            <p>{annotation.summarizedMessages} earlier messages summarized</p>
+          )}
+          {annotation.elidedToolResults > 0 && (
+            <p>{annotation.elidedToolResults} old tool results shortened</p>
+          )}
+          <p>
+            About {formatTokens(annotation.sentTokens)} of{' '}
+            {formatTokens(annotation.threadTokens)} tokens sent
+          </p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
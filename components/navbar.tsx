@@ -1,20 +1,28 @@
 'use client'
 
 import Link from 'next/link'
+import { useState } from 'react'
 import { logoutAction } from '@/actions/logout'
+import { refreshSchema } from '@/actions/refresh-schema'
 import { SubmitButton } from '@/components/submit-button'
 import { Button } from '@/components/ui/button'
 import type { User } from '@supabase/supabase-js'
 import { AnimatePresence } from 'motion/react'
 import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { MODEL_POLICY } from '@/config/models'
 import { useAppState } from '@/state'
 import { SidebarTrigger } from './ui/sidebar'
 import { ChatName } from './chat-name'
+import { ChatExportMenu } from './chat-export-menu'
+import { ShareSheet } from './share-sheet'
+import { Sheet } from './ui/sheet'
 import { useToast } from '../hooks/use-toast'
 export default function Navbar({ user }: { user: User }) {
   const { value, setValue } = useAppLocalStorage()
   const chat = useAppState((s) => s.chat)
   const { toast } = useToast()
+  const [isRefreshingSchema, setIsRefreshingSchema] = useState(false)
+  const [isShareOpen, setIsShareOpen] = useState(false)
 
   return (
     <AnimatePresence>
@@ -46,14 +54,47 @@ export default function Navbar({ user }: { user: User }) {
             >
               Feedback
             </Button>
-            {value.connectionString && (
+            {value.connectionProfileId && (
               <AnimatePresence>
+                <Button
+                  variant="ghost"
+                  disabled={isRefreshingSchema}
+                  onClick={async () => {
+                    setIsRefreshingSchema(true)
+                    const result = await refreshSchema(
+                      value.connectionProfileId
+                    )
+                    setIsRefreshingSchema(false)
+                    toast(
+                      result.error
+                        ? {
+                            title: 'Error',
+                            description: result.error,
+                            variant: 'destructive',
+                          }
+                        : { title: 'Done!', description: result.success }
+                    )
+                  }}
+                >
+                  Refresh Schema
+                </Button>
+                {chat && (
+                  <>
+                    <ChatExportMenu chatId={chat.id} />
+                    <Button
+                      variant="ghost"
+                      onClick={() => setIsShareOpen(true)}
+                    >
+                      Share
+                    </Button>
+                  </>
+                )}
                 <Button
                   variant="secondary"
                   onClick={() =>
                     setValue((prev) => ({
                       ...prev,
-                      connectionString: '',
+                      connectionProfileId: '',
                     }))
                   }
                 >
@@ -64,9 +105,10 @@ export default function Navbar({ user }: { user: User }) {
             <form
               action={async () => {
                 setValue({
-                  connectionString: '',
+                  connectionProfileId: '',
                   openaiApiKey: '',
-                  model: 'gpt-4o-mini',
+                  anthropicApiKey: '',
+                  model: MODEL_POLICY.defaultModel,
                 })
 
                 await logoutAction()
@@ -83,6 +125,10 @@ export default function Navbar({ user }: { user: User }) {
           </Link>
         )}
       </nav>
+
+      <Sheet open={isShareOpen} onOpenChange={setIsShareOpen}>
+        {isShareOpen && chat && <ShareSheet chatId={chat.id} />}
+      </Sheet>
     </AnimatePresence>
   )
 }
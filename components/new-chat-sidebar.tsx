@@ -4,15 +4,25 @@ import { Button } from './ui/button'
 
 import { useAppState } from '../state'
 import { v4 } from 'uuid'
+import { EMPTY_CHAT_TREE } from '../lib/chat-branches'
+import { usePathname, useRouter } from 'next/navigation'
 
 export function NewChatSidebar() {
   const setChat = useAppState((state) => state.setChat)
+  const pathname = usePathname()
+  const router = useRouter()
 
   const handleClick = () => {
+    // Outside the chat (e.g. the admin console) a real navigation is needed
+    if (pathname.startsWith('/app/admin')) {
+      router.push('/app')
+      return
+    }
     setChat({
       id: v4(),
       name: 'New Chat',
       messages: [],
+      messageTree: EMPTY_CHAT_TREE,
     })
     if (typeof window !== 'undefined') {
       try {
@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+
+import { createChatFolder } from '@/actions/chat-folders'
+import { organizeChat } from '@/actions/organize-chat'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { toast } from '@/hooks/use-toast'
+import type { ChatListItem } from '@/lib/chats'
+import { useAppState } from '@/state'
+
+const NO_FOLDER = 'none'
+
+const showError = (error: string) =>
+  toast({
+    title: 'Error',
+    description: error,
+    variant: 'destructive',
+  })
+
+export function OrganizeChatSheet({
+  chat,
+  onClose,
+}: {
+  chat: ChatListItem
+  onClose: () => void
+}) {
+  const { chatFolders, loadChatFolders, loadChats } = useAppState()
+  const [folderId, setFolderId] = useState(chat.folder_id ?? NO_FOLDER)
+  const [newFolder, setNewFolder] = useState('')
+  const [tags, setTags] = useState(chat.tags.join(', '))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const addFolder = async () => {
+    const result = await createChatFolder(newFolder)
+    if (result.error || !result.data) {
+      showError(result.error ?? 'Unexpected error creating folder')
+      return
+    }
+    await loadChatFolders()
+    setFolderId(result.data.id)
+    setNewFolder('')
+  }
+
+  const save = async () => {
+    setIsSaving(true)
+    const result = await organizeChat(chat.id, {
+      folderId: folderId === NO_FOLDER ? null : folderId,
+      tags: tags
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    })
+    setIsSaving(false)
+
+    if (result.error) {
+      showError(result.error)
+      return
+    }
+    await loadChats({ reset: true })
+    onClose()
+  }
+
+  return (
+    <SheetContent className="flex flex-col gap-4">
+      <SheetHeader>
+        <SheetTitle>Organize chat</SheetTitle>
+        <SheetDescription>{chat.name}</SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="chatFolder">Folder</Label>
+        <Select value={folderId} onValueChange={setFolderId}>
+          <SelectTrigger id="chatFolder">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_FOLDER}>No folder</SelectItem>
+            {chatFolders.map((folder) => (
+              <SelectItem key={folder.id} value={folder.id}>
+                {folder.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            addFolder()
+          }}
+        >
+          <Input
+            placeholder="New folder"
+            value={newFolder}
+            onChange={(e) => setNewFolder(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={!newFolder.trim()}>
+            Add
+          </Button>
+        </form>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="chatTags">Tags</Label>
+        <Input
+          id="chatTags"
+          placeholder="attendance, weekly"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+      </div>
+
+      <SheetFooter className="mt-auto gap-2">
+        <Button onClick={save} disabled={isSaving}>
+          Save
+        </Button>
+      </SheetFooter>
+    </SheetContent>
+  )
+}
@@ -0,0 +1,474 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+import {
+  type QueryAuditPage,
+  type ScopeOptions,
+  getQueryAudit,
+  getScopeOptions,
+} from '@/actions/admin'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import {
+  EMPTY_QUERY_AUDIT_FILTERS,
+  QUERY_AUDIT_OUTCOMES,
+  QUERY_AUDIT_SOURCE_LABELS,
+  type QueryAuditEntry,
+  type QueryAuditFilters,
+  type QueryAuditOutcome,
+} from '@/lib/query-audit'
+
+// Select items cannot have an empty value
+const ANY = 'any'
+
+const roleLabels = {
+  super_admin: 'Super admin',
+  diocese_manager: 'Diocese manager',
+  school_manager: 'School manager',
+}
+
+const outcomeLabels: Record<QueryAuditOutcome, string> = {
+  ok: 'Ran',
+  rejected: 'Blocked',
+  error: 'Failed',
+}
+
+const outcomeVariants = {
+  ok: 'secondary',
+  rejected: 'destructive',
+  error: 'outline',
+} as const
+
+// Date inputs are local days, the log is filtered on timestamps
+const dayStart = (value: string) =>
+  value ? new Date(`${value}T00:00:00`).toISOString() : null
+const dayEnd = (value: string) =>
+  value ? new Date(`${value}T23:59:59.999`).toISOString() : null
+
+function FilterSelect({
+  label,
+  value,
+  onChange,
+  options,
+}: {
+  label: string
+  value: string | null
+  onChange: (value: string | null) => void
+  options: { value: string; label: string }[]
+}) {
+  return (
+    <div className="space-y-1">
+      <Label>{label}</Label>
+      <Select
+        value={value ?? ANY}
+        onValueChange={(next) => onChange(next === ANY ? null : next)}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+function EntryDetails({
+  entry,
+  email,
+  dioceseName,
+}: {
+  entry: QueryAuditEntry
+  email: string
+  dioceseName: (id: number) => string
+}) {
+  const rows = [
+    ['Time', new Date(entry.createdAt).toLocaleString()],
+    ['User', email || entry.userId],
+    ['Role', roleLabels[entry.scope.role] ?? entry.scope.role],
+    ['Dioceses', entry.scope.dioceseIds.map(dioceseName).join(', ')],
+    ['Testing centers', entry.scope.testingCenterIds.join(', ')],
+    [
+      'Source',
+      `${QUERY_AUDIT_SOURCE_LABELS[entry.source]}${entry.tool ? ` · ${entry.tool}` : ''}`,
+    ],
+    ['Outcome', outcomeLabels[entry.outcome]],
+    ['Rows', entry.rowCount?.toLocaleString() ?? ''],
+    ['Duration', `${entry.durationMs} ms`],
+    ['Blocked because', entry.rejectionReason ?? ''],
+    ['Error', entry.error ?? ''],
+    ['Connection', entry.connectionProfileId ?? ''],
+    ['Chat', entry.chatId ?? ''],
+    ['Message', entry.messageId ?? ''],
+    ['SQL hash', entry.sqlHash ?? ''],
+  ].filter(([, value]) => value)
+
+  return (
+    <SheetContent className="flex flex-col gap-4 overflow-y-auto sm:max-w-xl">
+      <SheetHeader>
+        <SheetTitle>Query #{entry.id}</SheetTitle>
+        <SheetDescription>{email || entry.userId}</SheetDescription>
+      </SheetHeader>
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="break-all whitespace-pre-wrap">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {entry.sql && (
+        <pre className="rounded-md border bg-muted p-3 text-xs whitespace-pre-wrap break-all">
+          {entry.sql}
+        </pre>
+      )}
+    </SheetContent>
+  )
+}
+
+export function QueryAuditLog({
+  initial,
+  error,
+}: {
+  initial: QueryAuditPage | null
+  error?: string
+}) {
+  const { value } = useAppLocalStorage()
+  const [options, setOptions] = useState<ScopeOptions | null>(null)
+  const [filters, setFilters] = useState<QueryAuditFilters>(
+    EMPTY_QUERY_AUDIT_FILTERS
+  )
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(initial)
+  // beforeId of every page shown so far, for going back
+  const [cursors, setCursors] = useState<(number | null)[]>([null])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [selected, setSelected] = useState<QueryAuditEntry | null>(null)
+
+  useEffect(() => {
+    if (!value.connectionProfileId) return
+
+    getScopeOptions(value.connectionProfileId).then((result) => {
+      setOptions(result.data ?? null)
+    })
+  }, [value.connectionProfileId])
+
+  const load = useCallback(
+    async (next: QueryAuditFilters, beforeId: number | null) => {
+      setIsLoading(true)
+      const result = await getQueryAudit(next, beforeId)
+      setIsLoading(false)
+
+      if (result.error) {
+        toast({
+          title: 'Error',
+          description: result.error,
+          variant: 'destructive',
+        })
+        return false
+      }
+      setPage(result.data ?? null)
+      return true
+    },
+    []
+  )
+
+  const applyFilters = async (changes: Partial<QueryAuditFilters>) => {
+    const next = { ...filters, ...changes }
+    setFilters(next)
+    if (await load(next, null)) {
+      setCursors([null])
+    }
+  }
+
+  const goTo = async (index: number, beforeId: number | null) => {
+    if (await load(filters, beforeId)) {
+      setCursors((previous) => [...previous.slice(0, index), beforeId])
+    }
+  }
+
+  const exportCsv = async () => {
+    setIsExporting(true)
+    try {
+      const response = await fetch('/api/query-audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filters }),
+      })
+      if (!response.ok) {
+        throw new Error(await response.text())
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download =
+        response.headers
+          .get('Content-Disposition')
+          ?.match(/filename="(.+)"/)?.[1] ?? 'query-audit.csv'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      toast({
+        title: 'Error exporting audit log',
+        description:
+          error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: 'destructive',
+      })
+    }
+    setIsExporting(false)
+  }
+
+  const emails = page?.emails ?? initial?.emails ?? {}
+  const dioceseName = (id: number) =>
+    options?.dioceses.find((diocese) => diocese.id === id)?.name ?? `#${id}`
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="flex-1 text-lg font-semibold">Query audit</h1>
+        <Button variant="ghost" onClick={exportCsv} disabled={isExporting}>
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </nav>
+
+      <div className="container mx-auto max-w-7xl px-4 pb-6 space-y-4">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value)
+                applyFilters({ from: dayStart(e.target.value) })
+              }}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={to}
+              onChange={(e) => {
+                setTo(e.target.value)
+                applyFilters({ to: dayEnd(e.target.value) })
+              }}
+            />
+          </div>
+          <FilterSelect
+            label="User"
+            value={filters.userId}
+            onChange={(userId) => applyFilters({ userId })}
+            options={Object.entries(emails)
+              .map(([id, email]) => ({ value: id, label: email || id }))
+              .sort((a, b) => a.label.localeCompare(b.label))}
+          />
+          <FilterSelect
+            label="Diocese"
+            value={filters.dioceseId?.toString() ?? null}
+            onChange={(id) =>
+              applyFilters({ dioceseId: id === null ? null : Number(id) })
+            }
+            options={(options?.dioceses ?? []).map((diocese) => ({
+              value: diocese.id.toString(),
+              label: diocese.name,
+            }))}
+          />
+          <FilterSelect
+            label="Source"
+            value={filters.source}
+            onChange={(source) =>
+              applyFilters({ source: source as QueryAuditFilters['source'] })
+            }
+            options={Object.entries(QUERY_AUDIT_SOURCE_LABELS).map(
+              ([source, label]) => ({ value: source, label })
+            )}
+          />
+          <FilterSelect
+            label="Outcome"
+            value={filters.outcome}
+            onChange={(outcome) =>
+              applyFilters({ outcome: outcome as QueryAuditOutcome | null })
+            }
+            options={QUERY_AUDIT_OUTCOMES.map((outcome) => ({
+              value: outcome,
+              label: outcomeLabels[outcome],
+            }))}
+          />
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              applyFilters({ search })
+            }}
+          >
+            <Input
+              placeholder="SQL text or hash"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-64"
+            />
+            <Button type="submit" variant="secondary" disabled={isLoading}>
+              Search
+            </Button>
+          </form>
+        </div>
+
+        <div className="rounded-md border w-full">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead>SQL</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {page?.entries.length ? (
+                page.entries.map((entry) => (
+                  <TableRow
+                    key={entry.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelected(entry)}
+                  >
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      {emails[entry.userId] || entry.userId}
+                    </TableCell>
+                    <TableCell>
+                      {roleLabels[entry.scope.role] ?? entry.scope.role}
+                      {entry.scope.dioceseIds.length > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {entry.scope.dioceseIds.map(dioceseName).join(', ')}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {QUERY_AUDIT_SOURCE_LABELS[entry.source]}
+                      {entry.tool && (
+                        <div className="text-xs text-muted-foreground">
+                          {entry.tool}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={outcomeVariants[entry.outcome]}>
+                        {outcomeLabels[entry.outcome]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {entry.rowCount?.toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {entry.durationMs} ms
+                    </TableCell>
+                    <TableCell className="max-w-md truncate font-mono text-xs">
+                      {entry.sql}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-muted-foreground">
+                    No queries match these filters.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="flex-1 text-sm text-muted-foreground">
+            {cursors.length === 1 && page
+              ? `${page.total.toLocaleString()} queries`
+              : `Page ${cursors.length}`}
+          </span>
+          <Button
+            variant="outline"
+            disabled={isLoading || cursors.length === 1}
+            onClick={() =>
+              goTo(cursors.length - 2, cursors[cursors.length - 2])
+            }
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            disabled={isLoading || !page?.nextBeforeId}
+            onClick={() => goTo(cursors.length, page?.nextBeforeId ?? null)}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+
+      <Sheet
+        open={!!selected}
+        onOpenChange={(open) => {
+          if (!open) setSelected(null)
+        }}
+      >
+        {selected && (
+          <EntryDetails
+            entry={selected}
+            email={emails[selected.userId] ?? ''}
+            dioceseName={dioceseName}
+          />
+        )}
+      </Sheet>
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import type { ConnectionProfile } from '@/actions/connection-profiles'
+import { createReportSchedule } from '@/actions/report-schedules'
+import { REPORT_CONFIG } from '@/config/reports'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Textarea } from '@/components/ui/textarea'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import { dashboardFilters, type Dashboard } from '@/lib/dashboards'
+import {
+  ATTACHMENT_FORMATS,
+  nextRunAt,
+  type AttachmentFormat,
+} from '@/lib/report-schedule'
+import type { SavedQuery } from '@/lib/saved-queries'
+
+// Targets are "query:<id>" or "dashboard:<id>" so one Select covers both
+const parseTarget = (target: string) => {
+  const [kind, id] = target.split(':')
+  return {
+    savedQueryId: kind === 'query' ? id : null,
+    dashboardId: kind === 'dashboard' ? id : null,
+  }
+}
+
+export function ReportScheduleSheet({
+  queries,
+  dashboards,
+  profiles,
+  onClose,
+}: {
+  queries: SavedQuery[]
+  dashboards: Dashboard[]
+  profiles: ConnectionProfile[]
+  onClose: () => void
+}) {
+  const router = useRouter()
+  const { value } = useAppLocalStorage()
+  const [name, setName] = useState('')
+  const [target, setTarget] = useState('')
+  const [connectionProfileId, setConnectionProfileId] = useState(
+    value.connectionProfileId
+  )
+  const [cron, setCron] = useState(REPORT_CONFIG.schedulePresets[0].cron)
+  const [timeZone, setTimeZone] = useState(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone
+  )
+  const [recipients, setRecipients] = useState('')
+  const [attachmentFormat, setAttachmentFormat] =
+    useState<AttachmentFormat>('csv')
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const parameters = useMemo(() => {
+    const { savedQueryId, dashboardId } = parseTarget(target)
+    if (savedQueryId) {
+      return (
+        queries.find((query) => query.id === savedQueryId)?.parameters ?? []
+      )
+    }
+    const dashboard = dashboards.find((d) => d.id === dashboardId)
+    return dashboardFilters(
+      (dashboard?.tiles ?? [])
+        .map((tile) => queries.find((query) => query.id === tile.savedQueryId))
+        .filter((query): query is SavedQuery => !!query)
+    )
+  }, [target, queries, dashboards])
+
+  const nextRun = nextRunAt(cron, timeZone)
+
+  const save = async () => {
+    setIsSaving(true)
+    const result = await createReportSchedule({
+      name,
+      ...parseTarget(target),
+      connectionProfileId,
+      cron,
+      timeZone,
+      recipients: recipients
+        .split(/[\s,;]+/)
+        .map((recipient) => recipient.trim())
+        .filter(Boolean),
+      attachmentFormat,
+      parameterValues: values,
+    })
+    setIsSaving(false)
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    router.refresh()
+    onClose()
+  }
+
+  return (
+    <SheetContent className="flex flex-col gap-4 overflow-y-auto sm:max-w-lg">
+      <SheetHeader>
+        <SheetTitle>Schedule a report</SheetTitle>
+        <SheetDescription>
+          The report runs with your access and is emailed with the results
+          attached.
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="reportName">Name</Label>
+        <Input
+          id="reportName"
+          placeholder="Weekly participation digest"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reportTarget">Report</Label>
+        <Select
+          value={target}
+          onValueChange={(selected) => {
+            setTarget(selected)
+            setValues({})
+          }}
+        >
+          <SelectTrigger id="reportTarget">
+            <SelectValue placeholder="Pick a saved query or dashboard" />
+          </SelectTrigger>
+          <SelectContent>
+            {dashboards.map((dashboard) => (
+              <SelectItem
+                key={dashboard.id}
+                value={`dashboard:${dashboard.id}`}
+              >
+                Dashboard: {dashboard.name}
+              </SelectItem>
+            ))}
+            {queries.map((query) => (
+              <SelectItem key={query.id} value={`query:${query.id}`}>
+                Query: {query.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {parameters.map((parameter) => (
+        <div key={parameter.name} className="space-y-2">
+          <Label htmlFor={`reportParameter-${parameter.name}`}>
+            {parameter.label}
+          </Label>
+          <Input
+            id={`reportParameter-${parameter.name}`}
+            type={parameter.type}
+            value={values[parameter.name] ?? ''}
+            onChange={(e) =>
+              setValues((current) => ({
+                ...current,
+                [parameter.name]: e.target.value,
+              }))
+            }
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label htmlFor="reportConnection">Connection</Label>
+        <Select
+          value={connectionProfileId}
+          onValueChange={setConnectionProfileId}
+        >
+          <SelectTrigger id="reportConnection">
+            <SelectValue placeholder="Pick a connection" />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reportCron">Schedule</Label>
+        <Select value="" onValueChange={setCron}>
+          <SelectTrigger>
+            <SelectValue placeholder="Pick a preset" />
+          </SelectTrigger>
+          <SelectContent>
+            {REPORT_CONFIG.schedulePresets.map((preset) => (
+              <SelectItem key={preset.cron} value={preset.cron}>
+                {preset.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Input
+            id="reportCron"
+            className="font-mono"
+            value={cron}
+            onChange={(e) => setCron(e.target.value)}
+          />
+          <Input
+            aria-label="Time zone"
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {nextRun
+            ? `Next run: ${nextRun.toLocaleString()}`
+            : 'Use five cron fields: minute, hour, day of month, month, day of week.'}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reportRecipients">Recipients</Label>
+        <Textarea
+          id="reportRecipients"
+          placeholder="manager@example.org, office@example.org"
+          value={recipients}
+          onChange={(e) => setRecipients(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reportFormat">Attachment</Label>
+        <Select
+          value={attachmentFormat}
+          onValueChange={(format) =>
+            setAttachmentFormat(format as AttachmentFormat)
+          }
+        >
+          <SelectTrigger id="reportFormat" className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ATTACHMENT_FORMATS.map((format) => (
+              <SelectItem key={format} value={format}>
+                {format.toUpperCase()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <SheetFooter className="mt-auto gap-2">
+        <Button onClick={save} disabled={isSaving}>
+          Schedule
+        </Button>
+      </SheetFooter>
+    </SheetContent>
+  )
+}
@@ -0,0 +1,255 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { History, Pause, Play, Send, Trash2 } from 'lucide-react'
+
+import type { ConnectionProfile } from '@/actions/connection-profiles'
+import {
+  deleteReportSchedule,
+  runReportScheduleNow,
+  setReportScheduleEnabled,
+} from '@/actions/report-schedules'
+import { ReportScheduleSheet } from '@/components/report-schedule-sheet'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Sheet } from '@/components/ui/sheet'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toast } from '@/hooks/use-toast'
+import type { Dashboard } from '@/lib/dashboards'
+import type { ReportRun, ReportSchedule } from '@/lib/report-schedule'
+import type { SavedQuery } from '@/lib/saved-queries'
+
+const statusVariants = {
+  running: 'secondary',
+  success: 'outline',
+  failed: 'destructive',
+} as const
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleString() : '-'
+
+const notify = (result: { error?: string; success?: string }) => {
+  if (result.error) {
+    toast({
+      title: 'Error',
+      description: result.error,
+      variant: 'destructive',
+    })
+    return
+  }
+  toast({ title: 'Done!', description: result.success })
+}
+
+function RunHistory({ runs }: { runs: ReportRun[] }) {
+  if (!runs.length) {
+    return <p className="text-sm text-muted-foreground">No runs yet.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Started</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Rows</TableHead>
+          <TableHead>Error</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {runs.map((run) => (
+          <TableRow key={run.id}>
+            <TableCell className="whitespace-nowrap">
+              {formatDate(run.startedAt)}
+            </TableCell>
+            <TableCell>
+              <Badge variant={statusVariants[run.status]}>{run.status}</Badge>
+            </TableCell>
+            <TableCell className="text-right tabular-nums">
+              {run.rowCount?.toLocaleString() ?? '-'}
+            </TableCell>
+            <TableCell className="text-red-500">{run.error}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function ReportSchedules({
+  schedules,
+  queries,
+  dashboards,
+  profiles,
+  error,
+}: {
+  schedules: ReportSchedule[]
+  queries: SavedQuery[]
+  dashboards: Dashboard[]
+  profiles: ConnectionProfile[]
+  error?: string
+}) {
+  const router = useRouter()
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [runningId, setRunningId] = useState<string | null>(null)
+
+  const targetName = (schedule: ReportSchedule) =>
+    schedule.dashboardId
+      ? `Dashboard: ${
+          dashboards.find((d) => d.id === schedule.dashboardId)?.name ?? '?'
+        }`
+      : `Query: ${
+          queries.find((q) => q.id === schedule.savedQueryId)?.title ?? '?'
+        }`
+
+  const act = async (
+    action: () => Promise<{ error?: string; success?: string }>
+  ) => {
+    notify(await action())
+    router.refresh()
+  }
+
+  const runNow = async (id: string) => {
+    setRunningId(id)
+    await act(() => runReportScheduleNow(id))
+    setRunningId(null)
+  }
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="flex-1 text-lg font-semibold">Scheduled reports</h1>
+        <Button onClick={() => setIsCreateOpen(true)}>New report</Button>
+      </nav>
+
+      <div className="container mx-auto max-w-4xl px-4 pb-6 space-y-4">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {schedules.length ? (
+          schedules.map((schedule) => {
+            const lastRun = schedule.runs[0]
+            return (
+              <Card key={schedule.id}>
+                <CardHeader className="flex flex-row items-start gap-2 space-y-0">
+                  <div className="flex-1 space-y-1">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      {schedule.name}
+                      {!schedule.isEnabled && (
+                        <Badge variant="secondary">Paused</Badge>
+                      )}
+                      {lastRun && (
+                        <Badge variant={statusVariants[lastRun.status]}>
+                          {lastRun.status}
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {targetName(schedule)} ·{' '}
+                      <span className="font-mono">{schedule.cron}</span> (
+                      {schedule.timeZone}) · {schedule.recipients.join(', ')}
+                    </CardDescription>
+                    <CardDescription>
+                      Next run:{' '}
+                      {schedule.isEnabled
+                        ? formatDate(schedule.nextRunAt)
+                        : '-'}{' '}
+                      · Last run: {formatDate(schedule.lastRunAt)}
+                    </CardDescription>
+                    {lastRun?.status === 'failed' && (
+                      <p className="text-sm text-red-500">{lastRun.error}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Send now"
+                    disabled={runningId === schedule.id}
+                    onClick={() => runNow(schedule.id)}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={schedule.isEnabled ? 'Pause' : 'Resume'}
+                    onClick={() =>
+                      act(() =>
+                        setReportScheduleEnabled(
+                          schedule.id,
+                          !schedule.isEnabled
+                        )
+                      )
+                    }
+                  >
+                    {schedule.isEnabled ? (
+                      <Pause className="h-4 w-4" />
+                    ) : (
+                      <Play className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Run history"
+                    onClick={() =>
+                      setHistoryId(
+                        historyId === schedule.id ? null : schedule.id
+                      )
+                    }
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Delete"
+                    onClick={() => act(() => deleteReportSchedule(schedule.id))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardHeader>
+                {historyId === schedule.id && (
+                  <CardContent>
+                    <RunHistory runs={schedule.runs} />
+                  </CardContent>
+                )}
+              </Card>
+            )
+          })
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No scheduled reports yet.
+          </p>
+        )}
+      </div>
+
+      <Sheet open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        {isCreateOpen && (
+          <ReportScheduleSheet
+            queries={queries}
+            dashboards={dashboards}
+            profiles={profiles}
+            onClose={() => setIsCreateOpen(false)}
+          />
+        )}
+      </Sheet>
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { Check, ChevronDown, ChevronRight, X } from 'lucide-react'
+import type { FieldDef } from 'pg'
+
+import { Badge } from '@/components/ui/badge'
+import { PG_TYPES, toNumber, toTime } from '@/lib/result-columns'
+
+type CellField = Pick<FieldDef, 'name' | 'dataTypeID'>
+
+type CellFormatter = (value: unknown, field: CellField) => ReactNode
+
+// Array type OIDs mapped to their element type, see pg_type.typelem
+const ARRAY_ELEMENT_TYPES: Record<number, number> = {
+  1000: PG_TYPES.bool,
+  1005: PG_TYPES.int2,
+  1007: PG_TYPES.int4,
+  1016: PG_TYPES.int8,
+  1021: PG_TYPES.float4,
+  1022: PG_TYPES.float8,
+  1231: PG_TYPES.numeric,
+  1182: PG_TYPES.date,
+  1115: PG_TYPES.timestamp,
+  1185: PG_TYPES.timestamptz,
+  199: PG_TYPES.json,
+  3807: PG_TYPES.jsonb,
+}
+
+const MAX_CHIPS = 20
+
+const PERCENT_COLUMN = /(percent|pct)/i
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+const toText = (value: unknown) =>
+  value !== null && typeof value === 'object'
+    ? JSON.stringify(value)
+    : String(value)
+
+const formatNumber = (value: unknown, field: CellField) => {
+  const number = toNumber(value)
+  // int8 and numeric beyond 2^53 would be rounded, show them as returned
+  if (number === null || !Number.isSafeInteger(Math.trunc(number))) {
+    return toText(value)
+  }
+  // Keep the scale numeric values come back with, e.g. 12.50
+  const decimals = typeof value === 'string' ? value.split('.')[1] : undefined
+  const formatted = number.toLocaleString(undefined, {
+    minimumFractionDigits: Math.min(decimals?.length ?? 0, 20),
+    maximumFractionDigits: 20,
+  })
+  return PERCENT_COLUMN.test(field.name) ? `${formatted}%` : formatted
+}
+
+const formatDate = (value: unknown, field: CellField) => {
+  // time and timetz have no date part, pg returns them as text
+  if (
+    field.dataTypeID === PG_TYPES.time ||
+    field.dataTypeID === PG_TYPES.timetz
+  ) {
+    return toText(value)
+  }
+  const time = toTime(value)
+  if (time === null) return toText(value)
+
+  if (field.dataTypeID === PG_TYPES.date) {
+    // A bare date parses as UTC midnight, formatting it in the local zone
+    // could show the day before
+    return new Date(time).toLocaleDateString(undefined, {
+      dateStyle: 'medium',
+      timeZone:
+        typeof value === 'string' && DATE_ONLY.test(value) ? 'UTC' : undefined,
+    })
+  }
+  return new Date(time).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'medium',
+  })
+}
+
+const formatText = (value: unknown, field: CellField) => {
+  switch (field.dataTypeID) {
+    case PG_TYPES.int2:
+    case PG_TYPES.int4:
+    case PG_TYPES.int8:
+    case PG_TYPES.oid:
+    case PG_TYPES.float4:
+    case PG_TYPES.float8:
+    case PG_TYPES.numeric:
+      return formatNumber(value, field)
+    case PG_TYPES.date:
+    case PG_TYPES.timestamp:
+    case PG_TYPES.timestamptz:
+      return formatDate(value, field)
+    default:
+      return toText(value)
+  }
+}
+
+const NullCell = () => (
+  <span className="rounded bg-muted px-1 text-xs italic text-muted-foreground">
+    NULL
+  </span>
+)
+
+const NumberCell: CellFormatter = (value, field) => (
+  <div className="text-right tabular-nums">{formatNumber(value, field)}</div>
+)
+
+const DateCell: CellFormatter = (value, field) => (
+  <span className="whitespace-nowrap" title={toText(value)}>
+    {formatDate(value, field)}
+  </span>
+)
+
+const BooleanCell: CellFormatter = (value) =>
+  value ? (
+    <span className="flex items-center gap-1 text-green-600">
+      <Check className="h-4 w-4" />
+      true
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-muted-foreground">
+      <X className="h-4 w-4" />
+      false
+    </span>
+  )
+
+const JsonCell = ({ value }: { value: unknown }) => {
+  const [expanded, setExpanded] = useState(false)
+  const Icon = expanded ? ChevronDown : ChevronRight
+
+  return (
+    <div className="flex items-start gap-1 font-mono text-xs">
+      <button
+        type="button"
+        title={expanded ? 'Collapse' : 'Expand'}
+        className="mt-0.5 shrink-0 text-muted-foreground"
+        onClick={() => setExpanded((current) => !current)}
+      >
+        <Icon className="h-3 w-3" />
+      </button>
+      {expanded ? (
+        <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      ) : (
+        <span className="truncate">{JSON.stringify(value)}</span>
+      )}
+    </div>
+  )
+}
+
+const ArrayCell = ({
+  values,
+  element,
+}: {
+  values: unknown[]
+  element: CellField
+}) => (
+  <div className="flex flex-wrap gap-1">
+    {values.slice(0, MAX_CHIPS).map((item, index) =>
+      item === null || item === undefined ? (
+        <NullCell key={index} />
+      ) : (
+        <Badge key={index} variant="secondary" className="font-normal">
+          {formatText(item, element)}
+        </Badge>
+      )
+    )}
+    {values.length > MAX_CHIPS && (
+      <span className="text-xs text-muted-foreground">
+        +{(values.length - MAX_CHIPS).toLocaleString()} more
+      </span>
+    )}
+  </div>
+)
+
+const TextCell: CellFormatter = (value) => (
+  <span className="line-clamp-2 break-words">{toText(value)}</span>
+)
+
+const CELL_FORMATTERS: Record<number, CellFormatter> = {
+  [PG_TYPES.bool]: BooleanCell,
+  [PG_TYPES.int2]: NumberCell,
+  [PG_TYPES.int4]: NumberCell,
+  [PG_TYPES.int8]: NumberCell,
+  [PG_TYPES.oid]: NumberCell,
+  [PG_TYPES.float4]: NumberCell,
+  [PG_TYPES.float8]: NumberCell,
+  [PG_TYPES.numeric]: NumberCell,
+  // money comes back formatted for the server's locale already
+  [PG_TYPES.money]: (value) => (
+    <div className="text-right tabular-nums">{toText(value)}</div>
+  ),
+  [PG_TYPES.date]: DateCell,
+  [PG_TYPES.time]: DateCell,
+  [PG_TYPES.timestamp]: DateCell,
+  [PG_TYPES.timestamptz]: DateCell,
+  [PG_TYPES.timetz]: DateCell,
+  [PG_TYPES.json]: (value) => <JsonCell value={value} />,
+  [PG_TYPES.jsonb]: (value) => <JsonCell value={value} />,
+}
+
+/**
+ * Renders a query result value based on the pg type of its column. Unknown
+ * types fall back to text, and arrays of any type render as chips.
+ */
+export const renderCell = (field: CellField, value: unknown): ReactNode => {
+  if (value === null || value === undefined) {
+    return <NullCell />
+  }
+
+  const elementType = ARRAY_ELEMENT_TYPES[field.dataTypeID]
+  // json arrays and json[] elements are objects, chips would hide their
+  // structure
+  if (elementType === PG_TYPES.json || elementType === PG_TYPES.jsonb) {
+    return <JsonCell value={value} />
+  }
+  const format = CELL_FORMATTERS[field.dataTypeID]
+  if (Array.isArray(value) && !format) {
+    return (
+      <ArrayCell
+        values={value}
+        element={{ name: field.name, dataTypeID: elementType ?? 0 }}
+      />
+    )
+  }
+
+  return (format ?? TextCell)(value, field)
+}
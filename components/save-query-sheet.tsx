@@ -0,0 +1,199 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+import { saveQuery } from '@/actions/saved-queries'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from '@/hooks/use-toast'
+import type { Config } from '@/lib/chart'
+import { findQueryParameters } from '@/lib/query-parameters'
+import {
+  defaultParameter,
+  PARAMETER_TYPES,
+  type QueryParameter,
+} from '@/lib/saved-queries'
+
+export function SaveQuerySheet({
+  sql: initialSql,
+  chartConfig,
+  onClose,
+}: {
+  sql: string
+  chartConfig: Config | null
+  onClose: () => void
+}) {
+  const router = useRouter()
+  const [title, setTitle] = useState(chartConfig?.title ?? '')
+  const [description, setDescription] = useState(
+    chartConfig?.description ?? ''
+  )
+  const [tags, setTags] = useState('')
+  const [sql, setSql] = useState(initialSql)
+  const [edited, setEdited] = useState<Record<string, QueryParameter>>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Parameters follow the ":name" placeholders as the SQL is edited
+  const parameters = useMemo(
+    () =>
+      findQueryParameters(sql).map(
+        (name) => edited[name] ?? defaultParameter(name)
+      ),
+    [sql, edited]
+  )
+
+  const updateParameter = (
+    parameter: QueryParameter,
+    changes: Partial<QueryParameter>
+  ) =>
+    setEdited((current) => ({
+      ...current,
+      [parameter.name]: { ...parameter, ...changes },
+    }))
+
+  const save = async () => {
+    setIsSaving(true)
+    const result = await saveQuery({
+      title,
+      description,
+      sql,
+      tags: tags
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      chartConfig,
+      parameters,
+    })
+    setIsSaving(false)
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    router.refresh()
+    onClose()
+  }
+
+  return (
+    <SheetContent className="flex flex-col gap-4 overflow-y-auto sm:max-w-lg">
+      <SheetHeader>
+        <SheetTitle>Save query</SheetTitle>
+        <SheetDescription>
+          Replace values with placeholders like :academic_year_id to ask for
+          them each time the query runs.
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="savedQueryTitle">Title</Label>
+        <Input
+          id="savedQueryTitle"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="savedQueryDescription">Description</Label>
+        <Textarea
+          id="savedQueryDescription"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="savedQueryTags">Tags</Label>
+        <Input
+          id="savedQueryTags"
+          placeholder="attendance, weekly"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="savedQuerySql">SQL</Label>
+        <Textarea
+          id="savedQuerySql"
+          className="min-h-40 font-mono text-xs"
+          value={sql}
+          onChange={(e) => setSql(e.target.value)}
+        />
+      </div>
+
+      {parameters.map((parameter) => (
+        <div
+          key={parameter.name}
+          className="space-y-2 rounded-md border p-3 text-sm"
+        >
+          <p className="font-mono">:{parameter.name}</p>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Label"
+              value={parameter.label}
+              onChange={(e) =>
+                updateParameter(parameter, { label: e.target.value })
+              }
+            />
+            <Select
+              value={parameter.type}
+              onValueChange={(type) =>
+                updateParameter(parameter, {
+                  type: type as QueryParameter['type'],
+                })
+              }
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PARAMETER_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Textarea
+            className="font-mono text-xs"
+            placeholder="Options query returning value and label columns (optional)"
+            value={parameter.optionsSql ?? ''}
+            onChange={(e) =>
+              updateParameter(parameter, { optionsSql: e.target.value })
+            }
+          />
+        </div>
+      ))}
+
+      <SheetFooter className="mt-auto gap-2">
+        <Button onClick={save} disabled={isSaving}>
+          Save
+        </Button>
+      </SheetFooter>
+    </SheetContent>
+  )
+}
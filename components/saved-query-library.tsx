@@ -0,0 +1,148 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Trash2 } from 'lucide-react'
+
+import { deleteSavedQuery } from '@/actions/saved-queries'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import { toast } from '@/hooks/use-toast'
+import type { SavedQuery } from '@/lib/saved-queries'
+
+export function SavedQueryLibrary({
+  queries,
+  error,
+}: {
+  queries: SavedQuery[]
+  error?: string
+}) {
+  const router = useRouter()
+  const [search, setSearch] = useState('')
+  const [tag, setTag] = useState<string | null>(null)
+
+  const tags = useMemo(
+    () => Array.from(new Set(queries.flatMap((query) => query.tags))).sort(),
+    [queries]
+  )
+
+  const filteredQueries = queries.filter((query) => {
+    const text = search.toLowerCase()
+    return (
+      (!tag || query.tags.includes(tag)) &&
+      [query.title, query.description ?? '', query.sql].some((value) =>
+        value.toLowerCase().includes(text)
+      )
+    )
+  })
+
+  const remove = async (id: string) => {
+    const result = await deleteSavedQuery(id)
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    router.refresh()
+  }
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="text-lg font-semibold">Saved queries</h1>
+      </nav>
+
+      <div className="container mx-auto max-w-4xl px-4 pb-6 space-y-4">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        <Input
+          placeholder="Search queries"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tags.map((item) => (
+              <Badge
+                key={item}
+                variant={tag === item ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => setTag(tag === item ? null : item)}
+              >
+                {item}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {filteredQueries.length ? (
+          filteredQueries.map((query) => (
+            <Card key={query.id}>
+              <CardHeader className="flex flex-row items-start gap-2 space-y-0">
+                <div className="flex-1 space-y-1">
+                  <CardTitle className="text-base">
+                    <Link
+                      href={`/app/queries/${query.id}`}
+                      className="hover:underline"
+                    >
+                      {query.title}
+                    </Link>
+                  </CardTitle>
+                  {query.description && (
+                    <CardDescription>{query.description}</CardDescription>
+                  )}
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {query.parameters.map((parameter) => (
+                      <Badge
+                        key={parameter.name}
+                        variant="outline"
+                        className="font-mono font-normal"
+                      >
+                        :{parameter.name}
+                      </Badge>
+                    ))}
+                    {query.tags.map((item) => (
+                      <Badge key={item} variant="secondary">
+                        {item}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete"
+                  onClick={() => remove(query.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardHeader>
+            </Card>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {queries.length
+              ? 'No queries match your search.'
+              : 'No saved queries yet. Use "Save Query" under a result in a chat.'}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
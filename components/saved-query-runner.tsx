@@ -0,0 +1,192 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Play } from 'lucide-react'
+
+import { getParameterOptions, runSavedQuery } from '@/actions/saved-queries'
+import { DynamicChart } from '@/components/dynamic-chart'
+import SqlResult from '@/components/sql-result'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import type { Result } from '@/lib/chart'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+import type { ParameterOption, SavedQuery } from '@/lib/saved-queries'
+
+export function SavedQueryRunner({ query }: { query: SavedQuery }) {
+  const { value } = useAppLocalStorage()
+  const [options, setOptions] = useState<Record<string, ParameterOption[]>>(
+    {}
+  )
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [result, setResult] = useState<LimitedQueryResult | string>()
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!value.connectionProfileId || !query.parameters.length) return
+
+    getParameterOptions(query.id, value.connectionProfileId).then((result) => {
+      if (result.error) {
+        toast({
+          title: 'Error',
+          description: result.error,
+          variant: 'destructive',
+        })
+        return
+      }
+      setOptions(result.data ?? {})
+    })
+  }, [query.id, query.parameters.length, value.connectionProfileId])
+
+  const run = useCallback(async () => {
+    setIsLoading(true)
+    const response = await runSavedQuery(
+      query.id,
+      value.connectionProfileId,
+      values
+    )
+    try {
+      setResult(JSON.parse(response))
+    } catch {
+      setResult(response)
+    }
+    setIsLoading(false)
+  }, [query.id, value.connectionProfileId, values])
+
+  // Queries without parameters have nothing to ask for. `values` stays
+  // empty for them, so this only runs again when the connection changes.
+  useEffect(() => {
+    if (!query.parameters.length && value.connectionProfileId) {
+      run()
+    }
+  }, [query.parameters.length, value.connectionProfileId, run])
+
+  const isComplete = query.parameters.every(
+    (parameter) => values[parameter.name]
+  )
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/app/queries" title="Saved queries">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <h1 className="text-lg font-semibold">{query.title}</h1>
+      </nav>
+
+      <div className="container mx-auto max-w-6xl px-4 pb-6 space-y-4">
+        {query.description && (
+          <p className="text-sm text-muted-foreground">{query.description}</p>
+        )}
+        {query.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {query.tags.map((tag) => (
+              <Badge key={tag} variant="secondary">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <pre className="!bg-prima !text-[#f8f8f2] w-full p-5 text-sm rounded-md overflow-auto">
+          <code>{query.sql}</code>
+        </pre>
+
+        {!value.connectionProfileId && (
+          <p className="text-sm text-muted-foreground">
+            Connect a database to run this query.
+          </p>
+        )}
+
+        <form
+          className="flex flex-wrap items-end gap-4"
+          onSubmit={(e) => {
+            e.preventDefault()
+            run()
+          }}
+        >
+          {query.parameters.map((parameter) => (
+            <div key={parameter.name} className="space-y-2 min-w-48">
+              <Label htmlFor={`parameter-${parameter.name}`}>
+                {parameter.label}
+              </Label>
+              {options[parameter.name] ? (
+                <Select
+                  value={values[parameter.name] ?? ''}
+                  onValueChange={(selected) =>
+                    setValues((current) => ({
+                      ...current,
+                      [parameter.name]: selected,
+                    }))
+                  }
+                >
+                  <SelectTrigger id={`parameter-${parameter.name}`}>
+                    <SelectValue placeholder={`Pick ${parameter.label}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {options[parameter.name].map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id={`parameter-${parameter.name}`}
+                  type={parameter.type}
+                  value={values[parameter.name] ?? ''}
+                  onChange={(e) =>
+                    setValues((current) => ({
+                      ...current,
+                      [parameter.name]: e.target.value,
+                    }))
+                  }
+                />
+              )}
+            </div>
+          ))}
+          <Button
+            type="submit"
+            disabled={isLoading || !isComplete || !value.connectionProfileId}
+            className="flex items-center gap-2"
+          >
+            <Play className="w-4 h-4" />
+            Run
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="w-full h-32 bg-primary opacity-20 rounded-md animate-pulse" />
+        ) : result ? (
+          <>
+            <SqlResult result={result} />
+            {typeof result !== 'string' &&
+              result.rows.length > 0 &&
+              query.chartConfig && (
+                <DynamicChart
+                  chartData={result.rows as Result[]}
+                  chartConfig={query.chartConfig}
+                />
+              )}
+          </>
+        ) : null}
+      </div>
+    </div>
+  )
+}
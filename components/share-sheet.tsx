@@ -0,0 +1,224 @@
+'use client'
+
+import { Check, Copy } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+
+import {
+  createShareLink,
+  getShareLinks,
+  revokeShareLink,
+} from '@/actions/share-links'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { SHARE_LINK_CONFIG } from '@/config/share-links'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import {
+  isShareLinkActive,
+  SHARE_MODE_LABELS,
+  SHARE_MODES,
+  shareUrl,
+  type ShareLink,
+  type ShareMode,
+} from '@/lib/share-links'
+
+const NEVER = 'never'
+
+const showError = (error: string) =>
+  toast({
+    title: 'Error',
+    description: error,
+    variant: 'destructive',
+  })
+
+function CopyLink({ token }: { token: string }) {
+  const [copied, setCopied] = useState(false)
+  const url = shareUrl(window.location.origin, token)
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1000)
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input readOnly value={url} onFocus={(e) => e.target.select()} />
+      <Button variant="outline" size="icon" title="Copy link" onClick={copy}>
+        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+      </Button>
+    </div>
+  )
+}
+
+export function ShareSheet({
+  chatId,
+  query,
+}: {
+  chatId: string
+  // Shares a single result instead of the whole chat
+  query?: { messageId: string; sql: string }
+}) {
+  const { value } = useAppLocalStorage()
+  const [mode, setMode] = useState<ShareMode>('snapshot')
+  const [expiration, setExpiration] = useState(
+    String(SHARE_LINK_CONFIG.expirationOptions[1].hours)
+  )
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [created, setCreated] = useState<ShareLink | null>(null)
+  const [isSharing, setIsSharing] = useState(false)
+
+  const loadLinks = useCallback(async () => {
+    const result = await getShareLinks(chatId)
+    if (result.data) {
+      setLinks(result.data)
+    }
+  }, [chatId])
+
+  useEffect(() => {
+    loadLinks()
+  }, [loadLinks])
+
+  const share = async () => {
+    setIsSharing(true)
+    const result = await createShareLink({
+      chatId,
+      messageId: query?.messageId ?? null,
+      sql: query?.sql ?? null,
+      mode,
+      expiresInHours: expiration === NEVER ? null : Number(expiration),
+      connectionProfileId: value.connectionProfileId,
+    })
+    setIsSharing(false)
+
+    if (result.error || !result.data) {
+      showError(result.error ?? 'Unexpected error creating share link')
+      return
+    }
+    setCreated(result.data)
+    await loadLinks()
+  }
+
+  const revoke = async (id: string) => {
+    const result = await revokeShareLink(id)
+    if (result.error) {
+      showError(result.error)
+      return
+    }
+    if (created?.id === id) {
+      setCreated(null)
+    }
+    await loadLinks()
+  }
+
+  return (
+    <SheetContent className="flex flex-col gap-4 overflow-y-auto sm:max-w-lg">
+      <SheetHeader>
+        <SheetTitle>{query ? 'Share result' : 'Share chat'}</SheetTitle>
+        <SheetDescription>
+          Anyone signed in with the link can open it until it expires or you
+          revoke it.
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="shareMode">Results</Label>
+        <Select
+          value={mode}
+          onValueChange={(mode) => setMode(mode as ShareMode)}
+        >
+          <SelectTrigger id="shareMode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHARE_MODES.map((mode) => (
+              <SelectItem key={mode} value={mode}>
+                {SHARE_MODE_LABELS[mode]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          {mode === 'snapshot'
+            ? 'Viewers see the rows you see now, even if they have less access.'
+            : "The queries run again when the link is opened, limited to the viewer's dioceses and testing centers."}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="shareExpiration">Expires after</Label>
+        <Select value={expiration} onValueChange={setExpiration}>
+          <SelectTrigger id="shareExpiration">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHARE_LINK_CONFIG.expirationOptions.map((option) => (
+              <SelectItem key={option.hours} value={String(option.hours)}>
+                {option.label}
+              </SelectItem>
+            ))}
+            <SelectItem value={NEVER}>Never</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Button onClick={share} disabled={isSharing}>
+        Create link
+      </Button>
+
+      {created && <CopyLink token={created.token} />}
+
+      {links.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Links of this chat</h3>
+          {links.map((link) => (
+            <div
+              key={link.id}
+              className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+            >
+              <div className="space-y-1">
+                <p>
+                  {link.sql ? 'Result' : 'Whole chat'},{' '}
+                  {SHARE_MODE_LABELS[link.mode].toLowerCase()}
+                </p>
+                <p className="text-muted-foreground">
+                  {link.expiresAt
+                    ? `Expires ${new Date(link.expiresAt).toLocaleString()}`
+                    : 'Never expires'}
+                </p>
+              </div>
+              {isShareLinkActive(link) ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revoke(link.id)}
+                >
+                  Revoke
+                </Button>
+              ) : (
+                <Badge variant="secondary">
+                  {link.revokedAt ? 'Revoked' : 'Expired'}
+                </Badge>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </SheetContent>
+  )
+}
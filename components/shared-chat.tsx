@@ -0,0 +1,121 @@
+'use client'
+
+import Markdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+
+import SqlResult from '@/components/sql-result'
+import { Badge } from '@/components/ui/badge'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import { sqlResultKey } from '@/lib/chat-messages'
+import type { SharedContent, SharedResults } from '@/lib/share-links'
+
+function SharedQueryBlock({
+  sql,
+  resultKey,
+  results,
+}: {
+  sql: string
+  resultKey: string
+  results: SharedResults
+}) {
+  const result = results[resultKey]
+
+  return (
+    <div className="flex flex-col my-3 gap-2 not-prose">
+      <pre className="bg-[#272822] text-[#f8f8f2] w-full p-5 text-sm rounded-md overflow-auto">
+        <code>{sql}</code>
+      </pre>
+      {result ? (
+        <SqlResult result={result} />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          This query was not included in the link.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export function SharedChat({
+  content,
+  error,
+}: {
+  content: SharedContent | null
+  error?: string
+}) {
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="flex-1 text-lg font-semibold">
+          {content?.title ?? 'Shared chat'}
+        </h1>
+        {content && (
+          <Badge variant="secondary">
+            {content.mode === 'snapshot'
+              ? `Snapshot from ${new Date(content.createdAt).toLocaleString()}`
+              : 'Results limited to your access'}
+          </Badge>
+        )}
+      </nav>
+
+      <div className="container mx-auto max-w-4xl px-4 pb-6 space-y-12">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {content?.mode === 'rerun' && content.messages && (
+          <p className="text-sm text-muted-foreground">
+            The assistant&apos;s answers are not shared, only its queries, run
+            again with your access.
+          </p>
+        )}
+
+        {content?.query && (
+          <SharedQueryBlock
+            sql={content.query.sql}
+            resultKey={content.query.key}
+            results={content.results}
+          />
+        )}
+
+        {content?.messages?.map((message) =>
+          message.role === 'user' ? (
+            <div
+              key={message.id}
+              className="text-2xl font-bold text-primary border-b pb-2"
+            >
+              {message.content}
+            </div>
+          ) : (
+            <div
+              key={message.id}
+              className="text-base prose prose-neutral dark:prose-invert max-w-none"
+            >
+              <Markdown
+                remarkPlugins={[remarkGfm]}
+                components={{
+                  pre: ({ children }) => <>{children}</>,
+                  code: ({ className, children }) =>
+                    className?.includes('sql') ? (
+                      <SharedQueryBlock
+                        sql={String(children).trim()}
+                        resultKey={sqlResultKey(String(children), message.id)}
+                        results={content.results}
+                      />
+                    ) : className ? (
+                      <pre>
+                        <code className={className}>{children}</code>
+                      </pre>
+                    ) : (
+                      <code>{children}</code>
+                    ),
+                }}
+              >
+                {message.content}
+              </Markdown>
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,20 +4,45 @@ import { Link } from 'next-view-transitions'
 import { SidebarMenuSubButton } from './ui/sidebar'
 import { usePathname, useRouter } from 'next/navigation'
 import { deleteChat } from '@/actions/delete-chat'
+import { setChatArchived, setChatPinned } from '@/actions/organize-chat'
 import { Button } from './ui/button'
-import { Trash2 } from 'lucide-react'
+import {
+  Archive,
+  ArchiveRestore,
+  FolderInput,
+  MoreHorizontal,
+  Pin,
+  PinOff,
+  Trash2,
+} from 'lucide-react'
 import { useState } from 'react'
 
-export function SidebarLink(chat: { id: string; title: string }) {
+import { OrganizeChatSheet } from '@/components/organize-chat-sheet'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Sheet } from '@/components/ui/sheet'
+import { toast } from '@/hooks/use-toast'
+import type { ChatListItem } from '@/lib/chats'
+import { useAppState } from '@/state'
+
+export function SidebarLink({ chat }: { chat: ChatListItem }) {
   const pathname = usePathname()
   const router = useRouter()
+  const loadChats = useAppState((state) => state.loadChats)
+  const setChatFilter = useAppState((state) => state.setChatFilter)
   const [isDeleting, setIsDeleting] = useState(false)
+  const [isOrganizeOpen, setIsOrganizeOpen] = useState(false)
 
-  const handleDelete = async (e: React.MouseEvent) => {
-    e.preventDefault() // Prevent navigation
+  const handleDelete = async () => {
     setIsDeleting(true)
     try {
       await deleteChat(chat.id)
+      await loadChats({ reset: true })
       router.refresh() // Refresh the page to update the sidebar
     } catch (error) {
       console.error('Failed to delete chat:', error)
@@ -26,25 +51,100 @@ export function SidebarLink(chat: { id: string; title: string }) {
     }
   }
 
+  const update = async (
+    action: () => Promise<{ error?: string; success?: string }>
+  ) => {
+    const result = await action()
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    await loadChats({ reset: true })
+  }
+
   return (
-    <SidebarMenuSubButton
-      asChild
-      className={`p-1 ${
-        pathname.includes(chat.id) ? 'bg-accent' : ''
-      } group relative flex items-center justify-between`}
-    >
-      <Link href={`/app/${chat.id}`} className="w-full h-full" prefetch={true}>
-        <span className="truncate">{chat.title}</span>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-          onClick={handleDelete}
-          disabled={isDeleting}
+    <div className="group relative flex items-center">
+      <SidebarMenuSubButton
+        asChild
+        className={`p-1 pr-8 ${pathname.includes(chat.id) ? 'bg-accent' : ''} w-full`}
+      >
+        <Link
+          href={`/app/${chat.id}`}
+          className="w-full h-full"
+          prefetch={true}
         >
-          <Trash2 className="h-4 w-4" />
-        </Button>
-      </Link>
-    </SidebarMenuSubButton>
+          <span className="truncate">{chat.name}</span>
+        </Link>
+      </SidebarMenuSubButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="absolute right-1 h-6 w-6 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+            title="Chat actions"
+            disabled={isDeleting}
+          >
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {!chat.archived_at && (
+            <DropdownMenuItem
+              onClick={() =>
+                update(() => setChatPinned(chat.id, !chat.is_pinned))
+              }
+            >
+              {chat.is_pinned ? (
+                <PinOff className="h-4 w-4" />
+              ) : (
+                <Pin className="h-4 w-4" />
+              )}
+              {chat.is_pinned ? 'Unpin' : 'Pin'}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setIsOrganizeOpen(true)}>
+            <FolderInput className="h-4 w-4" />
+            Folder and tags
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() =>
+              update(() => setChatArchived(chat.id, !chat.archived_at))
+            }
+          >
+            {chat.archived_at ? (
+              <ArchiveRestore className="h-4 w-4" />
+            ) : (
+              <Archive className="h-4 w-4" />
+            )}
+            {chat.archived_at ? 'Restore' : 'Archive'}
+          </DropdownMenuItem>
+          {chat.tags.length > 0 && <DropdownMenuSeparator />}
+          {chat.tags.map((tag) => (
+            <DropdownMenuItem key={tag} onClick={() => setChatFilter({ tag })}>
+              #{tag}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleDelete}>
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Sheet open={isOrganizeOpen} onOpenChange={setIsOrganizeOpen}>
+        {isOrganizeOpen && (
+          <OrganizeChatSheet
+            chat={chat}
+            onClose={() => setIsOrganizeOpen(false)}
+          />
+        )}
+      </Sheet>
+    </div>
   )
 }
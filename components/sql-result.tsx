@@ -1,32 +1,64 @@
 'use client'
 
-import { QueryResult } from 'pg'
+import type { ColumnDef } from '@tanstack/react-table'
+
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+import type { QueryPreview } from '@/lib/scoped-query'
+import {
+  columnKindForType,
+  filterByKind,
+  sortByKind,
+} from '@/lib/result-columns'
+import { renderCell } from './result-cell'
 import { DataTable } from './table'
 
 export default function SqlResult({
   result,
 }: {
-  result: QueryResult<unknown[]> | string
+  result: LimitedQueryResult | QueryPreview | string
 }) {
   if (typeof result === 'object' && 'fields' in result && 'rows' in result) {
-    const headers = result.fields.map((field) => ({
-      header: field.name,
-      accessorKey: field.name,
-    }))
-
-    const processedRows = result.rows.map((row) => {
-      const processedRow: Record<string, string> = {}
-      for (const [key, value] of Object.entries(row)) {
-        if (typeof value === 'object' && value !== null) {
-          processedRow[key] = JSON.stringify(value)
-        } else {
-          processedRow[key] = String(value)
+    const columns = result.fields.map(
+      (field): ColumnDef<unknown, unknown> => {
+        const kind = columnKindForType(field.dataTypeID)
+        return {
+          header: field.name,
+          accessorKey: field.name,
+          meta: { kind },
+          sortingFn: sortByKind(kind),
+          filterFn: filterByKind(kind),
+          // Values stay as returned so sorting and filters use their type
+          cell: ({ getValue }) => renderCell(field, getValue()),
         }
       }
-      return processedRow
-    })
+    )
+
+    // Results the agent saw are kept as a preview of the first rows
+    const isPreview = 'preview' in result && result.preview
 
-    return <DataTable columns={headers} data={processedRows} />
+    return (
+      <div className="flex flex-col gap-2">
+        <DataTable columns={columns} data={result.rows} />
+        {isPreview && result.truncated && (
+          <p className="text-sm text-muted-foreground">
+            Preview of the first {result.rows.length.toLocaleString()} rows
+            {result.totalRowsEstimate
+              ? ` of ${result.totalRowsEstimate.toLocaleString()}`
+              : ''}
+            , saved with the chat. Run the query again to see the full result.
+          </p>
+        )}
+        {!isPreview && result.truncated && (
+          <p className="text-sm text-muted-foreground">
+            Showing the first {result.rowLimit.toLocaleString()} rows
+            {result.totalRowsEstimate
+              ? ` of about ${result.totalRowsEstimate.toLocaleString()}`
+              : ''}
+            . Add filters or a LIMIT to see the rest.
+          </p>
+        )}
+      </div>
+    )
   }
 
   return <pre>{JSON.stringify(result, null, 2)}</pre>
@@ -1,10 +1,16 @@
 import {
   ColumnDef,
+  ColumnFiltersState,
   ColumnSizingState,
+  SortingState,
   flexRender,
   getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
   useReactTable,
 } from '@tanstack/react-table'
+import { useVirtualizer } from '@tanstack/react-virtual'
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react'
 import {
   Table,
   TableBody,
@@ -15,7 +21,13 @@ import {
 } from '@/components/ui/table'
 
 import { ColumnResizer } from '@/components/column-resizer'
-import { useState } from 'react'
+import { filterPlaceholder } from '@/lib/result-columns'
+import { cn } from '@/lib/utils'
+import { useRef, useState } from 'react'
+
+// A single line row, rows are measured once rendered since expanded JSON
+// and array cells are taller
+const ROW_HEIGHT = 53
 
 export const DataTable = <TValue,>({
   columns,
@@ -25,6 +37,9 @@ export const DataTable = <TValue,>({
   data: unknown[]
 }) => {
   const [colSizing, setColSizing] = useState<ColumnSizingState>({})
+  const [sorting, setSorting] = useState<SortingState>([])
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const tableRef = useRef<HTMLTableElement>(null)
 
   const table = useReactTable({
     data,
@@ -32,33 +47,82 @@ export const DataTable = <TValue,>({
     enableColumnResizing: true,
     columnResizeMode: 'onChange',
     getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
     onColumnSizingChange: setColSizing,
+    onSortingChange: setSorting,
+    onColumnFiltersChange: setColumnFilters,
     state: {
       columnSizing: colSizing,
+      sorting,
+      columnFilters,
     },
   })
 
+  const { rows } = table.getRowModel()
+
+  // Only the rows in view are rendered, spacer rows keep the scroll height
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    // The Table component wraps the table in its scroll container
+    getScrollElement: () => tableRef.current?.parentElement ?? null,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  })
+  const virtualRows = virtualizer.getVirtualItems()
+  const paddingTop = virtualRows[0]?.start ?? 0
+  const paddingBottom =
+    virtualizer.getTotalSize() - (virtualRows[virtualRows.length - 1]?.end ?? 0)
+
   return (
     <div className="rounded-md border w-full">
-      <Table>
-        <TableHeader>
+      <Table ref={tableRef}>
+        <TableHeader className="sticky top-0 z-10 bg-background">
           {table.getHeaderGroups().map((headerGroup) => (
             <TableRow key={headerGroup.id}>
               {headerGroup.headers.map((header) => {
+                const sorted = header.column.getIsSorted()
+                const kind = header.column.columnDef.meta?.kind ?? 'text'
                 return (
                   <TableHead
                     key={header.id}
-                    className="relative"
+                    className="relative h-auto py-2 align-top"
                     style={{
                       width: header.getSize(),
                     }}
                   >
-                    {header.isPlaceholder
-                      ? null
-                      : flexRender(
+                    {header.isPlaceholder ? null : (
+                      <button
+                        type="button"
+                        className={cn(
+                          'flex items-center gap-1 whitespace-nowrap',
+                          kind === 'number' && 'ml-auto'
+                        )}
+                        onClick={header.column.getToggleSortingHandler()}
+                      >
+                        {flexRender(
                           header.column.columnDef.header,
                           header.getContext()
                         )}
+                        {sorted === 'asc' ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : sorted === 'desc' ? (
+                          <ArrowDown className="h-3 w-3" />
+                        ) : (
+                          <ArrowUpDown className="h-3 w-3 opacity-40" />
+                        )}
+                      </button>
+                    )}
+                    {header.column.getCanFilter() && (
+                      <input
+                        className="mt-1 w-full min-w-16 rounded border bg-transparent px-1 py-0.5 text-xs font-normal"
+                        placeholder={filterPlaceholder[kind]}
+                        value={(header.column.getFilterValue() as string) ?? ''}
+                        onChange={(e) =>
+                          header.column.setFilterValue(e.target.value)
+                        }
+                      />
+                    )}
                     <ColumnResizer header={header} />
                   </TableHead>
                 )
@@ -67,24 +131,40 @@ export const DataTable = <TValue,>({
           ))}
         </TableHeader>
         <TableBody>
-          {table.getRowModel().rows?.length ? (
-            table.getRowModel().rows.map((row) => (
-              <TableRow
-                key={row.id}
-                data-state={row.getIsSelected() && 'selected'}
-              >
-                {row.getVisibleCells().map((cell) => (
-                  <TableCell key={cell.id}>
-                    <div className="max-h-9 overflow-hidden">
-                      {flexRender(
-                        cell.column.columnDef.cell,
-                        cell.getContext()
-                      )}
-                    </div>
-                  </TableCell>
-                ))}
-              </TableRow>
-            ))
+          {rows.length ? (
+            <>
+              {paddingTop > 0 && (
+                <tr>
+                  <td style={{ height: paddingTop }} />
+                </tr>
+              )}
+              {virtualRows.map((virtualRow) => {
+                const row = rows[virtualRow.index]
+                return (
+                  <TableRow
+                    key={row.id}
+                    ref={virtualizer.measureElement}
+                    data-index={virtualRow.index}
+                    data-state={row.getIsSelected() && 'selected'}
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    {row.getVisibleCells().map((cell) => (
+                      <TableCell key={cell.id}>
+                        {flexRender(
+                          cell.column.columnDef.cell,
+                          cell.getContext()
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+              })}
+              {paddingBottom > 0 && (
+                <tr>
+                  <td style={{ height: paddingBottom }} />
+                </tr>
+              )}
+            </>
           ) : (
             <TableRow>
               <TableCell colSpan={columns.length} className="h-24 text-center">
@@ -94,6 +174,11 @@ export const DataTable = <TValue,>({
           )}
         </TableBody>
       </Table>
+      <div className="border-t px-4 py-2 text-xs text-muted-foreground">
+        {rows.length === data.length
+          ? `${data.length.toLocaleString()} rows`
+          : `${rows.length.toLocaleString()} of ${data.length.toLocaleString()} rows`}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,414 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Pencil } from 'lucide-react'
+
+import { type ScopeOptions, getScopeOptions } from '@/actions/admin'
+import {
+  type UsageGroup,
+  type UsageOverview as Overview,
+  type UserUsage,
+  setUsageBudget,
+} from '@/actions/usage'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { SidebarTrigger } from '@/components/ui/sidebar'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useAppLocalStorage } from '@/hooks/use-app-local-storage'
+import { toast } from '@/hooks/use-toast'
+import { type BudgetStatus, type UsageTotals, formatUsd } from '@/lib/ai-usage'
+
+const formatTokens = (value: number) => value.toLocaleString()
+
+const budgetLabels: Record<BudgetStatus['state'], string> = {
+  ok: 'Within budget',
+  warning: 'Almost used',
+  exceeded: 'Exceeded',
+}
+
+function BudgetBadge({ budget }: { budget: BudgetStatus }) {
+  if (budget.limitUsd === null) {
+    return <span className="text-muted-foreground">No budget</span>
+  }
+  return (
+    <Badge variant={budget.state === 'exceeded' ? 'destructive' : 'secondary'}>
+      {formatUsd(budget.limitUsd)} · {budgetLabels[budget.state]}
+    </Badge>
+  )
+}
+
+function Stat({ title, value }: { title: string; value: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="text-2xl font-semibold">{value}</CardContent>
+    </Card>
+  )
+}
+
+function Totals({ totals }: { totals: UsageTotals }) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-3">
+      <Stat title="Estimated cost" value={formatUsd(totals.costUsd)} />
+      <Stat title="Tokens" value={formatTokens(totals.totalTokens)} />
+      <Stat title="Model calls" value={formatTokens(totals.calls)} />
+    </div>
+  )
+}
+
+function UsageTable({
+  title,
+  groups,
+  href,
+}: {
+  title: string
+  groups: UsageGroup[]
+  href?: (key: string) => string
+}) {
+  return (
+    <div className="rounded-md border w-full">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title}</TableHead>
+            <TableHead className="text-right">Calls</TableHead>
+            <TableHead className="text-right">Input tokens</TableHead>
+            <TableHead className="text-right">Output tokens</TableHead>
+            <TableHead className="text-right">Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.length ? (
+            groups.map((group) => (
+              <TableRow key={group.key}>
+                <TableCell>
+                  {href && group.label !== 'Deleted chat' ? (
+                    <Link href={href(group.key)} className="hover:underline">
+                      {group.label}
+                    </Link>
+                  ) : (
+                    group.label
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatTokens(group.totals.calls)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatTokens(group.totals.promptTokens)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatTokens(group.totals.completionTokens)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatUsd(group.totals.costUsd)}
+                </TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={5} className="text-muted-foreground">
+                No usage this month.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+function BudgetEditor({
+  user,
+  onClose,
+}: {
+  user: UserUsage
+  onClose: () => void
+}) {
+  const router = useRouter()
+  const [limit, setLimit] = useState(user.budget.limitUsd?.toString() ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const save = async (monthlyLimitUsd: number | null) => {
+    setIsSaving(true)
+    const result = await setUsageBudget({
+      userId: user.userId,
+      monthlyLimitUsd,
+    })
+    setIsSaving(false)
+
+    if (result.error) {
+      toast({
+        title: 'Error',
+        description: result.error,
+        variant: 'destructive',
+      })
+      return
+    }
+    toast({ title: 'Done!', description: result.success })
+    router.refresh()
+    onClose()
+  }
+
+  return (
+    <SheetContent className="flex flex-col gap-4">
+      <SheetHeader>
+        <SheetTitle>Monthly budget</SheetTitle>
+        <SheetDescription>{user.email}</SheetDescription>
+      </SheetHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="monthly-limit">Limit in USD</Label>
+        <Input
+          id="monthly-limit"
+          type="number"
+          min={0}
+          step="0.01"
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+        />
+        <p className="text-sm text-muted-foreground">
+          Only spend on the project&apos;s API keys counts. The user is warned
+          when most of it is used and their chats stop once it is used up, until
+          the next month or until they add their own key.
+        </p>
+      </div>
+
+      <SheetFooter className="mt-auto gap-2">
+        {user.budget.limitUsd !== null && (
+          <Button
+            variant="destructive"
+            onClick={() => save(null)}
+            disabled={isSaving}
+          >
+            Remove budget
+          </Button>
+        )}
+        <Button
+          onClick={() => save(Number(limit))}
+          disabled={isSaving || !limit}
+        >
+          Save
+        </Button>
+      </SheetFooter>
+    </SheetContent>
+  )
+}
+
+function OrganizationUsage({
+  organization,
+}: {
+  organization: NonNullable<Overview['organization']>
+}) {
+  const { value } = useAppLocalStorage()
+  const [options, setOptions] = useState<ScopeOptions | null>(null)
+  const [search, setSearch] = useState('')
+  const [editing, setEditing] = useState<UserUsage | null>(null)
+
+  // Diocese names come from the connected database, ids are shown without it
+  useEffect(() => {
+    if (!value.connectionProfileId) return
+
+    getScopeOptions(value.connectionProfileId).then((result) => {
+      setOptions(result.data ?? null)
+    })
+  }, [value.connectionProfileId])
+
+  const dioceseName = (id: number | null) =>
+    id === null
+      ? 'No diocese'
+      : (options?.dioceses.find((diocese) => diocese.id === id)?.name ??
+        `#${id}`)
+
+  const users = organization.byUser.filter((user) =>
+    (user.email ?? '').toLowerCase().includes(search.toLowerCase())
+  )
+
+  return (
+    <>
+      <h2 className="text-lg font-semibold pt-4">Everyone</h2>
+      <Totals totals={organization.totals} />
+
+      <div className="rounded-md border w-full">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Diocese</TableHead>
+              <TableHead className="text-right">Users</TableHead>
+              <TableHead className="text-right">Tokens</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {organization.byDiocese.map((diocese) => (
+              <TableRow key={diocese.dioceseId ?? 'none'}>
+                <TableCell>{dioceseName(diocese.dioceseId)}</TableCell>
+                <TableCell className="text-right">{diocese.users}</TableCell>
+                <TableCell className="text-right">
+                  {formatTokens(diocese.totals.totalTokens)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatUsd(diocese.totals.costUsd)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Users with several dioceses count in each of them.
+      </p>
+
+      <UsageTable title="Model" groups={organization.byModel} />
+
+      <Input
+        placeholder="Search by email"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        className="max-w-sm"
+      />
+
+      <div className="rounded-md border w-full">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Email</TableHead>
+              <TableHead>Dioceses</TableHead>
+              <TableHead className="text-right">Tokens</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">On project keys</TableHead>
+              <TableHead>Budget</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users.map((user) => (
+              <TableRow key={user.userId}>
+                <TableCell>{user.email}</TableCell>
+                <TableCell>
+                  {user.dioceseIds.map((id) => dioceseName(id)).join(', ')}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatTokens(user.totals.totalTokens)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatUsd(user.totals.costUsd)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatUsd(user.totals.projectCostUsd)}
+                </TableCell>
+                <TableCell>
+                  <BudgetBadge budget={user.budget} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setEditing(user)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Sheet
+        open={!!editing}
+        onOpenChange={(open) => {
+          if (!open) setEditing(null)
+        }}
+      >
+        {editing && (
+          <BudgetEditor
+            key={editing.userId}
+            user={editing}
+            onClose={() => setEditing(null)}
+          />
+        )}
+      </Sheet>
+    </>
+  )
+}
+
+export function UsageOverview({
+  overview,
+  error,
+}: {
+  overview: Overview | null
+  error?: string
+}) {
+  const month = overview
+    ? new Date(overview.since).toLocaleDateString(undefined, {
+        month: 'long',
+        year: 'numeric',
+        timeZone: 'UTC',
+      })
+    : null
+
+  return (
+    <div className="flex-1 flex flex-col w-full overflow-y-auto">
+      <nav className="w-full p-4 flex items-center gap-2">
+        <SidebarTrigger />
+        <h1 className="flex-1 text-lg font-semibold">Usage</h1>
+        {month && (
+          <span className="text-sm text-muted-foreground">{month}</span>
+        )}
+      </nav>
+
+      <div className="container mx-auto max-w-6xl px-4 pb-6 space-y-4">
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {overview && (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              <span>
+                {formatUsd(overview.budget.spentUsd)} spent on the
+                project&apos;s API keys
+              </span>
+              <BudgetBadge budget={overview.budget} />
+            </div>
+
+            <Totals totals={overview.totals} />
+            <UsageTable title="Model" groups={overview.byModel} />
+            <UsageTable title="Used for" groups={overview.byKind} />
+            <UsageTable
+              title="Chat"
+              groups={overview.byChat}
+              href={(chatId) => `/app/${chatId}`}
+            />
+
+            {overview.organization && (
+              <OrganizationUsage organization={overview.organization} />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
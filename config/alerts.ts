@@ -0,0 +1,15 @@
+export const ALERT_CONFIG = {
+  // Matching rows listed in a notification
+  maxNotifiedMatches: 50,
+  maxRecipients: 20,
+  webhookTimeoutMs: 10_000,
+  // Due rules picked up per runner call
+  batchSize: 10,
+  // Evaluations kept visible in the history of a rule
+  historyLength: 20,
+  snoozeOptions: [
+    { label: '1 hour', hours: 1 },
+    { label: '1 day', hours: 24 },
+    { label: '1 week', hours: 24 * 7 },
+  ],
+}
@@ -0,0 +1,12 @@
+export const CHAT_CONTEXT_CONFIG = {
+  // Estimated tokens of the messages above which older turns are summarized
+  maxMessageTokens: 24_000,
+  // Latest turns (a question and its answers) that are always sent in full
+  recentTurns: 3,
+  // Tool results of the latest turns are kept, older ones are stale
+  freshToolTurns: 2,
+  // Stale tool results up to this size are kept as they are
+  maxStaleToolResultChars: 1_500,
+  // Rough size of a token, there is no tokenizer for every provider
+  charsPerToken: 4,
+}
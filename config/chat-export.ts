@@ -0,0 +1,10 @@
+export const CHAT_EXPORT_CONFIG = {
+  // SQL blocks of a chat that are run again for the report
+  maxQueries: 20,
+  // Rows printed per result table, the note says how many there were
+  maxTableRows: 100,
+  // Wider results are cut off in the PDF, a page only fits so many columns
+  maxPdfColumns: 8,
+  // Rows sent to the model to pick a chart type
+  maxChartRows: 200,
+}
@@ -0,0 +1,8 @@
+export const CHAT_LIST_CONFIG = {
+  // Chats loaded per sidebar page
+  pageSize: 30,
+  maxTags: 10,
+  searchDebounceMs: 300,
+  // Newest matching chats a search can return
+  maxSearchResults: 200,
+}
@@ -0,0 +1,3 @@
+export const DASHBOARD_CONFIG = {
+  maxTiles: 24,
+}
@@ -0,0 +1,27 @@
+import type { UserRole } from './diocese'
+
+// Pools are kept per connection string and per name, so one role cannot
+// exhaust the connections another role needs. 'system' is used for the
+// app's own tables, 'export' for downloads that hold a connection while the
+// file streams. Connection checks use a client of their own.
+export type PoolName = UserRole | 'system' | 'export'
+
+export const DB_POOL_CONFIG = {
+  maxClients: {
+    super_admin: 5,
+    diocese_manager: 5,
+    school_manager: 3,
+    system: 2,
+    export: 2,
+  } satisfies Record<PoolName, number>,
+  // Idle connections are closed after this
+  idleTimeoutMs: 30_000,
+  // Waiting for a free connection (or a new one) fails after this
+  connectionTimeoutMs: 10_000,
+  // Connections idle longer than this are pinged before being handed out
+  healthCheckAfterIdleMs: 10_000,
+  // Least recently used pools are closed past this
+  maxPools: 20,
+  // Acquiring a connection slower than this is logged
+  slowAcquireWarnMs: 1_000,
+}
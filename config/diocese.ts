@@ -1,10 +1,31 @@
 export type UserRole = 'diocese_manager' | 'school_manager' | 'super_admin'
 
-export const DIOCESE_CONFIG = {
-  name: 'Tucson',
-  id: 5,
-  testingCenterId: 51,
-  role: 'super_admin' as UserRole, // default role
+// What a user is allowed to see. Super admins see everything, diocese
+// managers are limited to their dioceses and school managers to their
+// testing centers (schools) inside those dioceses.
+export interface AccessScope {
+  role: UserRole
+  dioceseIds: number[]
+  testingCenterIds: number[]
+}
+
+// One hop from a table towards testing_centers:
+// <table>.<column> IN (SELECT <referencedColumn> FROM <references>)
+export interface ScopeLink {
+  column: string
+  references: string
+  referencedColumn: string
+}
+
+export const USER_ROLES: UserRole[] = [
+  'super_admin',
+  'diocese_manager',
+  'school_manager',
+]
+
+// Tables whose rows belong to a diocese / testing center. Who may see
+// which rows is stored per user in the user_scopes table.
+export const ACCESS_SCOPE_CONFIG = {
   protectedTables: [
     'testing_centers',
     'testing_sections',
@@ -13,5 +34,24 @@ export const DIOCESE_CONFIG = {
     'students',
     'test_results',
     'scores'
-  ]
-} 
\ No newline at end of file
+  ],
+  // Known join paths down to testing_centers. Protected tables missing
+  // here are resolved through foreign keys when a query touches them.
+  scopeLinks: {
+    testing_sections: {
+      column: 'testing_center_id',
+      references: 'testing_centers',
+      referencedColumn: 'id',
+    },
+    testing_section_students: {
+      column: 'testing_section_id',
+      references: 'testing_sections',
+      referencedColumn: 'id',
+    },
+    users: {
+      column: 'id',
+      references: 'testing_section_students',
+      referencedColumn: 'user_id',
+    },
+  } as Record<string, ScopeLink>,
+}
@@ -0,0 +1,70 @@
+export type ProviderId = 'openai' | 'anthropic' | 'azure' | 'local'
+
+// Providers a user can bring their own key for. Azure and local
+// (OpenAI-compatible) endpoints are configured on the server only.
+export type UserKeyProvider = Extract<ProviderId, 'openai' | 'anthropic'>
+
+export type ModelOption = {
+  // "<provider>:<model>", for azure the model is the deployment name
+  id: string
+  label: string
+  // USD per million tokens, for usage cost estimates
+  pricing: { input: number; output: number }
+}
+
+export const MODELS: ModelOption[] = [
+  {
+    id: 'openai:gpt-4o',
+    label: 'GPT-4o',
+    pricing: { input: 2.5, output: 10 },
+  },
+  {
+    id: 'openai:gpt-4o-mini',
+    label: 'GPT-4o mini',
+    pricing: { input: 0.15, output: 0.6 },
+  },
+  {
+    id: 'anthropic:claude-3-5-sonnet-latest',
+    label: 'Claude 3.5 Sonnet',
+    pricing: { input: 3, output: 15 },
+  },
+  {
+    id: 'anthropic:claude-3-5-haiku-latest',
+    label: 'Claude 3.5 Haiku',
+    pricing: { input: 0.8, output: 4 },
+  },
+  {
+    id: 'azure:gpt-4o',
+    label: 'GPT-4o (Azure)',
+    pricing: { input: 2.5, output: 10 },
+  },
+  {
+    id: 'local:llama3.1',
+    label: 'Llama 3.1 (local)',
+    pricing: { input: 0, output: 0 },
+  },
+]
+
+export const MODEL_POLICY = {
+  defaultModel: 'openai:gpt-4o',
+  // Used for chat names, falls back to the chat model when unavailable
+  namingModel: 'openai:gpt-4o-mini',
+  // Summarizes the start of long chats, falls back to the chat model too
+  summaryModel: 'openai:gpt-4o-mini',
+  // Models that may run on the project's keys when the user did not
+  // provide one. Anything else requires the user's own key.
+  projectKeyModels: [
+    'openai:gpt-4o',
+    'openai:gpt-4o-mini',
+    'azure:gpt-4o',
+    'local:llama3.1',
+  ],
+}
+
+// Model ids saved before providers were added had no provider prefix
+export const normalizeModelId = (modelId: string | null | undefined) => {
+  if (!modelId) {
+    return MODEL_POLICY.defaultModel
+  }
+  return modelId.includes(':') ? modelId : `openai:${modelId}`
+}
@@ -0,0 +1,8 @@
+export const QUERY_AUDIT_CONFIG = {
+  // Entries per page of the audit viewer
+  pageSize: 100,
+  // Rows in one CSV export, narrow the filters for more
+  maxExportRows: 50_000,
+  // Rows fetched per request while exporting, PostgREST caps responses
+  exportBatchSize: 1_000,
+}
@@ -0,0 +1,41 @@
+import type { UserRole } from './diocese'
+
+export interface QueryLimits {
+  // Cancels any single statement running longer than this
+  statementTimeoutMs: number
+  // Kills the session if a transaction is left open and idle this long
+  idleInTransactionTimeoutMs: number
+  // Rows returned to the client, the rest is reported as truncated
+  maxRows: number
+  // Rows written to a downloaded export, which is streamed instead
+  maxExportRows: number
+}
+
+export const QUERY_LIMITS: Record<UserRole, QueryLimits> = {
+  super_admin: {
+    statementTimeoutMs: 60_000,
+    idleInTransactionTimeoutMs: 15_000,
+    maxRows: 50_000,
+    maxExportRows: 1_000_000,
+  },
+  diocese_manager: {
+    statementTimeoutMs: 30_000,
+    idleInTransactionTimeoutMs: 10_000,
+    maxRows: 10_000,
+    maxExportRows: 250_000,
+  },
+  school_manager: {
+    statementTimeoutMs: 15_000,
+    idleInTransactionTimeoutMs: 10_000,
+    maxRows: 5_000,
+    maxExportRows: 100_000,
+  },
+}
+
+// What the chat agent sees of a query it runs itself. Kept small so large
+// results do not flood the model's context or the saved chat.
+export const QUERY_PREVIEW_LIMITS = {
+  maxRows: 50,
+  // Rows are dropped until the serialized preview fits
+  maxChars: 16_000,
+}
@@ -0,0 +1,17 @@
+export const REPORT_CONFIG = {
+  // Rows shown in the email body, the attachment has the full result
+  maxEmailRows: 50,
+  maxRecipients: 20,
+  // Due schedules picked up per runner call
+  batchSize: 10,
+  // Runs kept visible in the history of a schedule
+  historyLength: 20,
+  // Runs still 'running' after this were cut off (a crash or a timeout of
+  // the runner) and are marked as failed
+  staleRunAfterMs: 30 * 60_000,
+  schedulePresets: [
+    { label: 'Every Monday at 07:00', cron: '0 7 * * 1' },
+    { label: 'Every weekday at 07:00', cron: '0 7 * * 1-5' },
+    { label: 'First day of the month at 07:00', cron: '0 7 1 * *' },
+  ],
+}
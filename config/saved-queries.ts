@@ -0,0 +1,7 @@
+export const SAVED_QUERY_CONFIG = {
+  // Dropdown options loaded for each parameter
+  maxParameterOptions: 500,
+  // Columns tried, in order, as the label of an inferred dropdown
+  labelColumns: ['name', 'title', 'label', 'code', 'description'],
+  maxTags: 10,
+}
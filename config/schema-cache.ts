@@ -0,0 +1,6 @@
+export const SCHEMA_CACHE_CONFIG = {
+  // Snapshots older than this are reloaded on next use
+  ttlMs: 10 * 60_000,
+  // Least recently loaded connections are evicted past this
+  maxEntries: 50,
+}
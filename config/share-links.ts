@@ -0,0 +1,9 @@
+export const SHARE_LINK_CONFIG = {
+  // SQL blocks of a shared chat that are captured or re-run
+  maxSharedQueries: 20,
+  expirationOptions: [
+    { label: '1 day', hours: 24 },
+    { label: '1 week', hours: 24 * 7 },
+    { label: '30 days', hours: 24 * 30 },
+  ],
+}
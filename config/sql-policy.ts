@@ -0,0 +1,41 @@
+export type StatementKind = 'select' | 'with' | 'explain'
+
+export const SQL_POLICY_CONFIG = {
+  // Top-level statement types a query is allowed to be.
+  // UNION and VALUES are treated as 'select'.
+  allowedStatements: ['select', 'with', 'explain'] as StatementKind[],
+  // Functions that touch the server (files, backends, config, sequences)
+  // rather than the data, or that run SQL handed to them as text and so
+  // escape the access scope. Rejected wherever they appear in the query.
+  blockedFunctions: [
+    'pg_sleep',
+    'pg_sleep_for',
+    'pg_sleep_until',
+    'pg_stat_file',
+    'pg_terminate_backend',
+    'pg_cancel_backend',
+    'pg_reload_conf',
+    'pg_rotate_logfile',
+    'pg_notify',
+    'loread',
+    'lowrite',
+    'set_config',
+    'nextval',
+    'setval',
+    // Take a query as text
+    'ts_stat',
+    'ts_rewrite',
+  ],
+  // Whole families of the above, matched against the function name
+  blockedFunctionPatterns: [
+    // query_to_xml, table_to_xml, cursor_to_xml, schema_to_xml, ...
+    /_to_xml/,
+    /^pg_read_/,
+    /^pg_ls_/,
+    /^pg_file_/,
+    /^pg_advisory_/,
+    /^pg_stat_reset/,
+    /^lo_/,
+    /^dblink/,
+  ],
+}
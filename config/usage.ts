@@ -0,0 +1,6 @@
+export const USAGE_CONFIG = {
+  // Share of a monthly budget after which chat replies come with a warning
+  warnAtRatio: 0.8,
+  // Chats listed on the usage page, the most expensive first
+  maxChats: 20,
+}
@@ -9,26 +9,644 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      ai_usage: {
+        Row: {
+          chat_id: string | null
+          completion_tokens: number
+          cost_usd: number
+          created_at: string
+          id: string
+          kind: string
+          message_id: string | null
+          model: string
+          prompt_tokens: number
+          total_tokens: number
+          user_id: string
+          uses_project_key: boolean
+        }
+        Insert: {
+          chat_id?: string | null
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          kind: string
+          message_id?: string | null
+          model: string
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id: string
+          uses_project_key: boolean
+        }
+        Update: {
+          chat_id?: string | null
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          message_id?: string | null
+          model?: string
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id?: string
+          uses_project_key?: boolean
+        }
+        Relationships: []
+      }
+      alert_events: {
+        Row: {
+          error: string | null
+          evaluated_at: string
+          id: string
+          match_count: number
+          new_match_count: number
+          notified: boolean
+          rule_id: string
+          status: string
+        }
+        Insert: {
+          error?: string | null
+          evaluated_at?: string
+          id?: string
+          match_count?: number
+          new_match_count?: number
+          notified?: boolean
+          rule_id: string
+          status: string
+        }
+        Update: {
+          error?: string | null
+          evaluated_at?: string
+          id?: string
+          match_count?: number
+          new_match_count?: number
+          notified?: boolean
+          rule_id?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      alert_rules: {
+        Row: {
+          active_keys: string[]
+          channel: string
+          column_name: string
+          connection_profile_id: string
+          created_at: string
+          cron: string
+          id: string
+          is_enabled: boolean
+          key_column: string | null
+          last_run_at: string | null
+          name: string
+          next_run_at: string | null
+          operator: string
+          owner_id: string
+          parameter_values: Json
+          recipients: string[]
+          saved_query_id: string
+          snoozed_until: string | null
+          threshold: number
+          time_zone: string
+          updated_at: string
+          webhook_url: string | null
+        }
+        Insert: {
+          active_keys?: string[]
+          channel: string
+          column_name: string
+          connection_profile_id: string
+          created_at?: string
+          cron: string
+          id?: string
+          is_enabled?: boolean
+          key_column?: string | null
+          last_run_at?: string | null
+          name: string
+          next_run_at?: string | null
+          operator: string
+          owner_id: string
+          parameter_values?: Json
+          recipients?: string[]
+          saved_query_id: string
+          snoozed_until?: string | null
+          threshold: number
+          time_zone?: string
+          updated_at?: string
+          webhook_url?: string | null
+        }
+        Update: {
+          active_keys?: string[]
+          channel?: string
+          column_name?: string
+          connection_profile_id?: string
+          created_at?: string
+          cron?: string
+          id?: string
+          is_enabled?: boolean
+          key_column?: string | null
+          last_run_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          operator?: string
+          owner_id?: string
+          parameter_values?: Json
+          recipients?: string[]
+          saved_query_id?: string
+          snoozed_until?: string | null
+          threshold?: number
+          time_zone?: string
+          updated_at?: string
+          webhook_url?: string | null
+        }
+        Relationships: []
+      }
+      chat_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      chat_messages: {
+        Row: {
+          annotations: Json | null
+          chat_id: string
+          completion_tokens: number | null
+          content: string
+          context_summary: string | null
+          created_at: string
+          id: string
+          model: string | null
+          parent_id: string | null
+          parts: Json | null
+          prompt_tokens: number | null
+          role: string
+          search_vector: unknown
+          seq: number
+          tool_invocations: Json | null
+          total_tokens: number | null
+          user_id: string
+        }
+        Insert: {
+          annotations?: Json | null
+          chat_id: string
+          completion_tokens?: number | null
+          content?: string
+          context_summary?: string | null
+          created_at?: string
+          id: string
+          model?: string | null
+          parent_id?: string | null
+          parts?: Json | null
+          prompt_tokens?: number | null
+          role: string
+          search_vector?: never
+          seq?: never
+          tool_invocations?: Json | null
+          total_tokens?: number | null
+          user_id: string
+        }
+        Update: {
+          annotations?: Json | null
+          chat_id?: string
+          completion_tokens?: number | null
+          content?: string
+          context_summary?: string | null
+          created_at?: string
+          id?: string
+          model?: string | null
+          parent_id?: string | null
+          parts?: Json | null
+          prompt_tokens?: number | null
+          role?: string
+          search_vector?: never
+          seq?: never
+          tool_invocations?: Json | null
+          total_tokens?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       chats: {
         Row: {
+          archived_at: string | null
           created_at: string
+          folder_id: string | null
           id: string
-          messages: Json
+          is_pinned: boolean
+          leaf_message_id: string | null
           name: string
+          search_vector: unknown
+          tags: string[]
           user_id: string
         }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          folder_id?: string | null
+          id?: string
+          is_pinned?: boolean
+          leaf_message_id?: string | null
+          name: string
+          search_vector?: never
+          tags?: string[]
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          folder_id?: string | null
+          id?: string
+          is_pinned?: boolean
+          leaf_message_id?: string | null
+          name?: string
+          search_vector?: never
+          tags?: string[]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      connection_profiles: {
+        Row: {
+          created_at: string
+          encrypted_connection_string: string
+          id: string
+          name: string
+          owner_id: string
+          shared_role: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_connection_string: string
+          id?: string
+          name: string
+          owner_id: string
+          shared_role?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_connection_string?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          shared_role?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      dashboards: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_shared: boolean
+          name: string
+          owner_id: string
+          shared_diocese_ids: number[]
+          shared_role: string | null
+          shared_testing_center_ids: number[]
+          tiles: Json
+          updated_at: string
+        }
         Insert: {
           created_at?: string
+          description?: string | null
           id?: string
-          messages: Json
+          is_shared?: boolean
           name: string
+          owner_id: string
+          shared_diocese_ids?: number[]
+          shared_role?: string | null
+          shared_testing_center_ids?: number[]
+          tiles?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_shared?: boolean
+          name?: string
+          owner_id?: string
+          shared_diocese_ids?: number[]
+          shared_role?: string | null
+          shared_testing_center_ids?: number[]
+          tiles?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      query_audit: {
+        Row: {
+          chat_id: string | null
+          connection_profile_id: string | null
+          created_at: string
+          diocese_ids: number[]
+          duration_ms: number
+          error: string | null
+          id: number
+          message_id: string | null
+          outcome: string
+          rejection_reason: string | null
+          role: string
+          row_count: number | null
+          source: string
+          sql_hash: string | null
+          sql_text: string | null
+          testing_center_ids: number[]
+          tool: string | null
+          user_id: string
+        }
+        Insert: {
+          chat_id?: string | null
+          connection_profile_id?: string | null
+          created_at?: string
+          diocese_ids?: number[]
+          duration_ms: number
+          error?: string | null
+          id?: number
+          message_id?: string | null
+          outcome: string
+          rejection_reason?: string | null
+          role: string
+          row_count?: number | null
+          source: string
+          sql_hash?: string | null
+          sql_text?: string | null
+          testing_center_ids?: number[]
+          tool?: string | null
           user_id: string
         }
         Update: {
+          chat_id?: string | null
+          connection_profile_id?: string | null
+          created_at?: string
+          diocese_ids?: number[]
+          duration_ms?: number
+          error?: string | null
+          id?: number
+          message_id?: string | null
+          outcome?: string
+          rejection_reason?: string | null
+          role?: string
+          row_count?: number | null
+          source?: string
+          sql_hash?: string | null
+          sql_text?: string | null
+          testing_center_ids?: number[]
+          tool?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      report_runs: {
+        Row: {
+          error: string | null
+          finished_at: string | null
+          id: string
+          row_count: number | null
+          schedule_id: string
+          started_at: string
+          status: string
+        }
+        Insert: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          row_count?: number | null
+          schedule_id: string
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          row_count?: number | null
+          schedule_id?: string
+          started_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      report_schedules: {
+        Row: {
+          attachment_format: string
+          connection_profile_id: string
+          created_at: string
+          cron: string
+          dashboard_id: string | null
+          id: string
+          is_enabled: boolean
+          last_run_at: string | null
+          name: string
+          next_run_at: string | null
+          owner_id: string
+          parameter_values: Json
+          recipients: string[]
+          saved_query_id: string | null
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          attachment_format?: string
+          connection_profile_id: string
+          created_at?: string
+          cron: string
+          dashboard_id?: string | null
+          id?: string
+          is_enabled?: boolean
+          last_run_at?: string | null
+          name: string
+          next_run_at?: string | null
+          owner_id: string
+          parameter_values?: Json
+          recipients: string[]
+          saved_query_id?: string | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          attachment_format?: string
+          connection_profile_id?: string
           created_at?: string
+          cron?: string
+          dashboard_id?: string | null
           id?: string
-          messages?: Json
+          is_enabled?: boolean
+          last_run_at?: string | null
           name?: string
+          next_run_at?: string | null
+          owner_id?: string
+          parameter_values?: Json
+          recipients?: string[]
+          saved_query_id?: string | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      saved_queries: {
+        Row: {
+          chart_config: Json | null
+          created_at: string
+          description: string | null
+          id: string
+          parameters: Json
+          sql: string
+          tags: string[]
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chart_config?: Json | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          parameters?: Json
+          sql: string
+          tags?: string[]
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chart_config?: Json | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          parameters?: Json
+          sql?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      share_links: {
+        Row: {
+          chat_id: string
+          connection_profile_id: string
+          created_at: string
+          expires_at: string | null
+          id: string
+          message_id: string | null
+          messages: Json | null
+          mode: string
+          owner_id: string
+          results: Json | null
+          revoked_at: string | null
+          shared_diocese_ids: number[]
+          shared_role: string | null
+          shared_testing_center_ids: number[]
+          sql: string | null
+          title: string
+          token: string
+        }
+        Insert: {
+          chat_id: string
+          connection_profile_id: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          message_id?: string | null
+          messages?: Json | null
+          mode: string
+          owner_id: string
+          results?: Json | null
+          revoked_at?: string | null
+          shared_diocese_ids?: number[]
+          shared_role?: string | null
+          shared_testing_center_ids?: number[]
+          sql?: string | null
+          title: string
+          token: string
+        }
+        Update: {
+          chat_id?: string
+          connection_profile_id?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          message_id?: string | null
+          messages?: Json | null
+          mode?: string
+          owner_id?: string
+          results?: Json | null
+          revoked_at?: string | null
+          shared_diocese_ids?: number[]
+          shared_role?: string | null
+          shared_testing_center_ids?: number[]
+          sql?: string | null
+          title?: string
+          token?: string
+        }
+        Relationships: []
+      }
+      usage_budgets: {
+        Row: {
+          monthly_limit_usd: number
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          monthly_limit_usd: number
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          monthly_limit_usd?: number
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_scopes: {
+        Row: {
+          created_at: string
+          diocese_ids: number[]
+          role: string
+          testing_center_ids: number[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          diocese_ids?: number[]
+          role: string
+          testing_center_ids?: number[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          diocese_ids?: number[]
+          role?: string
+          testing_center_ids?: number[]
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
@@ -38,7 +656,37 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      ai_usage_totals: {
+        Args: {
+          since: string
+        }
+        Returns: {
+          user_id: string
+          chat_id: string | null
+          model: string
+          kind: string
+          calls: number
+          prompt_tokens: number
+          completion_tokens: number
+          total_tokens: number
+          cost_usd: number
+          project_cost_usd: number
+        }[]
+      }
+      chat_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          user_id: string
+          chats: number
+        }[]
+      }
+      search_chats: {
+        Args: {
+          search: string
+          max_results: number
+        }
+        Returns: string[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,12 +1,27 @@
+import { useEffect } from 'react'
 import { useLocalStorage } from 'usehooks-ts'
 
+import { MODEL_POLICY } from '@/config/models'
+
 export function useAppLocalStorage() {
   const [value, setValue] = useLocalStorage('__app-config__', {
-    connectionString: '',
+    // Id of a saved connection profile, credentials stay on the server
+    connectionProfileId: '',
     openaiApiKey: '',
-    model: 'gpt-4o-mini',
+    anthropicApiKey: '',
+    model: MODEL_POLICY.defaultModel,
   })
 
+  // Older versions kept the raw connection string here
+  useEffect(() => {
+    if ('connectionString' in value) {
+      const { connectionString: _, ...rest } = value as typeof value & {
+        connectionString?: string
+      }
+      setValue({ ...rest, connectionProfileId: rest.connectionProfileId ?? '' })
+    }
+  }, [value, setValue])
+
   return {
     value,
     setValue,
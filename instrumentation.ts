@@ -0,0 +1,17 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const { closeAllPools } = await import('@/lib/db-pool')
+
+  // Let in-flight queries finish and close connections cleanly on shutdown.
+  // Next runs its own shutdown on these signals, so the process is left to it.
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      closeAllPools().catch((error) => {
+        console.error('Error closing database pools:', error)
+      })
+    })
+  }
+}
@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import { USER_ROLES, type AccessScope, type UserRole } from '@/config/diocese'
+import type { Database } from '@/database.types'
+import { createClient } from '@/utils/supabase/server'
+
+export const NO_ACCESS_SCOPE_MESSAGE =
+  'No access scope has been assigned to your account. Ask an administrator for access.'
+
+/**
+ * Loads a user's role, dioceses and testing centers from user_scopes.
+ * Returns null when the user has no (valid) scope, which means no access.
+ */
+export async function loadAccessScope(
+  client: SupabaseClient<Database>,
+  userId: string
+): Promise<AccessScope | null> {
+  const { data, error } = await client
+    .from('user_scopes')
+    .select('role, diocese_ids, testing_center_ids')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching user scope:', error)
+    return null
+  }
+
+  if (!data || !USER_ROLES.includes(data.role as UserRole)) {
+    return null
+  }
+
+  return {
+    role: data.role as UserRole,
+    dioceseIds: data.diocese_ids ?? [],
+    testingCenterIds: data.testing_center_ids ?? [],
+  }
+}
+
+/**
+ * Whether a viewer may see rows read with the owner's scope, the rule the
+ * shared dashboards policy applies in SQL: super admins see everything,
+ * diocese managers what was read within their dioceses and school managers
+ * what was read within their own testing centers.
+ */
+export const scopeCovers = (viewer: AccessScope, owner: AccessScope) => {
+  const within = (ids: number[], allowed: number[]) =>
+    ids.every((id) => allowed.includes(id))
+
+  if (viewer.role === 'super_admin') {
+    return true
+  }
+  switch (owner.role) {
+    case 'diocese_manager':
+      return (
+        viewer.role === 'diocese_manager' &&
+        within(owner.dioceseIds, viewer.dioceseIds)
+      )
+    case 'school_manager':
+      return (
+        within(owner.dioceseIds, viewer.dioceseIds) &&
+        (viewer.role === 'diocese_manager' ||
+          within(owner.testingCenterIds, viewer.testingCenterIds))
+      )
+    default:
+      return false
+  }
+}
+
+/**
+ * Resolves the signed-in user and their access scope from the request
+ * cookies. The user id goes into the query audit log.
+ */
+export async function getCurrentUserScope(): Promise<{
+  userId: string
+  scope: AccessScope
+} | null> {
+  const client = await createClient()
+
+  const {
+    data: { user },
+    error,
+  } = await client.auth.getUser()
+
+  if (error || !user) {
+    return null
+  }
+
+  const scope = await loadAccessScope(client, user.id)
+  return scope ? { userId: user.id, scope } : null
+}
+
+/**
+ * Resolves the access scope of the signed-in user from the request cookies.
+ */
+export async function getCurrentAccessScope(): Promise<AccessScope | null> {
+  return (await getCurrentUserScope())?.scope ?? null
+}
@@ -0,0 +1,119 @@
+import type { LanguageModelUsage } from 'ai'
+
+import { MODELS } from '@/config/models'
+import { USAGE_CONFIG } from '@/config/usage'
+import type { Database } from '@/database.types'
+
+export type UsageTotalsRow =
+  Database['public']['Functions']['ai_usage_totals']['Returns'][number]
+
+export const AI_USAGE_KINDS = [
+  'chat',
+  'chat_name',
+  'context_summary',
+  'chart',
+] as const
+
+export type AiUsageKind = (typeof AI_USAGE_KINDS)[number]
+
+export const AI_USAGE_KIND_LABELS: Record<AiUsageKind, string> = {
+  chat: 'Chat replies',
+  chat_name: 'Chat names',
+  context_summary: 'Context summaries',
+  chart: 'Charts',
+}
+
+export type UsageTotals = {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+  // The part paid with the project's keys, what budgets count
+  projectCostUsd: number
+}
+
+export type BudgetStatus = {
+  state: 'ok' | 'warning' | 'exceeded'
+  spentUsd: number
+  limitUsd: number | null
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  projectCostUsd: 0,
+}
+
+// Providers leave usage out (NaN) when they do not report it
+export const tokenCount = (value: number) =>
+  Number.isFinite(value) ? value : 0
+
+export const estimateCost = (modelId: string, usage: LanguageModelUsage) => {
+  const pricing = MODELS.find((option) => option.id === modelId)?.pricing
+  if (!pricing) return 0
+  return (
+    (tokenCount(usage.promptTokens) * pricing.input +
+      tokenCount(usage.completionTokens) * pricing.output) /
+    1_000_000
+  )
+}
+
+/** Budgets and the usage page count calendar months in UTC */
+export const startOfMonth = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+
+export const formatUsd = (value: number) =>
+  value.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value && value < 1 ? 4 : 2,
+  })
+
+export const budgetState = (
+  spentUsd: number,
+  limitUsd: number | null
+): BudgetStatus['state'] => {
+  if (!limitUsd) return 'ok'
+  if (spentUsd >= limitUsd) return 'exceeded'
+  return spentUsd >= limitUsd * USAGE_CONFIG.warnAtRatio ? 'warning' : 'ok'
+}
+
+export const budgetExceededMessage = (budget: BudgetStatus) =>
+  `You have used your monthly AI budget of ${formatUsd(
+    budget.limitUsd ?? 0
+  )}. Add your own API key in the settings or ask an admin to raise it.`
+
+export const sumUsage = (rows: UsageTotalsRow[]): UsageTotals =>
+  rows.reduce(
+    (totals, row) => ({
+      calls: totals.calls + Number(row.calls),
+      promptTokens: totals.promptTokens + Number(row.prompt_tokens),
+      completionTokens: totals.completionTokens + Number(row.completion_tokens),
+      totalTokens: totals.totalTokens + Number(row.total_tokens),
+      costUsd: totals.costUsd + Number(row.cost_usd),
+      projectCostUsd: totals.projectCostUsd + Number(row.project_cost_usd),
+    }),
+    EMPTY_USAGE_TOTALS
+  )
+
+/** Totals per key, a row with several keys (e.g. dioceses) counts in each */
+export const groupUsage = (
+  rows: UsageTotalsRow[],
+  keysOf: (row: UsageTotalsRow) => string[]
+) => {
+  const groups = new Map<string, UsageTotalsRow[]>()
+  for (const row of rows) {
+    for (const key of keysOf(row)) {
+      groups.set(key, [...(groups.get(key) ?? []), row])
+    }
+  }
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    totals: sumUsage(group),
+  })).sort((a, b) => b.totals.costUsd - a.totals.costUsd)
+}
@@ -0,0 +1,248 @@
+import { ALERT_CONFIG } from '@/config/alerts'
+import type { Database } from '@/database.types'
+import { loadAccessScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import {
+  describeCondition,
+  findAlertMatches,
+  toAlertRule,
+  type AlertMatch,
+  type AlertRule,
+} from '@/lib/alerts'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  resolveConnectionStringForUser,
+} from '@/lib/connection-profiles'
+import { sendMail } from '@/lib/mailer'
+import { escapeHtml } from '@/lib/report-email'
+import { nextRunAt } from '@/lib/report-schedule'
+import { runSavedQuerySql } from '@/lib/saved-query-execution'
+import { postWebhook } from '@/lib/webhooks'
+import { createAdminClient } from '@/utils/supabase/admin'
+
+type RuleRow = Database['public']['Tables']['alert_rules']['Row']
+
+const matchText = (rule: AlertRule, match: AlertMatch) =>
+  `${rule.keyColumn ? `${match.key}: ` : ''}${rule.columnName} = ${match.value.toLocaleString('en-US')}`
+
+const sendEmail = async (rule: AlertRule, matches: AlertMatch[]) => {
+  const listed = matches.slice(0, ALERT_CONFIG.maxNotifiedMatches)
+  const more = matches.length - listed.length
+
+  await sendMail({
+    to: rule.recipients,
+    subject: `Alert: ${rule.name}`,
+    html: `<!doctype html><html><body style="font-family:sans-serif;color:#111827">
+<h1 style="font-size:20px">${escapeHtml(rule.name)}</h1>
+<p>${escapeHtml(describeCondition(rule))}</p>
+<ul>${listed.map((match) => `<li>${escapeHtml(matchText(rule, match))}</li>`).join('')}</ul>
+${more > 0 ? `<p style="color:#6b7280">And ${more} more.</p>` : ''}
+</body></html>`,
+  })
+}
+
+const callWebhook = async (
+  rule: AlertRule,
+  matches: AlertMatch[],
+  evaluatedAt: Date
+) => {
+  await postWebhook(
+    rule.webhookUrl!,
+    {
+      rule: {
+        id: rule.id,
+        name: rule.name,
+        condition: describeCondition(rule),
+      },
+      matches: matches.slice(0, ALERT_CONFIG.maxNotifiedMatches),
+      matchCount: matches.length,
+      evaluatedAt: evaluatedAt.toISOString(),
+    },
+    ALERT_CONFIG.webhookTimeoutMs
+  )
+}
+
+const loadMatches = async (rule: AlertRule, ownerId: string) => {
+  const admin = createAdminClient()
+
+  const scope = await loadAccessScope(admin, ownerId)
+  if (!scope) {
+    return NO_ACCESS_SCOPE_MESSAGE
+  }
+
+  const connectionString = await resolveConnectionStringForUser(
+    ownerId,
+    scope.role,
+    rule.connectionProfileId
+  )
+  if (!connectionString) {
+    return CONNECTION_PROFILE_NOT_FOUND_MESSAGE
+  }
+
+  const { data: query } = await admin
+    .from('saved_queries')
+    .select('sql')
+    .eq('id', rule.savedQueryId)
+    .eq('user_id', ownerId)
+    .maybeSingle()
+  if (!query) {
+    return 'The saved query of this alert no longer exists'
+  }
+
+  const result = await runSavedQuerySql(
+    query.sql,
+    rule.parameterValues,
+    connectionString,
+    scope,
+    {
+      userId: ownerId,
+      source: 'alert',
+      connectionProfileId: rule.connectionProfileId,
+    }
+  )
+  if (typeof result === 'string') {
+    return result
+  }
+
+  const rows = result.rows
+  if (!result.fields.some((field) => field.name === rule.columnName)) {
+    return `The query no longer returns a ${rule.columnName} column`
+  }
+
+  return findAlertMatches(rows, rule)
+}
+
+/**
+ * Evaluates an alert rule with its owner's scope. Only matches that were
+ * not active on the previous evaluation are notified, so an alert fires
+ * once when a row crosses the threshold and again only after it recovered.
+ * While a rule is snoozed nothing is sent and the active matches are kept,
+ * so matches still open when the snooze ends are notified then.
+ */
+export async function evaluateAlert(row: RuleRow) {
+  const admin = createAdminClient()
+  const rule = toAlertRule(row)
+  const evaluatedAt = new Date()
+
+  const record = async (
+    event: Omit<
+      Database['public']['Tables']['alert_events']['Insert'],
+      'rule_id' | 'evaluated_at'
+    >
+  ) => {
+    const { error } = await admin.from('alert_events').insert({
+      ...event,
+      rule_id: rule.id,
+      evaluated_at: evaluatedAt.toISOString(),
+    })
+    if (error) {
+      console.error('Error recording alert event:', error)
+    }
+  }
+
+  const matches = await loadMatches(rule, row.owner_id).catch(
+    (error: unknown) => {
+      console.error('Error evaluating alert:', error)
+      return error instanceof Error ? error.message : 'Unexpected error'
+    }
+  )
+  if (typeof matches === 'string') {
+    await record({ status: 'failed', error: matches })
+    return { error: matches }
+  }
+
+  const activeKeys = new Set(rule.activeKeys)
+  const newMatches = matches.filter((match) => !activeKeys.has(match.key))
+  const isSnoozed =
+    !!rule.snoozedUntil && new Date(rule.snoozedUntil) > evaluatedAt
+  const event = {
+    status: matches.length ? 'triggered' : 'ok',
+    match_count: matches.length,
+    new_match_count: newMatches.length,
+  }
+
+  if (isSnoozed) {
+    await record(event)
+    return { success: 'Alert evaluated, notifications are snoozed' }
+  }
+
+  if (newMatches.length) {
+    try {
+      if (rule.channel === 'webhook') {
+        await callWebhook(rule, newMatches, evaluatedAt)
+      } else {
+        await sendEmail(rule, newMatches)
+      }
+    } catch (error) {
+      // Active keys stay as they were so the next evaluation retries
+      console.error('Error sending alert:', error)
+      const message =
+        error instanceof Error ? error.message : 'Unexpected error'
+      await record({ ...event, status: 'failed', error: message })
+      return { error: message }
+    }
+  }
+
+  const { error } = await admin
+    .from('alert_rules')
+    .update({ active_keys: matches.map((match) => match.key) })
+    .eq('id', rule.id)
+  if (error) {
+    console.error('Error updating alert rule:', error)
+  }
+
+  await record({ ...event, notified: newMatches.length > 0 })
+  return {
+    success: newMatches.length
+      ? `Alert triggered for ${newMatches.length} new matches`
+      : matches.length
+        ? 'No new matches since the last notification'
+        : 'No matches',
+  }
+}
+
+/**
+ * Evaluates the enabled rules that are due, claiming each one the same way
+ * as scheduled reports so overlapping runner calls never notify twice.
+ */
+export async function runDueAlerts(now = new Date()) {
+  const admin = createAdminClient()
+
+  const { data, error } = await admin
+    .from('alert_rules')
+    .select('*')
+    .eq('is_enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at')
+    .limit(ALERT_CONFIG.batchSize)
+
+  if (error) {
+    console.error('Error fetching due alerts:', error)
+    return { error: 'Error fetching due alerts' }
+  }
+
+  let evaluated = 0
+  let failed = 0
+  for (const rule of data) {
+    const { data: claimed } = await admin
+      .from('alert_rules')
+      .update({
+        next_run_at:
+          nextRunAt(rule.cron, rule.time_zone, now)?.toISOString() ?? null,
+        last_run_at: now.toISOString(),
+      })
+      .eq('id', rule.id)
+      .eq('next_run_at', rule.next_run_at!)
+      .select('id')
+
+    if (!claimed?.length) continue
+
+    const result = await evaluateAlert(rule)
+    if (result.error) {
+      failed++
+    } else {
+      evaluated++
+    }
+  }
+
+  return { data: { evaluated, failed } }
+}
@@ -0,0 +1,148 @@
+import type { Database } from '@/database.types'
+import { toNumber } from '@/lib/result-columns'
+
+export const ALERT_OPERATORS = {
+  lt: {
+    label: 'is below',
+    test: (value: number, threshold: number) => value < threshold,
+  },
+  lte: {
+    label: 'is at most',
+    test: (value: number, threshold: number) => value <= threshold,
+  },
+  gt: {
+    label: 'is above',
+    test: (value: number, threshold: number) => value > threshold,
+  },
+  gte: {
+    label: 'is at least',
+    test: (value: number, threshold: number) => value >= threshold,
+  },
+  eq: {
+    label: 'equals',
+    test: (value: number, threshold: number) => value === threshold,
+  },
+  neq: {
+    label: 'does not equal',
+    test: (value: number, threshold: number) => value !== threshold,
+  },
+}
+
+export type AlertOperator = keyof typeof ALERT_OPERATORS
+
+export const ALERT_CHANNELS = ['email', 'webhook'] as const
+
+export type AlertChannel = (typeof ALERT_CHANNELS)[number]
+
+export type AlertEvent = {
+  id: string
+  status: 'ok' | 'triggered' | 'failed'
+  matchCount: number
+  newMatchCount: number
+  notified: boolean
+  error: string | null
+  evaluatedAt: string
+}
+
+export type AlertRule = {
+  id: string
+  name: string
+  savedQueryId: string
+  connectionProfileId: string
+  parameterValues: Record<string, string>
+  columnName: string
+  operator: AlertOperator
+  threshold: number
+  keyColumn: string | null
+  cron: string
+  timeZone: string
+  channel: AlertChannel
+  recipients: string[]
+  webhookUrl: string | null
+  isEnabled: boolean
+  snoozedUntil: string | null
+  activeKeys: string[]
+  nextRunAt: string | null
+  lastRunAt: string | null
+  events: AlertEvent[]
+}
+
+export type AlertMatch = {
+  key: string
+  value: number
+  row: Record<string, unknown>
+}
+
+// Key of a rule without a key column, the whole result is one alert
+const RESULT_KEY = '*'
+
+export const toAlertEvent = (
+  row: Database['public']['Tables']['alert_events']['Row']
+): AlertEvent => ({
+  id: row.id,
+  status: row.status as AlertEvent['status'],
+  matchCount: row.match_count,
+  newMatchCount: row.new_match_count,
+  notified: row.notified,
+  error: row.error,
+  evaluatedAt: row.evaluated_at,
+})
+
+export const toAlertRule = (
+  row: Database['public']['Tables']['alert_rules']['Row'],
+  events: AlertEvent[] = []
+): AlertRule => ({
+  id: row.id,
+  name: row.name,
+  savedQueryId: row.saved_query_id,
+  connectionProfileId: row.connection_profile_id,
+  parameterValues: row.parameter_values as Record<string, string>,
+  columnName: row.column_name,
+  operator: row.operator as AlertOperator,
+  threshold: row.threshold,
+  keyColumn: row.key_column,
+  cron: row.cron,
+  timeZone: row.time_zone,
+  channel: row.channel as AlertChannel,
+  recipients: row.recipients,
+  webhookUrl: row.webhook_url,
+  isEnabled: row.is_enabled,
+  snoozedUntil: row.snoozed_until,
+  activeKeys: row.active_keys,
+  nextRunAt: row.next_run_at,
+  lastRunAt: row.last_run_at,
+  events,
+})
+
+// Plain sentence for a condition, e.g. "pct_believe is below 60"
+export const describeCondition = (
+  rule: Pick<AlertRule, 'columnName' | 'operator' | 'threshold' | 'keyColumn'>
+) =>
+  `${rule.columnName} ${ALERT_OPERATORS[rule.operator].label} ${rule.threshold.toLocaleString()}${
+    rule.keyColumn ? ` for any ${rule.keyColumn}` : ''
+  }`
+
+/**
+ * Returns the rows whose condition column holds for the threshold. Rows
+ * with a missing or non-numeric value never match. Matches are keyed by the
+ * key column so the same row can be recognised on the next evaluation.
+ */
+export function findAlertMatches(
+  rows: Record<string, unknown>[],
+  rule: Pick<AlertRule, 'columnName' | 'operator' | 'threshold' | 'keyColumn'>
+): AlertMatch[] {
+  const { test } = ALERT_OPERATORS[rule.operator]
+  const matches = new Map<string, AlertMatch>()
+
+  for (const row of rows) {
+    const value = toNumber(row[rule.columnName])
+    if (value === null || !test(value, rule.threshold)) continue
+
+    const key = rule.keyColumn ? String(row[rule.keyColumn] ?? '') : RESULT_KEY
+    if (!matches.has(key)) {
+      matches.set(key, { key, value, row })
+    }
+  }
+
+  return Array.from(matches.values())
+}
@@ -0,0 +1,200 @@
+import { Resvg } from '@resvg/resvg-js'
+
+import type { Config, Result } from '@/lib/chart'
+import { transformDataForMultiLineChart } from '@/lib/rechart-format'
+
+const WIDTH = 720
+const HEIGHT = 360
+const MARGIN = { top: 48, right: 24, bottom: 56, left: 64 }
+// Like DynamicChart, bar and pie charts only show the first rows
+const MAX_CATEGORIES = 20
+
+// The app's chart colors, CSS variables are not available in an image
+const PALETTE = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed']
+
+type Row = Record<string, string | number | null>
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`)
+
+const toNumber = (value: unknown) => {
+  const number = Number(value)
+  return value === null || value === '' || Number.isNaN(number) ? null : number
+}
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text
+
+// Generated configs use hsl(var(--chart-n)), those fall back to the palette
+const colorOf = (config: Config, key: string, index: number) => {
+  const color = config.colors?.[key]
+  return color && !color.includes('var(')
+    ? color
+    : PALETTE[index % PALETTE.length]
+}
+
+const text = (x: number, y: number, content: string, attributes = '') =>
+  `<text x="${x}" y="${y}" font-family="sans-serif" font-size="11" fill="#374151" ${attributes}>${escapeXml(content)}</text>`
+
+const legend = (config: Config, keys: string[]) =>
+  keys
+    .map((key, index) => {
+      const x = MARGIN.left + index * 140
+      const y = HEIGHT - 16
+      return `<rect x="${x}" y="${y - 9}" width="10" height="10" fill="${colorOf(config, key, index)}"/>${text(x + 14, y, truncate(key, 18))}`
+    })
+    .join('')
+
+const cartesian = (
+  rows: Row[],
+  config: Config,
+  xKey: string,
+  keys: string[]
+) => {
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+  const values = rows.flatMap((row) =>
+    keys.map((key) => toNumber(row[key])).filter((v): v is number => v !== null)
+  )
+  const max = Math.max(0, ...values)
+  const min = Math.min(0, ...values)
+  const range = max - min || 1
+  const y = (value: number) =>
+    MARGIN.top + plotHeight - ((value - min) / range) * plotHeight
+  const step = plotWidth / Math.max(rows.length, 1)
+  const x = (index: number) => MARGIN.left + step * index + step / 2
+
+  const parts: string[] = []
+
+  // Horizontal grid with 5 ticks
+  for (let i = 0; i <= 4; i++) {
+    const value = min + (range * i) / 4
+    parts.push(
+      `<line x1="${MARGIN.left}" x2="${WIDTH - MARGIN.right}" y1="${y(value)}" y2="${y(value)}" stroke="#e5e7eb"/>`,
+      text(
+        MARGIN.left - 6,
+        y(value) + 4,
+        value.toLocaleString('en-US', { maximumFractionDigits: 2 }),
+        'text-anchor="end"'
+      )
+    )
+  }
+
+  // Only label as many x values as fit
+  const labelEvery = Math.ceil(rows.length / 12)
+  rows.forEach((row, index) => {
+    if (index % labelEvery === 0) {
+      parts.push(
+        text(
+          x(index),
+          HEIGHT - MARGIN.bottom + 16,
+          truncate(String(row[xKey] ?? ''), 14),
+          'text-anchor="middle"'
+        )
+      )
+    }
+  })
+
+  keys.forEach((key, keyIndex) => {
+    const color = colorOf(config, key, keyIndex)
+    const points = rows
+      .map((row, index) => ({ index, value: toNumber(row[key]) }))
+      .filter((p): p is { index: number; value: number } => p.value !== null)
+
+    switch (config.type) {
+      case 'bar': {
+        const barWidth = (step * 0.8) / keys.length
+        for (const point of points) {
+          const left = x(point.index) - step * 0.4 + barWidth * keyIndex
+          const top = Math.min(y(point.value), y(0))
+          const height = Math.abs(y(point.value) - y(0))
+          parts.push(
+            `<rect x="${left}" y="${top}" width="${barWidth}" height="${height}" fill="${color}"/>`
+          )
+        }
+        break
+      }
+      case 'scatter':
+        for (const point of points) {
+          parts.push(
+            `<circle cx="${x(point.index)}" cy="${y(point.value)}" r="4" fill="${color}"/>`
+          )
+        }
+        break
+      default: {
+        const line = points.map((p) => `${x(p.index)},${y(p.value)}`).join(' ')
+        if (config.type === 'area' && points.length) {
+          const first = points[0]
+          const last = points[points.length - 1]
+          parts.push(
+            `<polygon points="${x(first.index)},${y(0)} ${line} ${x(last.index)},${y(0)}" fill="${color}" fill-opacity="0.3"/>`
+          )
+        }
+        parts.push(
+          `<polyline points="${line}" fill="none" stroke="${color}" stroke-width="2"/>`
+        )
+      }
+    }
+  })
+
+  return parts.join('') + (config.legend ? legend(config, keys) : '')
+}
+
+const pie = (rows: Row[], config: Config) => {
+  const key = config.yKeys[0]
+  const slices = rows
+    .map((row) => ({
+      label: String(row[config.xKey] ?? ''),
+      value: toNumber(row[key]) ?? 0,
+    }))
+    .filter((slice) => slice.value > 0)
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0) || 1
+  const cx = WIDTH / 3
+  const cy = MARGIN.top + (HEIGHT - MARGIN.top - 16) / 2
+  const r = (HEIGHT - MARGIN.top - 32) / 2
+
+  let angle = -Math.PI / 2
+  return slices
+    .map((slice, index) => {
+      const sweep = (slice.value / total) * Math.PI * 2
+      const end = angle + sweep
+      const color = colorOf(config, slice.label, index)
+      const path =
+        sweep >= Math.PI * 2 - 1e-6
+          ? `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${color}"/>`
+          : `<path d="M${cx},${cy} L${cx + r * Math.cos(angle)},${cy + r * Math.sin(angle)} A${r},${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${cx + r * Math.cos(end)},${cy + r * Math.sin(end)} Z" fill="${color}"/>`
+      angle = end
+      const legendY = MARGIN.top + index * 16
+      return `${path}<rect x="${WIDTH * 0.62}" y="${legendY - 9}" width="10" height="10" fill="${color}"/>${text(WIDTH * 0.62 + 14, legendY, `${truncate(slice.label, 28)} (${Math.round((slice.value / total) * 100)}%)`)}`
+    })
+    .join('')
+}
+
+/**
+ * Draws a chart config as a PNG for places that cannot run Recharts, like
+ * emails. Mirrors the chart types of DynamicChart in a simplified style.
+ */
+export function renderChartPng(data: Result[], config: Config): Buffer {
+  let rows: Row[] = data
+  let xKey = config.xKey
+  let keys = config.yKeys
+
+  if (config.type === 'line' && config.multipleLines && data.length) {
+    const transformed = transformDataForMultiLineChart(data, config)
+    rows = transformed.data
+    xKey = transformed.xAxisField
+    keys = transformed.lineFields
+  }
+  if (config.type === 'bar' || config.type === 'pie') {
+    rows = rows.slice(0, MAX_CATEGORIES)
+  }
+
+  const body =
+    config.type === 'pie'
+      ? pie(rows, config)
+      : cartesian(rows, config, xKey, keys)
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}"><rect width="100%" height="100%" fill="#ffffff"/>${text(MARGIN.left, 24, config.title, 'font-size="15" font-weight="bold" fill="#111827"')}${body}</svg>`
+
+  return new Resvg(svg).render().asPng()
+}
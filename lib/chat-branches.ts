@@ -0,0 +1,87 @@
+import type { Message } from 'ai'
+
+import { toMessage, type ChatMessageRow } from '@/lib/chat-messages'
+
+/**
+ * A chat as a tree of messages. Editing a question or regenerating an answer
+ * adds a sibling under the same parent instead of replacing the message, so
+ * every branch stays reachable. `leafId` is the last message of the branch
+ * that is shown.
+ */
+export type ChatTreeNode = { message: Message; parentId: string | null }
+
+export type ChatTree = { nodes: ChatTreeNode[]; leafId: string | null }
+
+export const EMPTY_CHAT_TREE: ChatTree = { nodes: [], leafId: null }
+
+/**
+ * Adds a thread (root to leaf) to the tree and makes it the shown branch.
+ * Messages already in the tree are replaced, e.g. with their finished text.
+ */
+export const mergeThread = (tree: ChatTree, thread: Message[]): ChatTree => {
+  const nodes = [...tree.nodes]
+  const indexById = new Map(
+    nodes.map((node, index) => [node.message.id, index])
+  )
+
+  thread.forEach((message, index) => {
+    const node = { message, parentId: index ? thread[index - 1].id : null }
+    const existing = indexById.get(message.id)
+    if (existing === undefined) {
+      indexById.set(message.id, nodes.length)
+      nodes.push(node)
+    } else {
+      nodes[existing] = node
+    }
+  })
+
+  return { nodes, leafId: thread.at(-1)?.id ?? tree.leafId }
+}
+
+/** Builds the tree from a chat's `chat_messages` rows, oldest first */
+export const toChatTree = (
+  rows: ChatMessageRow[],
+  leafId: string | null
+): ChatTree => ({
+  nodes: rows.map((row) => ({
+    message: toMessage(row),
+    parentId: row.parent_id,
+  })),
+  leafId: leafId ?? rows.at(-1)?.id ?? null,
+})
+
+/** The messages from the root down to `leafId` */
+export const getThread = (tree: ChatTree, leafId: string | null) => {
+  const byId = new Map(tree.nodes.map((node) => [node.message.id, node]))
+  const thread: Message[] = []
+
+  let node = leafId ? byId.get(leafId) : undefined
+  while (node) {
+    thread.unshift(node.message)
+    node = node.parentId ? byId.get(node.parentId) : undefined
+  }
+  return thread
+}
+
+/** Ids of the message and its alternatives, oldest first */
+export const getSiblingIds = (tree: ChatTree, messageId: string) => {
+  const node = tree.nodes.find((node) => node.message.id === messageId)
+  if (!node) {
+    return [messageId]
+  }
+  return tree.nodes
+    .filter((sibling) => sibling.parentId === node.parentId)
+    .map((sibling) => sibling.message.id)
+}
+
+/** Follows the newest child down, switching to a branch shows its latest turn */
+export const getLatestLeafId = (tree: ChatTree, messageId: string) => {
+  let leafId = messageId
+  for (;;) {
+    const child = tree.nodes.findLast((node) => node.parentId === leafId)
+    if (!child) {
+      return leafId
+    }
+    leafId = child.message.id
+  }
+}
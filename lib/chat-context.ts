@@ -0,0 +1,235 @@
+import {
+  convertToCoreMessages,
+  generateText,
+  type LanguageModel,
+  type LanguageModelUsage,
+  type Message,
+  type ToolInvocation,
+} from 'ai'
+
+import { CHAT_CONTEXT_CONFIG } from '@/config/chat-context'
+
+/** Sent with every reply, says how the context of the turn was compacted */
+export type ContextAnnotation = {
+  type: 'context'
+  // Estimated tokens of the whole thread and of what was sent for it
+  threadTokens: number
+  sentTokens: number
+  // Messages replaced by the summary
+  summarizedMessages: number
+  elidedToolResults: number
+}
+
+export type ChatContext = {
+  messages: Message[]
+  // Covers the messages that were left out, for the system prompt
+  summary: string | null
+  // A summary written for this turn, stored on the message it ends with
+  newSummary: { messageId: string; summary: string } | null
+  // Tokens of the summary call, when there was one
+  summaryUsage: LanguageModelUsage | null
+  annotation: ContextAnnotation
+}
+
+const SCHEMA_TOOL = 'getPublicTablesWithColumns'
+
+const STALE_RESULT_NOTE =
+  'Output of an earlier turn, left out to save context. Call the tool again if it is needed.'
+
+const SCHEMA_NOTE = `Schema from an earlier turn, only the tables used so far are kept. Call ${SCHEMA_TOOL} again for the columns of the other tables.`
+
+const SUMMARY_SYSTEM = `
+You summarize the start of a conversation between a user and a PostgreSQL assistant, so the assistant can continue it without the full messages.
+Keep:
+• What the user asked and what they are trying to find out
+• The answers and the numbers that mattered
+• The SQL that worked, verbatim
+• The tables and columns that were used, and mistakes to avoid
+Extend the previous summary when there is one. Write plain text without a preamble, as short as the content allows.
+`
+
+export const isContextAnnotation = (
+  value: unknown
+): value is ContextAnnotation =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as { type?: unknown }).type === 'context'
+
+export const getContextAnnotation = (message: Message) =>
+  message.annotations?.find(isContextAnnotation)
+
+// Measured on what the model gets, the UI fields of a message repeat its text
+const estimateTokens = (messages: Message[], summary: string | null = null) =>
+  Math.ceil(
+    (JSON.stringify(convertToCoreMessages(messages)).length +
+      (summary?.length ?? 0)) /
+      CHAT_CONTEXT_CONFIG.charsPerToken
+  )
+
+const turnStarts = (messages: Message[]) =>
+  messages.flatMap((message, index) => (message.role === 'user' ? [index] : []))
+
+// Text that can name a table: answers, questions and the SQL of tool calls
+const usedText = (messages: Message[]) =>
+  messages
+    .flatMap((message) => [
+      message.content,
+      ...(message.toolInvocations ?? []).map((invocation) =>
+        JSON.stringify(invocation.args ?? {})
+      ),
+    ])
+    .join('\n')
+    .toLowerCase()
+
+const isReferenced = (tableName: string, text: string) =>
+  new RegExp(
+    `\\b${tableName.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`
+  ).test(text)
+
+const elideInvocation = (
+  invocation: ToolInvocation,
+  text: string
+): ToolInvocation => {
+  if (invocation.state !== 'result') {
+    return invocation
+  }
+
+  if (invocation.toolName === SCHEMA_TOOL && Array.isArray(invocation.result)) {
+    const tables = invocation.result as { tableName: string }[]
+    const kept = tables.filter((table) => isReferenced(table.tableName, text))
+    if (kept.length === tables.length) {
+      return invocation
+    }
+    return {
+      ...invocation,
+      result: {
+        note: SCHEMA_NOTE,
+        tables: kept,
+        otherTables: tables
+          .filter((table) => !kept.includes(table))
+          .map((table) => table.tableName),
+      },
+    }
+  }
+
+  if (
+    JSON.stringify(invocation.result ?? null).length <=
+    CHAT_CONTEXT_CONFIG.maxStaleToolResultChars
+  ) {
+    return invocation
+  }
+  return { ...invocation, result: { note: STALE_RESULT_NOTE } }
+}
+
+// Tool results are in toolInvocations and again in the message parts
+const mapInvocations = (
+  message: Message,
+  map: (invocation: ToolInvocation) => ToolInvocation
+): Message => ({
+  ...message,
+  toolInvocations: message.toolInvocations?.map(map),
+  parts: message.parts?.map((part) =>
+    part.type === 'tool-invocation'
+      ? { ...part, toolInvocation: map(part.toolInvocation) }
+      : part
+  ),
+})
+
+const transcript = (messages: Message[]) =>
+  messages
+    .map((message) =>
+      [
+        `${message.role}: ${message.content}`,
+        ...(message.toolInvocations ?? []).map(
+          (invocation) =>
+            `[${invocation.toolName} ${JSON.stringify(invocation.args ?? {})}${
+              invocation.state === 'result'
+                ? ` → ${JSON.stringify(invocation.result ?? null).slice(0, 500)}`
+                : ''
+            }]`
+        ),
+      ].join('\n')
+    )
+    .join('\n\n')
+
+/**
+ * Fits a thread into the context budget before it is sent to the model.
+ * Tool results of older turns are cut down (the schema to the tables used so
+ * far), and when the thread is still too large everything before the recent
+ * turns is replaced by a summary. A summary covers the thread up to the
+ * message it is stored on, later turns extend it instead of starting over.
+ */
+export async function compactChatContext(
+  messages: Message[],
+  summaries: Record<string, string>,
+  model: LanguageModel
+): Promise<ChatContext> {
+  const starts = turnStarts(messages)
+  const freshFrom = starts[starts.length - CHAT_CONTEXT_CONFIG.freshToolTurns]
+  const keepFrom = starts[starts.length - CHAT_CONTEXT_CONFIG.recentTurns] ?? 0
+
+  const text = usedText(messages)
+  const elided = new Set<string>()
+  const compacted = messages.map((message, index) =>
+    freshFrom === undefined || index >= freshFrom
+      ? message
+      : mapInvocations(message, (invocation) => {
+          const next = elideInvocation(invocation, text)
+          if (next !== invocation) {
+            elided.add(invocation.toolCallId)
+          }
+          return next
+        })
+  )
+
+  // The latest stored summary before the recent turns replaces what it covers
+  let start = 0
+  let summary: string | null = null
+  for (let index = keepFrom - 1; index >= 0; index--) {
+    if (summaries[messages[index].id]) {
+      start = index + 1
+      summary = summaries[messages[index].id]
+      break
+    }
+  }
+
+  let newSummary: ChatContext['newSummary'] = null
+  let summaryUsage: ChatContext['summaryUsage'] = null
+  if (
+    keepFrom > start &&
+    estimateTokens(compacted.slice(start), summary) >
+      CHAT_CONTEXT_CONFIG.maxMessageTokens
+  ) {
+    try {
+      const result = await generateText({
+        model,
+        system: SUMMARY_SYSTEM,
+        prompt: `${
+          summary ? `<SUMMARY>${summary}</SUMMARY>\n` : ''
+        }<MESSAGES>${transcript(compacted.slice(start, keepFrom))}</MESSAGES>`,
+      })
+      summary = result.text
+      start = keepFrom
+      newSummary = { messageId: messages[keepFrom - 1].id, summary }
+      summaryUsage = result.usage
+    } catch (error) {
+      // The turn still works without it, it is just larger
+      console.error('Error summarizing chat context:', error)
+    }
+  }
+
+  const sent = compacted.slice(start)
+  return {
+    messages: sent,
+    summary,
+    newSummary,
+    summaryUsage,
+    annotation: {
+      type: 'context',
+      threadTokens: estimateTokens(messages),
+      sentTokens: estimateTokens(sent, summary),
+      summarizedMessages: start,
+      elidedToolResults: elided.size,
+    },
+  }
+}
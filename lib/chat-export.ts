@@ -0,0 +1,623 @@
+import path from 'node:path'
+
+import type { Message } from 'ai'
+import { Marked, type Token, type Tokens } from 'marked'
+import PDFDocument from 'pdfkit'
+
+import { CHAT_EXPORT_CONFIG } from '@/config/chat-export'
+import { sqlResultKey } from '@/lib/chat-messages'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+import { cellText, escapeHtml } from '@/lib/report-email'
+
+export const CHAT_EXPORT_FORMATS = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+}
+
+export type ChatExportFormat = keyof typeof CHAT_EXPORT_FORMATS
+
+/** A SQL block of the chat, run again with the exporting user's scope */
+export type ChatExportQuery = {
+  result: LimitedQueryResult | string
+  chart: { title: string; png: Buffer } | null
+}
+
+export type ChatExport = {
+  title: string
+  // Names of the exported dioceses, null when the user sees all of them
+  dioceses: string[] | null
+  exportedAt: Date
+  messages: Message[]
+  // By sqlResultKey, blocks past the query limit are missing
+  queries: Record<string, ChatExportQuery>
+  // Moves the SQL out of the way: folded in HTML, an appendix in the PDF
+  collapseSql: boolean
+}
+
+type Block =
+  | { type: 'question'; number: number; text: string }
+  | { type: 'narrative'; tokens: Token[] }
+  | {
+      type: 'query'
+      number: number
+      sql: string
+      query: ChatExportQuery | undefined
+    }
+
+type QueryBlock = Extract<Block, { type: 'query' }>
+
+type Table = { columns: string[]; rows: string[][]; notes: string[] }
+
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+const isSafeUrl = (href: string) => {
+  try {
+    return SAFE_URL_PROTOCOLS.includes(new URL(href).protocol)
+  } catch {
+    return false
+  }
+}
+
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    // Markup in an answer is shown as text, not rendered
+    html: ({ text }) => escapeHtml(text),
+    // Links and images with other URLs (javascript:, data:, ...) keep only
+    // their text, false renders the rest as usual
+    link({ href, tokens }) {
+      return isSafeUrl(href) ? false : this.parser.parseInline(tokens)
+    },
+    image: ({ href, text }) => (isSafeUrl(href) ? false : escapeHtml(text)),
+  },
+})
+
+const isSql = (token: Token): token is Tokens.Code =>
+  token.type === 'code' && /^sql\b/.test((token as Tokens.Code).lang ?? '')
+
+// Questions and answers of the thread in order, answers split at their SQL
+// blocks so each format can put the results in their place
+const toBlocks = (chat: ChatExport) => {
+  const blocks: Block[] = []
+  let questions = 0
+  let queries = 0
+
+  for (const message of chat.messages) {
+    if (message.role === 'user') {
+      blocks.push({
+        type: 'question',
+        number: ++questions,
+        text: message.content,
+      })
+      continue
+    }
+    if (message.role !== 'assistant' || !message.content.trim()) {
+      continue
+    }
+
+    let narrative: Token[] = []
+    for (const token of markdown.lexer(message.content)) {
+      if (!isSql(token)) {
+        narrative.push(token)
+        continue
+      }
+      if (narrative.length) {
+        blocks.push({ type: 'narrative', tokens: narrative })
+        narrative = []
+      }
+      blocks.push({
+        type: 'query',
+        number: ++queries,
+        sql: token.text.trim(),
+        query: chat.queries[sqlResultKey(token.text, message.id)],
+      })
+    }
+    if (narrative.length) {
+      blocks.push({ type: 'narrative', tokens: narrative })
+    }
+  }
+
+  return blocks
+}
+
+const toTable = (result: LimitedQueryResult): Table => {
+  const rows = result.rows.slice(0, CHAT_EXPORT_CONFIG.maxTableRows)
+
+  return {
+    columns: result.fields.map((field) => field.name),
+    rows: rows.map((row) =>
+      result.fields.map((field) => cellText(row[field.name]))
+    ),
+    notes: [
+      result.rows.length > rows.length &&
+        `Showing ${rows.length} of ${result.rows.length.toLocaleString('en-US')} rows.`,
+      result.truncated &&
+        `The result was cut off at ${result.rowLimit.toLocaleString('en-US')} rows.`,
+    ].filter((note): note is string => !!note),
+  }
+}
+
+const dioceseLine = (dioceses: string[] | null) => {
+  if (!dioceses) return 'All dioceses'
+  if (!dioceses.length) return 'No diocese'
+  return `${dioceses.length > 1 ? 'Dioceses' : 'Diocese'}: ${dioceses.join(', ')}`
+}
+
+const dateLine = (date: Date) =>
+  date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  })
+
+const NOT_RUN_NOTE = `Not included, the export runs the first ${CHAT_EXPORT_CONFIG.maxQueries} queries of a chat.`
+
+const markdownCell = (text: string) =>
+  text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+
+const renderMarkdown = (chat: ChatExport) => {
+  const parts = [
+    `# ${chat.title}`,
+    `${dioceseLine(chat.dioceses)}  \n${dateLine(chat.exportedAt)}`,
+    '---',
+  ]
+
+  for (const block of toBlocks(chat)) {
+    switch (block.type) {
+      case 'question':
+        parts.push(
+          `## Question ${block.number}`,
+          block.text
+            .split('\n')
+            .map((line) => `> ${line}`)
+            .join('\n')
+        )
+        break
+      case 'narrative':
+        parts.push(
+          block.tokens
+            .map((token) => token.raw)
+            .join('')
+            .trim()
+        )
+        break
+      case 'query': {
+        const sql = `\`\`\`sql\n${block.sql}\n\`\`\``
+        parts.push(
+          chat.collapseSql
+            ? `<details>\n<summary>Query ${block.number}</summary>\n\n${sql}\n\n</details>`
+            : `**Query ${block.number}**\n\n${sql}`
+        )
+
+        const result = block.query?.result
+        if (!result) {
+          parts.push(`_${NOT_RUN_NOTE}_`)
+        } else if (typeof result === 'string') {
+          parts.push(`> Query failed: ${result}`)
+        } else {
+          const chart = block.query?.chart
+          if (chart) {
+            parts.push(
+              `![${chart.title}](data:image/png;base64,${chart.png.toString('base64')})`
+            )
+          }
+          const table = toTable(result)
+          parts.push(
+            [
+              `| ${table.columns.map(markdownCell).join(' | ')} |`,
+              `| ${table.columns.map(() => '---').join(' | ')} |`,
+              ...table.rows.map(
+                (row) => `| ${row.map(markdownCell).join(' | ')} |`
+              ),
+            ].join('\n')
+          )
+          if (table.notes.length) {
+            parts.push(`_${table.notes.join(' ')}_`)
+          }
+        }
+      }
+    }
+  }
+
+  return `${parts.filter(Boolean).join('\n\n')}\n`
+}
+
+const HTML_STYLE = `body{font-family:sans-serif;color:#111827;max-width:860px;margin:0 auto;padding:32px;line-height:1.5}
+.cover{min-height:90vh;display:flex;flex-direction:column;justify-content:center;page-break-after:always}
+.cover h1{font-size:32px;margin:0 0 16px}.muted{color:#6b7280}
+.question{font-size:20px;font-weight:bold;white-space:pre-wrap;border-bottom:1px solid #e5e7eb;padding-bottom:8px;margin-top:40px}
+pre{background:#f3f4f6;padding:12px;border-radius:6px;overflow:auto;font-size:13px}
+summary{cursor:pointer;color:#6b7280}
+table{border-collapse:collapse;font-size:13px;margin:8px 0}
+th{text-align:left;padding:4px 8px;border-bottom:1px solid #d1d5db}
+td{padding:4px 8px;border-bottom:1px solid #f3f4f6}
+img{max-width:100%}.error{color:#dc2626}
+@media print{.question{page-break-after:avoid}table,img{page-break-inside:avoid}}`
+
+const tableHtml = (table: Table) =>
+  `<table><thead><tr>${table.columns
+    .map((column) => `<th>${escapeHtml(column)}</th>`)
+    .join('')}</tr></thead><tbody>${table.rows
+    .map(
+      (row) =>
+        `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`
+    )
+    .join('')}</tbody></table>${
+    table.notes.length
+      ? `<p class="muted">${escapeHtml(table.notes.join(' '))}</p>`
+      : ''
+  }`
+
+const renderHtml = (chat: ChatExport) => {
+  const parts: string[] = []
+
+  for (const block of toBlocks(chat)) {
+    switch (block.type) {
+      case 'question':
+        parts.push(
+          `<p class="muted">Question ${block.number}</p><div class="question">${escapeHtml(block.text)}</div>`
+        )
+        break
+      case 'narrative':
+        parts.push(markdown.parser(block.tokens))
+        break
+      case 'query': {
+        const sql = `<pre><code>${escapeHtml(block.sql)}</code></pre>`
+        parts.push(
+          chat.collapseSql
+            ? `<details><summary>Query ${block.number}</summary>${sql}</details>`
+            : `<p><strong>Query ${block.number}</strong></p>${sql}`
+        )
+
+        const result = block.query?.result
+        if (!result) {
+          parts.push(`<p class="muted">${escapeHtml(NOT_RUN_NOTE)}</p>`)
+        } else if (typeof result === 'string') {
+          parts.push(`<p class="error">Query failed: ${escapeHtml(result)}</p>`)
+        } else {
+          const chart = block.query?.chart
+          if (chart) {
+            parts.push(
+              `<img src="data:image/png;base64,${chart.png.toString('base64')}" alt="${escapeHtml(chart.title)}"/>`
+            )
+          }
+          parts.push(tableHtml(toTable(result)))
+        }
+      }
+    }
+  }
+
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(chat.title)}</title><style>${HTML_STYLE}</style></head><body>
+<section class="cover"><h1>${escapeHtml(chat.title)}</h1><p>${escapeHtml(dioceseLine(chat.dioceses))}</p><p class="muted">${escapeHtml(dateLine(chat.exportedAt))}</p></section>
+${parts.join('\n')}
+</body></html>`
+}
+
+// The standard PDF fonts only cover Latin-1, DejaVu also has the accents,
+// Greek, Cyrillic and symbols names and answers can contain. Traced into the
+// build in next.config.js.
+const FONT_DIR = path.join(process.cwd(), 'node_modules/dejavu-fonts-ttf/ttf')
+const FONTS = {
+  regular: path.join(FONT_DIR, 'DejaVuSans.ttf'),
+  bold: path.join(FONT_DIR, 'DejaVuSans-Bold.ttf'),
+  italic: path.join(FONT_DIR, 'DejaVuSans-Oblique.ttf'),
+  mono: path.join(FONT_DIR, 'DejaVuSansMono.ttf'),
+}
+const COLORS = { text: '#111827', muted: '#6b7280', error: '#dc2626' }
+const TABLE_ROW_HEIGHT = 16
+
+type Pdf = PDFKit.PDFDocument
+type Run = { text: string; font: string }
+
+const contentWidth = (doc: Pdf) =>
+  doc.page.width - doc.page.margins.left - doc.page.margins.right
+
+// Starts a new page when the next element would not fit
+const ensureSpace = (doc: Pdf, height: number) => {
+  if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+    doc.addPage()
+  }
+}
+
+const inlineRuns = (tokens: Token[], font = FONTS.regular): Run[] =>
+  tokens.flatMap((token): Run[] => {
+    switch (token.type) {
+      case 'strong':
+        return inlineRuns(token.tokens ?? [], FONTS.bold)
+      case 'em':
+        return inlineRuns(token.tokens ?? [], FONTS.italic)
+      case 'codespan':
+        return [{ text: token.text, font: FONTS.mono }]
+      case 'br':
+        return [{ text: '\n', font }]
+      default:
+        return 'tokens' in token && token.tokens?.length
+          ? inlineRuns(token.tokens, font)
+          : [{ text: 'text' in token ? token.text : token.raw, font }]
+    }
+  })
+
+const writeRuns = (doc: Pdf, runs: Run[], size = 10) => {
+  doc.fontSize(size).fillColor(COLORS.text)
+  runs.forEach((run, index) =>
+    doc.font(run.font).text(run.text, { continued: index < runs.length - 1 })
+  )
+}
+
+const drawTable = (doc: Pdf, table: Table) => {
+  const left = doc.page.margins.left
+  const width = contentWidth(doc)
+  const columns = table.columns.slice(0, CHAT_EXPORT_CONFIG.maxPdfColumns)
+  const columnWidth = width / Math.max(columns.length, 1)
+  const notes =
+    columns.length < table.columns.length
+      ? [
+          ...table.notes,
+          `Showing ${columns.length} of ${table.columns.length} columns.`,
+        ]
+      : table.notes
+
+  const drawRow = (cells: string[], font: string) => {
+    const y = doc.y
+    doc.font(font).fontSize(8).fillColor(COLORS.text)
+    columns.forEach((_, index) =>
+      doc.text(cells[index] ?? '', left + index * columnWidth + 3, y + 4, {
+        width: columnWidth - 6,
+        height: 9,
+        ellipsis: true,
+      })
+    )
+    doc
+      .moveTo(left, y + TABLE_ROW_HEIGHT)
+      .lineTo(left + width, y + TABLE_ROW_HEIGHT)
+      .strokeColor('#e5e7eb')
+      .stroke()
+    doc.x = left
+    doc.y = y + TABLE_ROW_HEIGHT
+  }
+
+  ensureSpace(doc, TABLE_ROW_HEIGHT * 2)
+  drawRow(columns, FONTS.bold)
+  for (const row of table.rows) {
+    // The header is repeated on every page the table runs onto
+    if (doc.y + TABLE_ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage()
+      drawRow(columns, FONTS.bold)
+    }
+    drawRow(row, FONTS.regular)
+  }
+
+  doc.moveDown(0.5)
+  if (notes.length) {
+    doc
+      .font(FONTS.italic)
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(notes.join(' '))
+  }
+  doc.moveDown()
+}
+
+const writeTokens = (doc: Pdf, tokens: Token[]) => {
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'heading':
+        doc.moveDown(0.5)
+        writeRuns(
+          doc,
+          inlineRuns(token.tokens ?? [], FONTS.bold),
+          Math.max(16 - token.depth * 1.5, 10)
+        )
+        doc.moveDown(0.3)
+        break
+      case 'paragraph':
+        writeRuns(doc, inlineRuns(token.tokens ?? []))
+        doc.moveDown(0.5)
+        break
+      case 'text':
+        writeRuns(
+          doc,
+          token.tokens ? inlineRuns(token.tokens) : inlineRuns([token])
+        )
+        break
+      case 'list': {
+        const left = doc.x
+        ;(token as Tokens.List).items.forEach((item, index) => {
+          const y = doc.y
+          const start = Number((token as Tokens.List).start) || 1
+          doc
+            .font(FONTS.regular)
+            .fontSize(10)
+            .fillColor(COLORS.text)
+            .text(token.ordered ? `${start + index}.` : '•', left, y, {
+              width: 14,
+            })
+          doc.x = left + 14
+          doc.y = y
+          writeTokens(doc, item.tokens)
+          doc.x = left
+        })
+        doc.moveDown(0.5)
+        break
+      }
+      case 'code':
+        doc
+          .font(FONTS.mono)
+          .fontSize(8)
+          .fillColor(COLORS.muted)
+          .text(token.text)
+        doc.moveDown(0.5)
+        break
+      case 'blockquote': {
+        const left = doc.x
+        doc.x = left + 12
+        writeTokens(doc, token.tokens ?? [])
+        doc.x = left
+        break
+      }
+      case 'table': {
+        const table = token as Tokens.Table
+        drawTable(doc, {
+          columns: table.header.map((cell) => cell.text),
+          rows: table.rows.map((row) => row.map((cell) => cell.text)),
+          notes: [],
+        })
+        break
+      }
+      case 'hr':
+        doc
+          .moveTo(doc.x, doc.y)
+          .lineTo(doc.x + contentWidth(doc), doc.y)
+          .strokeColor('#e5e7eb')
+          .stroke()
+        doc.moveDown(0.5)
+        break
+    }
+  }
+}
+
+const writeQuery = (doc: Pdf, block: QueryBlock, collapseSql: boolean) => {
+  ensureSpace(doc, 60)
+  doc
+    .font(FONTS.bold)
+    .fontSize(9)
+    .fillColor(COLORS.muted)
+    .text(
+      collapseSql
+        ? `Query ${block.number}, the SQL is in the appendix`
+        : `Query ${block.number}`
+    )
+  if (!collapseSql) {
+    doc.font(FONTS.mono).fontSize(8).text(block.sql)
+  }
+  doc.moveDown(0.5)
+
+  const result = block.query?.result
+  if (!result) {
+    doc.font(FONTS.italic).fontSize(9).text(NOT_RUN_NOTE)
+    doc.moveDown()
+    return
+  }
+  if (typeof result === 'string') {
+    doc
+      .font(FONTS.regular)
+      .fontSize(9)
+      .fillColor(COLORS.error)
+      .text(`Query failed: ${result}`)
+    doc.moveDown()
+    return
+  }
+
+  const chart = block.query?.chart
+  if (chart) {
+    // Chart images are 2:1
+    const width = contentWidth(doc)
+    ensureSpace(doc, width / 2)
+    doc.image(chart.png, doc.page.margins.left, doc.y, { width })
+    doc.y += width / 2
+    doc.moveDown(0.5)
+  }
+  drawTable(doc, toTable(result))
+}
+
+const renderPdf = (chat: ChatExport) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 56,
+      info: { Title: chat.title, CreationDate: chat.exportedAt },
+    })
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    doc.y = doc.page.height / 3
+    doc.font(FONTS.bold).fontSize(26).fillColor(COLORS.text).text(chat.title)
+    doc.moveDown()
+    doc.font(FONTS.regular).fontSize(14).text(dioceseLine(chat.dioceses))
+    doc.fontSize(12).fillColor(COLORS.muted).text(dateLine(chat.exportedAt))
+    doc.addPage()
+
+    const blocks = toBlocks(chat)
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'question':
+          ensureSpace(doc, 80)
+          doc.moveDown()
+          doc
+            .font(FONTS.regular)
+            .fontSize(9)
+            .fillColor(COLORS.muted)
+            .text(`Question ${block.number}`)
+          doc
+            .font(FONTS.bold)
+            .fontSize(14)
+            .fillColor(COLORS.text)
+            .text(block.text)
+          doc.moveDown(0.5)
+          break
+        case 'narrative':
+          writeTokens(doc, block.tokens)
+          break
+        case 'query':
+          writeQuery(doc, block, chat.collapseSql)
+      }
+    }
+
+    const queries = blocks.filter(
+      (block): block is QueryBlock => block.type === 'query'
+    )
+    if (chat.collapseSql && queries.length) {
+      doc.addPage()
+      doc
+        .font(FONTS.bold)
+        .fontSize(16)
+        .fillColor(COLORS.text)
+        .text('Appendix: queries')
+      doc.moveDown()
+      for (const query of queries) {
+        doc
+          .font(FONTS.bold)
+          .fontSize(9)
+          .fillColor(COLORS.muted)
+          .text(`Query ${query.number}`)
+        doc.font(FONTS.mono).fontSize(8).text(query.sql)
+        doc.moveDown()
+      }
+    }
+
+    doc.end()
+  })
+
+/**
+ * Renders a chat thread as a report with a cover page, every question, the
+ * answers and the results of their SQL. PDFs are drawn with the standard
+ * fonts, so no browser or font files are needed on the server.
+ */
+export async function renderChatExport(
+  format: ChatExportFormat,
+  chat: ChatExport
+): Promise<Buffer> {
+  switch (format) {
+    case 'markdown':
+      return Buffer.from(renderMarkdown(chat))
+    case 'html':
+      return Buffer.from(renderHtml(chat))
+    case 'pdf':
+      return renderPdf(chat)
+  }
+}
+
+export const chatExportFilename = (
+  title: string,
+  exportedAt: Date,
+  format: ChatExportFormat
+) =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'chat'
+  }-${exportedAt.toISOString().slice(0, 10)}.${CHAT_EXPORT_FORMATS[format].extension}`
@@ -0,0 +1,53 @@
+import type { Message } from 'ai'
+
+import type { Database, Json } from '@/database.types'
+
+type ChatMessagesTable = Database['public']['Tables']['chat_messages']
+
+export const CHAT_MESSAGE_COLUMNS =
+  'id, parent_id, role, content, parts, tool_invocations, annotations, created_at'
+
+export type ChatMessageRow = Pick<
+  ChatMessagesTable['Row'],
+  | 'id'
+  | 'parent_id'
+  | 'role'
+  | 'content'
+  | 'parts'
+  | 'tool_invocations'
+  | 'annotations'
+  | 'created_at'
+>
+
+// Code blocks and runQuery calls can format the same SQL differently
+export const sqlResultKey = (sql: string | undefined, messageId: string) =>
+  `${(sql ?? '').trim().replace(/;$/, '').replace(/\s+/g, ' ')}_${messageId}`
+
+export const toMessage = (row: ChatMessageRow): Message => ({
+  id: row.id,
+  role: row.role as Message['role'],
+  content: row.content,
+  parts: (row.parts ?? undefined) as Message['parts'],
+  toolInvocations: (row.tool_invocations ??
+    undefined) as Message['toolInvocations'],
+  annotations: (row.annotations ?? undefined) as Message['annotations'],
+  createdAt: new Date(row.created_at),
+})
+
+export const toChatMessageInsert = (
+  chatId: string,
+  userId: string,
+  message: Message,
+  parentId: string | null
+): ChatMessagesTable['Insert'] => ({
+  chat_id: chatId,
+  id: message.id,
+  parent_id: parentId,
+  user_id: userId,
+  role: message.role,
+  content: message.content,
+  parts: (message.parts ?? null) as Json,
+  tool_invocations: (message.toolInvocations ?? null) as Json,
+  annotations: (message.annotations ?? null) as Json,
+  created_at: new Date(message.createdAt ?? Date.now()).toISOString(),
+})
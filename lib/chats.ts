@@ -0,0 +1,34 @@
+import { z } from 'zod'
+
+import { CHAT_LIST_CONFIG } from '@/config/chats'
+
+// Columns the sidebar needs, never the messages
+export const CHAT_LIST_COLUMNS =
+  'id, name, created_at, is_pinned, archived_at, folder_id, tags'
+
+export type ChatListItem = {
+  id: string
+  name: string
+  created_at: string
+  is_pinned: boolean
+  archived_at: string | null
+  folder_id: string | null
+  tags: string[]
+}
+
+export type ChatFolder = { id: string; name: string }
+
+export const chatFilterSchema = z.object({
+  search: z.string().trim().max(200).default(''),
+  folderId: z.string().uuid().nullable().default(null),
+  tag: z.string().nullable().default(null),
+  archived: z.boolean().default(false),
+})
+
+export type ChatFilter = z.infer<typeof chatFilterSchema>
+
+export const DEFAULT_CHAT_FILTER: ChatFilter = chatFilterSchema.parse({})
+
+export const chatTagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1).max(50))
+  .max(CHAT_LIST_CONFIG.maxTags, 'Too many tags')
@@ -0,0 +1,119 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Client } from 'pg'
+import { z } from 'zod'
+
+import { DB_POOL_CONFIG } from '@/config/db-pool'
+import type { UserRole } from '@/config/diocese'
+import type { Database } from '@/database.types'
+import { decryptSecret } from '@/lib/secret-box'
+import { createAdminClient } from '@/utils/supabase/admin'
+import { createClient } from '@/utils/supabase/server'
+
+export const CONNECTION_PROFILE_NOT_FOUND_MESSAGE =
+  'Database connection not found. Pick a saved connection and try again.'
+
+/**
+ * Connects once to check a connection string before it is saved or when a
+ * profile is tested. Returns the error message, or null when it works. Only
+ * call it after checking the user, it connects to any host it is given. A
+ * one-off client rather than a pool, so checks never add a pool to the
+ * cache the real profiles use.
+ */
+export async function checkConnectionString(
+  connectionString: string
+): Promise<string | null> {
+  const client = new Client({
+    connectionString,
+    connectionTimeoutMillis: DB_POOL_CONFIG.connectionTimeoutMs,
+  })
+
+  try {
+    await client.connect()
+    await client.query('SELECT 1')
+    return null
+  } catch (error) {
+    console.log('Connection check failed:', error)
+    return error instanceof Error ? error.message : 'Unknown error'
+  } finally {
+    await client.end().catch(() => {})
+  }
+}
+
+/**
+ * Loads and decrypts the connection string of a profile. Row level security
+ * limits this to the user's own profiles and the ones shared to their role,
+ * anything else returns null.
+ */
+export async function resolveConnectionString(
+  client: SupabaseClient<Database>,
+  profileId: string | null | undefined
+): Promise<string | null> {
+  if (!z.string().uuid().safeParse(profileId).success) {
+    return null
+  }
+
+  const { data, error } = await client
+    .from('connection_profiles')
+    .select('encrypted_connection_string')
+    .eq('id', profileId as string)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching connection profile:', error)
+    return null
+  }
+
+  if (!data) {
+    return null
+  }
+
+  try {
+    return decryptSecret(data.encrypted_connection_string)
+  } catch (error) {
+    console.error('Error decrypting connection profile:', error)
+    return null
+  }
+}
+
+/**
+ * Resolves a profile for the signed-in user from the request cookies.
+ */
+export async function getCurrentConnectionString(
+  profileId: string | null | undefined
+): Promise<string | null> {
+  const client = await createClient()
+  return resolveConnectionString(client, profileId)
+}
+
+/**
+ * Resolves a profile for a user outside of a request, e.g. a scheduled
+ * report. Applies the same rule as row level security: the user's own
+ * profiles and the ones shared to their role.
+ */
+export async function resolveConnectionStringForUser(
+  userId: string,
+  role: UserRole,
+  profileId: string
+): Promise<string | null> {
+  const { data, error } = await createAdminClient()
+    .from('connection_profiles')
+    .select('encrypted_connection_string, owner_id, shared_role')
+    .eq('id', profileId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching connection profile:', error)
+    return null
+  }
+
+  if (!data || (data.owner_id !== userId && data.shared_role !== role)) {
+    return null
+  }
+
+  try {
+    return decryptSecret(data.encrypted_connection_string)
+  } catch (error) {
+    console.error('Error decrypting connection profile:', error)
+    return null
+  }
+}
@@ -0,0 +1,63 @@
+import { z } from 'zod'
+
+import { DASHBOARD_CONFIG } from '@/config/dashboards'
+import type { Database } from '@/database.types'
+import type { QueryParameter, SavedQuery } from '@/lib/saved-queries'
+
+export const TILE_TYPES = ['table', 'chart', 'kpi'] as const
+
+// Columns of the dashboard grid a tile spans
+export const TILE_WIDTHS = [1, 2, 3] as const
+
+export const dashboardTileSchema = z.object({
+  id: z.string().uuid(),
+  savedQueryId: z.string().uuid(),
+  type: z.enum(TILE_TYPES),
+  title: z.string().trim().max(200),
+  width: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+})
+
+export const dashboardTilesSchema = z
+  .array(dashboardTileSchema)
+  .max(DASHBOARD_CONFIG.maxTiles, 'Too many tiles')
+
+export type DashboardTile = z.infer<typeof dashboardTileSchema>
+
+export type Dashboard = {
+  id: string
+  name: string
+  description: string | null
+  tiles: DashboardTile[]
+  isShared: boolean
+  isOwner: boolean
+  updatedAt: string
+}
+
+export const toDashboard = (
+  row: Database['public']['Tables']['dashboards']['Row'],
+  userId: string
+): Dashboard => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  tiles: row.tiles as DashboardTile[],
+  isShared: row.is_shared,
+  isOwner: row.owner_id === userId,
+  updatedAt: row.updated_at,
+})
+
+/**
+ * Dashboard filters are the parameters of its tiles' queries. A filter
+ * value is passed to every tile whose query has a parameter of that name.
+ */
+export function dashboardFilters(queries: SavedQuery[]): QueryParameter[] {
+  const filters = new Map<string, QueryParameter>()
+  for (const query of queries) {
+    for (const parameter of query.parameters) {
+      if (!filters.has(parameter.name)) {
+        filters.set(parameter.name, parameter)
+      }
+    }
+  }
+  return Array.from(filters.values())
+}
@@ -0,0 +1,197 @@
+import { createHash } from 'node:crypto'
+import { Pool, type PoolClient } from 'pg'
+
+import { DB_POOL_CONFIG, type PoolName } from '@/config/db-pool'
+
+export type PoolMetrics = {
+  // Connection fingerprint, never the connection string itself
+  pool: string
+  name: PoolName
+  totalClients: number
+  idleClients: number
+  waitingRequests: number
+  acquired: number
+  failedHealthChecks: number
+  errors: number
+  totalWaitMs: number
+  maxWaitMs: number
+}
+
+type ManagedPool = {
+  pool: Pool
+  metrics: PoolMetrics
+  lastUsedAt: WeakMap<PoolClient, number>
+}
+
+// Kept on globalThis so dev server reloads reuse the pools instead of
+// leaking them
+const globalForPools = globalThis as typeof globalThis & {
+  dbPools?: Map<string, ManagedPool>
+}
+const pools = (globalForPools.dbPools ??= new Map<string, ManagedPool>())
+
+// Clients left in an unknown state, destroyed instead of going back to
+// the pool
+const discarded = new WeakSet<PoolClient>()
+
+/**
+ * Makes withPooledClient destroy the client when it is released, for
+ * connections that failed in a way the caller has already handled.
+ */
+export function discardClient(client: PoolClient) {
+  discarded.add(client)
+}
+
+const fingerprint = (connectionString: string) =>
+  createHash('sha256').update(connectionString).digest('hex').slice(0, 12)
+
+const createManagedPool = (
+  connectionString: string,
+  name: PoolName
+): ManagedPool => {
+  const pool = new Pool({
+    connectionString,
+    max: DB_POOL_CONFIG.maxClients[name],
+    idleTimeoutMillis: DB_POOL_CONFIG.idleTimeoutMs,
+    connectionTimeoutMillis: DB_POOL_CONFIG.connectionTimeoutMs,
+  })
+
+  const managed: ManagedPool = {
+    pool,
+    lastUsedAt: new WeakMap(),
+    metrics: {
+      pool: fingerprint(connectionString),
+      name,
+      totalClients: 0,
+      idleClients: 0,
+      waitingRequests: 0,
+      acquired: 0,
+      failedHealthChecks: 0,
+      errors: 0,
+      totalWaitMs: 0,
+      maxWaitMs: 0,
+    },
+  }
+
+  // An idle client losing its connection emits here, without a listener
+  // it would crash the process. The pool drops the client by itself.
+  pool.on('error', (error) => {
+    managed.metrics.errors++
+    console.error(`Idle database connection error (${name}):`, error.message)
+  })
+
+  return managed
+}
+
+const closePool = (key: string) => {
+  const managed = pools.get(key)
+  if (!managed) return Promise.resolve()
+  pools.delete(key)
+  return managed.pool.end().catch((error) => {
+    console.error('Error closing database pool:', error)
+  })
+}
+
+const getManagedPool = (connectionString: string, name: PoolName) => {
+  const key = `${fingerprint(connectionString)}:${name}`
+
+  let managed = pools.get(key)
+  if (managed) {
+    // Move to the end so the map stays in least recently used order
+    pools.delete(key)
+  } else {
+    managed = createManagedPool(connectionString, name)
+  }
+  pools.set(key, managed)
+
+  while (pools.size > DB_POOL_CONFIG.maxPools) {
+    const oldest = pools.keys().next().value
+    if (oldest === undefined) break
+    void closePool(oldest)
+  }
+
+  return managed
+}
+
+const acquire = async (
+  managed: ManagedPool,
+  retry = true
+): Promise<PoolClient> => {
+  const startedAt = Date.now()
+  const client = await managed.pool.connect()
+
+  const waitMs = Date.now() - startedAt
+  managed.metrics.acquired++
+  managed.metrics.totalWaitMs += waitMs
+  managed.metrics.maxWaitMs = Math.max(managed.metrics.maxWaitMs, waitMs)
+  if (waitMs > DB_POOL_CONFIG.slowAcquireWarnMs) {
+    console.warn(
+      `Waited ${waitMs}ms for a database connection (${managed.metrics.name})`
+    )
+  }
+
+  const lastUsedAt = managed.lastUsedAt.get(client)
+  if (
+    lastUsedAt !== undefined &&
+    Date.now() - lastUsedAt > DB_POOL_CONFIG.healthCheckAfterIdleMs
+  ) {
+    try {
+      await client.query('SELECT 1')
+    } catch (error) {
+      managed.metrics.failedHealthChecks++
+      // Destroys the broken connection instead of returning it to the pool
+      client.release(error instanceof Error ? error : true)
+      if (!retry) throw error
+      return acquire(managed, false)
+    }
+  }
+
+  return client
+}
+
+/**
+ * Checks a client out of the pool for this connection string and name,
+ * hands it to `fn` and always returns it. Clients that errored are
+ * destroyed rather than reused.
+ */
+export async function withPooledClient<T>(
+  connectionString: string,
+  name: PoolName,
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const managed = getManagedPool(connectionString, name)
+  const client = await acquire(managed)
+
+  let releaseError: Error | undefined
+  try {
+    return await fn(client)
+  } catch (error) {
+    // A failed query leaves the connection usable, anything else may not
+    if (!(error instanceof Error && 'severity' in error)) {
+      releaseError = error instanceof Error ? error : new Error(String(error))
+    }
+    throw error
+  } finally {
+    managed.lastUsedAt.set(client, Date.now())
+    if (!releaseError && discarded.has(client)) {
+      releaseError = new Error('Connection discarded')
+    }
+    client.release(releaseError)
+  }
+}
+
+export function getPoolMetrics(): PoolMetrics[] {
+  return Array.from(pools.values()).map(({ pool, metrics }) => ({
+    ...metrics,
+    totalClients: pool.totalCount,
+    idleClients: pool.idleCount,
+    waitingRequests: pool.waitingCount,
+  }))
+}
+
+/**
+ * Closes every pool, waiting for checked out clients to be released.
+ */
+export async function closeAllPools() {
+  await Promise.all(Array.from(pools.keys()).map(closePool))
+}
@@ -0,0 +1,22 @@
+import nodemailer, { type SendMailOptions } from 'nodemailer'
+
+// Defaults point at a local mail catcher such as Mailpit, see the README
+const createTransport = () =>
+  nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT || 1025),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+let transport: ReturnType<typeof createTransport> | null = null
+
+export async function sendMail(message: Omit<SendMailOptions, 'from'>) {
+  transport ??= createTransport()
+  return transport.sendMail({
+    from: process.env.SMTP_FROM || 'Reports <reports@localhost>',
+    ...message,
+  })
+}
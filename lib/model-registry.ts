@@ -0,0 +1,133 @@
+import { createAnthropic } from '@ai-sdk/anthropic'
+import { createAzure } from '@ai-sdk/azure'
+import { createOpenAI } from '@ai-sdk/openai'
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible'
+import { experimental_createProviderRegistry, type LanguageModel } from 'ai'
+
+import {
+  MODEL_POLICY,
+  MODELS,
+  normalizeModelId,
+  type ModelOption,
+  type ProviderId,
+  type UserKeyProvider,
+} from '@/config/models'
+
+export type UserApiKeys = Partial<Record<UserKeyProvider, string | null>>
+
+export type ResolvedModel = {
+  id: string
+  model: LanguageModel
+  // Whether the project's credentials are billed for this call
+  usesProjectKey: boolean
+}
+
+export class ModelSelectionError extends Error {}
+
+const providerOf = (modelId: string) => modelId.split(':')[0] as ProviderId
+
+const projectCredentials = (provider: ProviderId) => {
+  switch (provider) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY
+    case 'anthropic':
+      return process.env.ANTHROPIC_API_KEY
+    case 'azure':
+      return process.env.AZURE_RESOURCE_NAME && process.env.AZURE_API_KEY
+    case 'local':
+      return process.env.OPENAI_COMPATIBLE_BASE_URL
+  }
+}
+
+const isUserKeyProvider = (
+  provider: ProviderId
+): provider is UserKeyProvider =>
+  provider === 'openai' || provider === 'anthropic'
+
+/**
+ * Builds a registry with every provider that has credentials, preferring
+ * the user's keys over the project's.
+ */
+const createRegistry = (userKeys: UserApiKeys) =>
+  experimental_createProviderRegistry({
+    openai: createOpenAI({
+      apiKey: userKeys.openai || process.env.OPENAI_API_KEY,
+    }),
+    anthropic: createAnthropic({
+      apiKey: userKeys.anthropic || process.env.ANTHROPIC_API_KEY,
+    }),
+    ...(projectCredentials('azure')
+      ? {
+          azure: createAzure({
+            resourceName: process.env.AZURE_RESOURCE_NAME,
+            apiKey: process.env.AZURE_API_KEY,
+          }),
+        }
+      : {}),
+    ...(process.env.OPENAI_COMPATIBLE_BASE_URL
+      ? {
+          local: createOpenAICompatible({
+            name: 'local',
+            baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+            apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+          }),
+        }
+      : {}),
+  })
+
+/**
+ * Lists the models a user can pick. Models that need a key the project
+ * does not provide are still listed, they just require the user's own key.
+ */
+export function listAvailableModels(): (ModelOption & {
+  requiresUserKey: boolean
+})[] {
+  return MODELS.flatMap((option) => {
+    const provider = providerOf(option.id)
+    const projectKeyAllowed =
+      MODEL_POLICY.projectKeyModels.includes(option.id) &&
+      !!projectCredentials(provider)
+
+    if (!projectKeyAllowed && !isUserKeyProvider(provider)) {
+      return []
+    }
+    return [{ ...option, requiresUserKey: !projectKeyAllowed }]
+  })
+}
+
+/**
+ * Picks the credentials for a model and returns it from a provider registry.
+ * The user's key always wins; the project key is only used for models the
+ * policy allows it for. Throws ModelSelectionError when neither applies.
+ */
+export function resolveModel(
+  modelId: string | null | undefined,
+  userKeys: UserApiKeys = {}
+): ResolvedModel {
+  const id = normalizeModelId(modelId)
+  if (!MODELS.some((option) => option.id === id)) {
+    throw new ModelSelectionError(`Unknown model: ${id}`)
+  }
+
+  const provider = providerOf(id)
+  const userKey = isUserKeyProvider(provider)
+    ? userKeys[provider] || undefined
+    : undefined
+
+  if (
+    !userKey &&
+    !(MODEL_POLICY.projectKeyModels.includes(id) && projectCredentials(provider))
+  ) {
+    throw new ModelSelectionError(
+      isUserKeyProvider(provider)
+        ? `${id} requires your own ${provider} API key`
+        : `${id} is not configured on this server`
+    )
+  }
+
+  return {
+    id,
+    model: createRegistry(userKeys).languageModel(id),
+    usesProjectKey: !userKey,
+  }
+}
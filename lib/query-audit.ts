@@ -0,0 +1,161 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+
+import type { AccessScope, UserRole } from '@/config/diocese'
+import type { Database } from '@/database.types'
+
+type QueryAuditRow = Database['public']['Tables']['query_audit']['Row']
+
+export const QUERY_AUDIT_SOURCES = [
+  'run_sql',
+  'chat_tool',
+  'chat_export',
+  'result_export',
+  'saved_query',
+  'dashboard',
+  'scheduled_report',
+  'alert',
+  'share_link',
+] as const
+
+export type QueryAuditSource = (typeof QUERY_AUDIT_SOURCES)[number]
+
+export const QUERY_AUDIT_SOURCE_LABELS: Record<QueryAuditSource, string> = {
+  run_sql: 'SQL block',
+  chat_tool: 'Chat agent',
+  chat_export: 'Chat export',
+  result_export: 'Result export',
+  saved_query: 'Saved query',
+  dashboard: 'Dashboard',
+  scheduled_report: 'Scheduled report',
+  alert: 'Alert',
+  share_link: 'Share link',
+}
+
+export const QUERY_AUDIT_OUTCOMES = ['ok', 'rejected', 'error'] as const
+
+export type QueryAuditOutcome = (typeof QUERY_AUDIT_OUTCOMES)[number]
+
+/** Who runs a query and from where, passed down to the code that runs it */
+export type QueryAuditContext = {
+  userId: string
+  source: QueryAuditSource
+  // Agent tool name, for chat_tool
+  tool?: string
+  connectionProfileId?: string | null
+  chatId?: string | null
+  messageId?: string | null
+}
+
+/** What came of one query, next to the context it ran in */
+export type QueryAuditOutcomeDetails = {
+  // null for tools that only read the catalog
+  sql: string | null
+  outcome: QueryAuditOutcome
+  durationMs: number
+  rowCount?: number | null
+  rejectionReason?: string | null
+  error?: string | null
+}
+
+export type QueryAuditEntry = {
+  id: number
+  createdAt: string
+  userId: string
+  scope: AccessScope
+  source: QueryAuditSource
+  tool: string | null
+  connectionProfileId: string | null
+  sql: string | null
+  sqlHash: string | null
+  outcome: QueryAuditOutcome
+  rowCount: number | null
+  durationMs: number
+  rejectionReason: string | null
+  error: string | null
+  chatId: string | null
+  messageId: string | null
+}
+
+export const queryAuditFiltersSchema = z.object({
+  from: z.string().datetime().nullable().default(null),
+  to: z.string().datetime().nullable().default(null),
+  userId: z.string().uuid().nullable().default(null),
+  dioceseId: z.number().int().nullable().default(null),
+  source: z.enum(QUERY_AUDIT_SOURCES).nullable().default(null),
+  outcome: z.enum(QUERY_AUDIT_OUTCOMES).nullable().default(null),
+  // Part of the SQL text, or a full SQL hash
+  search: z.string().trim().max(500).default(''),
+  chatId: z.string().uuid().nullable().default(null),
+})
+
+export type QueryAuditFilters = z.infer<typeof queryAuditFiltersSchema>
+
+export const EMPTY_QUERY_AUDIT_FILTERS: QueryAuditFilters = {
+  from: null,
+  to: null,
+  userId: null,
+  dioceseId: null,
+  source: null,
+  outcome: null,
+  search: '',
+  chatId: null,
+}
+
+export const isSqlHash = (value: string) => /^[0-9a-f]{64}$/.test(value)
+
+/**
+ * The audit entries matching the filters, newest first. Ids only grow, so
+ * `beforeId` pages through the log without skipping rows added meanwhile.
+ */
+export const selectQueryAudit = (
+  admin: SupabaseClient<Database>,
+  filters: QueryAuditFilters,
+  beforeId: number | null = null
+) => {
+  let query = admin.from('query_audit').select('*', { count: 'exact' })
+
+  if (filters.from) query = query.gte('created_at', filters.from)
+  if (filters.to) query = query.lte('created_at', filters.to)
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.dioceseId !== null) {
+    query = query.contains('diocese_ids', [filters.dioceseId])
+  }
+  if (filters.source) query = query.eq('source', filters.source)
+  if (filters.outcome) query = query.eq('outcome', filters.outcome)
+  if (filters.chatId) query = query.eq('chat_id', filters.chatId)
+  if (filters.search) {
+    query = isSqlHash(filters.search)
+      ? query.eq('sql_hash', filters.search)
+      : query.ilike(
+          'sql_text',
+          `%${filters.search.replace(/[\\%_]/g, '\\$&')}%`
+        )
+  }
+  if (beforeId !== null) query = query.lt('id', beforeId)
+
+  return query.order('id', { ascending: false })
+}
+
+export const toQueryAuditEntry = (row: QueryAuditRow): QueryAuditEntry => ({
+  id: row.id,
+  createdAt: row.created_at,
+  userId: row.user_id,
+  scope: {
+    role: row.role as UserRole,
+    dioceseIds: row.diocese_ids,
+    testingCenterIds: row.testing_center_ids,
+  },
+  source: row.source as QueryAuditSource,
+  tool: row.tool,
+  connectionProfileId: row.connection_profile_id,
+  sql: row.sql_text,
+  sqlHash: row.sql_hash,
+  outcome: row.outcome as QueryAuditOutcome,
+  rowCount: row.row_count,
+  durationMs: row.duration_ms,
+  rejectionReason: row.rejection_reason,
+  error: row.error,
+  chatId: row.chat_id,
+  messageId: row.message_id,
+})
@@ -0,0 +1,87 @@
+export type BoundQuery = { sql: string; values: string[] }
+
+const NAME_START = /[A-Za-z_]/
+const NAME_PART = /[A-Za-z0-9_]/
+
+type Placeholder = { name: string; start: number; end: number }
+
+// Dollar quote tags, e.g. $$ or $body$
+const DOLLAR_TAG = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/
+
+/**
+ * Finds `:name` placeholders outside of string literals, quoted
+ * identifiers, comments and `::` casts.
+ */
+const findPlaceholders = (sql: string): Placeholder[] => {
+  const placeholders: Placeholder[] = []
+  let i = 0
+
+  const skipUntil = (terminator: string, from: number) => {
+    const end = sql.indexOf(terminator, from)
+    return end === -1 ? sql.length : end + terminator.length
+  }
+
+  while (i < sql.length) {
+    const char = sql[i]
+    const next = sql[i + 1]
+
+    if (char === "'" || char === '"') {
+      // Doubled quotes escape themselves, so scanning to the next quote
+      // and continuing handles them
+      i = skipUntil(char, i + 1)
+    } else if (char === '-' && next === '-') {
+      i = skipUntil('\n', i + 2)
+    } else if (char === '/' && next === '*') {
+      i = skipUntil('*/', i + 2)
+    } else if (char === '$' && DOLLAR_TAG.test(sql.slice(i))) {
+      const tag = sql.slice(i).match(DOLLAR_TAG)![0]
+      i = skipUntil(tag, i + tag.length)
+    } else if (char === ':' && next === ':') {
+      i += 2
+    } else if (char === ':' && next && NAME_START.test(next)) {
+      let end = i + 2
+      while (end < sql.length && NAME_PART.test(sql[end])) end++
+      placeholders.push({ name: sql.slice(i + 1, end), start: i, end })
+      i = end
+    } else {
+      i++
+    }
+  }
+
+  return placeholders
+}
+
+/**
+ * Lists the named parameters of a query in the order they first appear.
+ */
+export function findQueryParameters(sql: string): string[] {
+  return Array.from(new Set(findPlaceholders(sql).map((p) => p.name)))
+}
+
+/**
+ * Replaces `:name` placeholders with `$1`, `$2`... so the values are sent as
+ * bind parameters and never end up in the SQL text. A name used twice
+ * shares one parameter.
+ */
+export function bindQueryParameters(
+  sql: string,
+  values: Record<string, string>
+): BoundQuery | { error: string } {
+  const names = findQueryParameters(sql)
+  const missing = names.filter((name) => !values[name])
+  if (missing.length) {
+    return {
+      error: `Missing a value for ${missing.map((n) => `:${n}`).join(', ')}`,
+    }
+  }
+
+  let bound = ''
+  let last = 0
+  for (const placeholder of findPlaceholders(sql)) {
+    bound += `${sql.slice(last, placeholder.start)}$${names.indexOf(placeholder.name) + 1}`
+    last = placeholder.end
+  }
+  bound += sql.slice(last)
+
+  return { sql: bound, values: names.map((name) => values[name]) }
+}
@@ -0,0 +1,153 @@
+import type { ClientBase, QueryResult } from 'pg'
+import Cursor from 'pg-cursor'
+
+import type { PoolName } from '@/config/db-pool'
+import type { UserRole } from '@/config/diocese'
+import { QUERY_LIMITS } from '@/config/query-limits'
+import { discardClient, withPooledClient } from '@/lib/db-pool'
+
+export type LimitedQueryResult = Pick<
+  QueryResult<Record<string, unknown>>,
+  'command' | 'rowCount' | 'oid' | 'fields' | 'rows'
+> & {
+  // More rows than rowLimit matched, only the first rowLimit are returned
+  truncated: boolean
+  rowLimit: number
+  // Planner estimate of the full row count, only set when truncated
+  totalRowsEstimate: number | null
+}
+
+/**
+ * Checks out a pooled connection for the role, starts a READ ONLY
+ * transaction with the role's timeouts and hands the client to `fn`. The
+ * transaction is always rolled back before the connection is returned,
+ * whether `fn` succeeds or throws. `pool` picks another pool than the
+ * role's own, for long running work such as exports.
+ */
+export async function withReadOnlyTransaction<T>(
+  connectionString: string,
+  role: UserRole,
+  fn: (client: ClientBase) => Promise<T>,
+  pool: PoolName = role
+): Promise<T> {
+  const limits = QUERY_LIMITS[role]
+
+  return withPooledClient(connectionString, pool, async (client) => {
+    await client.query('BEGIN READ ONLY')
+
+    try {
+      // SET does not accept bind parameters
+      await client.query(
+        `SET LOCAL statement_timeout = ${Math.floor(limits.statementTimeoutMs)}`
+      )
+      await client.query(
+        `SET LOCAL idle_in_transaction_session_timeout = ${Math.floor(limits.idleInTransactionTimeoutMs)}`
+      )
+      return await fn(client)
+    } finally {
+      // Nothing can have been written, rolling back just ends the
+      // transaction. If that fails the connection must not be reused, but
+      // the query's own error is still the one reported.
+      await client.query('ROLLBACK').catch((error) => {
+        console.error('Could not end read-only transaction:', error)
+        discardClient(client)
+      })
+    }
+  })
+}
+
+const estimateRowCount = async (
+  client: ClientBase,
+  sql: string,
+  values: unknown[]
+) => {
+  try {
+    const explain = await client.query(`EXPLAIN (FORMAT JSON) ${sql}`, values)
+    const rows = explain.rows[0]?.['QUERY PLAN']?.[0]?.Plan?.['Plan Rows']
+    return typeof rows === 'number' ? rows : null
+  } catch {
+    return null
+  }
+}
+
+const readRows = (cursor: Cursor, count: number) =>
+  new Promise<{ rows: Record<string, unknown>[]; result: QueryResult }>(
+    (resolve, reject) => {
+      cursor.read(count, (err, rows, result) =>
+        err ? reject(err) : resolve({ rows, result })
+      )
+    }
+  )
+
+/**
+ * Runs a query through a cursor and stops reading after `maxRows`, so a
+ * huge result never leaves the database in full. `values` are sent as bind
+ * parameters for `$1`, `$2`...
+ */
+export async function queryWithRowCap(
+  client: ClientBase,
+  sql: string,
+  maxRows: number,
+  values: unknown[] = []
+): Promise<LimitedQueryResult> {
+  const cursor = client.query(new Cursor(sql, values))
+
+  // Read one extra row to know whether the result was cut off
+  const { rows, result } = await readRows(cursor, maxRows + 1).finally(() =>
+    cursor.close()
+  )
+
+  const truncated = rows.length > maxRows
+  const visibleRows = truncated ? rows.slice(0, maxRows) : rows
+
+  return {
+    command: result.command,
+    rowCount: visibleRows.length,
+    oid: result.oid,
+    fields: result.fields,
+    rows: visibleRows,
+    truncated,
+    rowLimit: maxRows,
+    totalRowsEstimate: truncated ? await estimateRowCount(client, sql, values) : null,
+  }
+}
+
+/**
+ * Reads a query through a cursor in batches of `batchSize`, stopping after
+ * `maxRows`. Only one batch is held in memory at a time. The last batch has
+ * `truncated` set when more rows matched than were read.
+ */
+export async function* readInBatches(
+  client: ClientBase,
+  sql: string,
+  batchSize: number,
+  maxRows: number
+): AsyncGenerator<{
+  fields: QueryResult['fields']
+  rows: Record<string, unknown>[]
+  truncated: boolean
+}> {
+  const cursor = client.query(new Cursor(sql))
+
+  try {
+    let read = 0
+    while (read < maxRows) {
+      const { rows, result } = await readRows(
+        cursor,
+        Math.min(batchSize, maxRows - read)
+      )
+      if (!rows.length) {
+        // Queries without rows still report their columns
+        if (read === 0) yield { fields: result.fields, rows, truncated: false }
+        return
+      }
+      read += rows.length
+      // Past the cap, one more row tells whether anything was left out
+      const truncated =
+        read >= maxRows && (await readRows(cursor, 1)).rows.length > 0
+      yield { fields: result.fields, rows, truncated }
+    }
+  } finally {
+    await cursor.close()
+  }
+}
@@ -0,0 +1,173 @@
+import { PassThrough } from 'node:stream'
+
+import { REPORT_CONFIG } from '@/config/reports'
+import type { Config, Result } from '@/lib/chart'
+import { renderChartPng } from '@/lib/chart-image'
+import type { DashboardTile } from '@/lib/dashboards'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+import {
+  createExportWriter,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from '@/lib/result-export'
+import { toNumber } from '@/lib/result-columns'
+
+export type ReportSection = {
+  title: string
+  type: DashboardTile['type']
+  sql: string
+  chartConfig: Config | null
+  result: LimitedQueryResult
+}
+
+type Attachment = {
+  filename: string
+  content: Buffer
+  contentType: string
+  cid?: string
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`)
+
+export const cellText = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const fileName = (title: string, index: number) =>
+  `${index + 1}-${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'report'
+  }`
+
+// Writes the whole result through the same writers as downloads
+const exportToBuffer = async (
+  format: ExportFormat,
+  section: ReportSection,
+  exportedAt: Date
+) => {
+  const output = new PassThrough()
+  const chunks: Buffer[] = []
+  output.on('data', (chunk: Buffer) => chunks.push(chunk))
+
+  const writer = await createExportWriter(
+    format,
+    section.result.fields,
+    output,
+    { sql: section.sql, exportedAt }
+  )
+  await writer.writeRows(section.result.rows)
+  await writer.close(section.result.truncated ? section.result.rowLimit : null)
+
+  return Buffer.concat(chunks)
+}
+
+const tableHtml = (result: LimitedQueryResult) => {
+  const rows = result.rows.slice(0, REPORT_CONFIG.maxEmailRows)
+  const th =
+    'style="text-align:left;padding:4px 8px;border-bottom:1px solid #d1d5db"'
+  const td = 'style="padding:4px 8px;border-bottom:1px solid #f3f4f6"'
+
+  const head = result.fields
+    .map((field) => `<th ${th}>${escapeHtml(field.name)}</th>`)
+    .join('')
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${result.fields
+          .map(
+            (field) => `<td ${td}>${escapeHtml(cellText(row[field.name]))}</td>`
+          )
+          .join('')}</tr>`
+    )
+    .join('')
+  const notes = [
+    result.rows.length > rows.length &&
+      `Showing ${rows.length} of ${result.rows.length.toLocaleString('en-US')} rows, the attachment has all of them.`,
+    result.truncated &&
+      `The result was cut off at ${result.rowLimit.toLocaleString('en-US')} rows.`,
+  ].filter(Boolean)
+  const note = notes.length
+    ? `<p style="color:#6b7280;font-size:12px">${notes.join(' ')}</p>`
+    : ''
+
+  return `<table style="border-collapse:collapse;font-size:13px">${
+    head ? `<thead><tr>${head}</tr></thead>` : ''
+  }<tbody>${body}</tbody></table>${note}`
+}
+
+const kpiHtml = (result: LimitedQueryResult) => {
+  const field = result.fields[0]
+  const value = field ? result.rows[0]?.[field.name] : null
+  const number = toNumber(value)
+
+  return `<p style="font-size:32px;font-weight:bold;margin:8px 0">${escapeHtml(
+    number !== null ? number.toLocaleString('en-US') : cellText(value) || '-'
+  )}</p>${
+    field
+      ? `<p style="color:#6b7280;margin:0">${escapeHtml(field.name)}</p>`
+      : ''
+  }`
+}
+
+/**
+ * Renders report sections as an HTML email. Each section gets its result as
+ * an attachment, charts are embedded as inline PNG images.
+ */
+export async function renderReportEmail(
+  name: string,
+  sections: ReportSection[],
+  format: ExportFormat,
+  generatedAt: Date
+): Promise<{ html: string; attachments: Attachment[] }> {
+  const attachments: Attachment[] = []
+  const parts: string[] = []
+
+  for (let index = 0; index < sections.length; index++) {
+    const section = sections[index]
+    const base = fileName(section.title, index)
+    parts.push(
+      `<h2 style="font-size:18px;margin:24px 0 8px">${escapeHtml(section.title)}</h2>`
+    )
+
+    if (section.type === 'kpi') {
+      parts.push(kpiHtml(section.result))
+    } else {
+      if (section.chartConfig && section.result.rows.length) {
+        const cid = `${base}-chart@report`
+        attachments.push({
+          filename: `${base}.png`,
+          content: renderChartPng(
+            section.result.rows as Result[],
+            section.chartConfig
+          ),
+          contentType: 'image/png',
+          cid,
+        })
+        parts.push(
+          `<img src="cid:${cid}" alt="${escapeHtml(section.chartConfig.title)}" width="720" style="max-width:100%"/>`
+        )
+      }
+      parts.push(tableHtml(section.result))
+    }
+
+    attachments.push({
+      filename: `${base}.${EXPORT_FORMATS[format].extension}`,
+      content: await exportToBuffer(format, section, generatedAt),
+      contentType: EXPORT_FORMATS[format].contentType,
+    })
+  }
+
+  const html = `<!doctype html><html><body style="font-family:sans-serif;color:#111827">
+<h1 style="font-size:22px">${escapeHtml(name)}</h1>
+<p style="color:#6b7280">Generated ${escapeHtml(generatedAt.toUTCString())}</p>
+${parts.join('\n')}
+</body></html>`
+
+  return { html, attachments }
+}
@@ -0,0 +1,41 @@
+import { createAdminClient, listAllUsers } from '@/utils/supabase/admin'
+
+// Domains reports may go to besides the app's own users, comma separated
+const allowedDomains = () =>
+  (process.env.REPORT_RECIPIENT_DOMAINS ?? '')
+    .split(',')
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean)
+
+/**
+ * Reports carry scoped student data, so they only go to users of the app
+ * and to addresses on REPORT_RECIPIENT_DOMAINS. Returns why a recipient
+ * cannot get the report, or null when all of them can. Checked when a
+ * schedule is saved and again before each send.
+ */
+export async function checkReportRecipients(
+  recipients: string[]
+): Promise<string | null> {
+  const domains = allowedDomains()
+  const outside = recipients.filter(
+    (recipient) =>
+      !domains.includes(recipient.split('@').pop()?.toLowerCase() ?? '')
+  )
+  if (!outside.length) {
+    return null
+  }
+
+  const { users, error } = await listAllUsers(createAdminClient())
+  if (error) {
+    console.error('Error listing users:', error)
+    return 'Unexpected error checking recipients'
+  }
+
+  const emails = new Set(users.map((user) => user.email?.toLowerCase()))
+  const unknown = outside.find(
+    (recipient) => !emails.has(recipient.toLowerCase())
+  )
+  return unknown
+    ? `${unknown} is not a user of the app, reports can only be sent to users or allowed domains`
+    : null
+}
@@ -0,0 +1,270 @@
+import { REPORT_CONFIG } from '@/config/reports'
+import type { AccessScope } from '@/config/diocese'
+import type { Database } from '@/database.types'
+import { loadAccessScope, NO_ACCESS_SCOPE_MESSAGE } from '@/lib/access-scope'
+import {
+  CONNECTION_PROFILE_NOT_FOUND_MESSAGE,
+  resolveConnectionStringForUser,
+} from '@/lib/connection-profiles'
+import { toDashboard } from '@/lib/dashboards'
+import { sendMail } from '@/lib/mailer'
+import { renderReportEmail, type ReportSection } from '@/lib/report-email'
+import { checkReportRecipients } from '@/lib/report-recipients'
+import { nextRunAt, toReportSchedule } from '@/lib/report-schedule'
+import { toSavedQuery, type SavedQuery } from '@/lib/saved-queries'
+import { runSavedQuerySql } from '@/lib/saved-query-execution'
+import { createAdminClient } from '@/utils/supabase/admin'
+
+type ScheduleRow = Database['public']['Tables']['report_schedules']['Row']
+
+type AdminClient = ReturnType<typeof createAdminClient>
+
+const loadOwnQueries = async (
+  admin: AdminClient,
+  ownerId: string,
+  ids: string[]
+): Promise<Record<string, SavedQuery>> => {
+  const { data, error } = await admin
+    .from('saved_queries')
+    .select('*')
+    .eq('user_id', ownerId)
+    .in('id', ids)
+
+  if (error) {
+    console.error('Error fetching report queries:', error)
+    return {}
+  }
+
+  return Object.fromEntries(data.map((row) => [row.id, toSavedQuery(row)]))
+}
+
+// A saved query is one section, a dashboard has one section per tile
+const loadSections = async (
+  admin: AdminClient,
+  schedule: ScheduleRow,
+  connectionString: string,
+  scope: AccessScope
+): Promise<ReportSection[] | string> => {
+  const { parameterValues } = toReportSchedule(schedule)
+  let items: { title: string; type: ReportSection['type']; id: string }[]
+
+  if (schedule.dashboard_id) {
+    const { data } = await admin
+      .from('dashboards')
+      .select('*')
+      .eq('id', schedule.dashboard_id)
+      .eq('owner_id', schedule.owner_id)
+      .maybeSingle()
+    if (!data) {
+      return 'The dashboard of this report no longer exists'
+    }
+    items = toDashboard(data, schedule.owner_id).tiles.map((tile) => ({
+      title: tile.title,
+      type: tile.type,
+      id: tile.savedQueryId,
+    }))
+  } else {
+    items = [{ title: '', type: 'chart', id: schedule.saved_query_id ?? '' }]
+  }
+
+  const queries = await loadOwnQueries(
+    admin,
+    schedule.owner_id,
+    items.map((item) => item.id)
+  )
+
+  const sections: ReportSection[] = []
+  for (const item of items) {
+    const query = queries[item.id]
+    if (!query) {
+      return 'A saved query of this report no longer exists'
+    }
+
+    const result = await runSavedQuerySql(
+      query.sql,
+      parameterValues,
+      connectionString,
+      scope,
+      {
+        userId: schedule.owner_id,
+        source: 'scheduled_report',
+        connectionProfileId: schedule.connection_profile_id,
+      }
+    )
+    const title = item.title || query.title
+    if (typeof result === 'string') {
+      return `${title}: ${result}`
+    }
+
+    sections.push({
+      title,
+      type: item.type,
+      sql: query.sql,
+      chartConfig: item.type === 'table' ? null : query.chartConfig,
+      result,
+    })
+  }
+
+  return sections
+}
+
+/**
+ * Runs a report with its owner's scope and emails the result. Every run is
+ * recorded in report_runs, failures keep their error for the history.
+ */
+export async function runReport(schedule: ScheduleRow) {
+  const admin = createAdminClient()
+  const startedAt = new Date()
+
+  const { data: run, error: runError } = await admin
+    .from('report_runs')
+    .insert({ schedule_id: schedule.id, started_at: startedAt.toISOString() })
+    .select('id')
+    .single()
+
+  if (runError) {
+    console.error('Error recording report run:', runError)
+    return { error: 'Unexpected error starting report' }
+  }
+
+  const finish = async (update: { error?: string; rowCount?: number }) => {
+    const { error } = await admin
+      .from('report_runs')
+      .update({
+        status: update.error ? 'failed' : 'success',
+        error: update.error ?? null,
+        row_count: update.rowCount ?? null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', run.id)
+
+    if (error) {
+      console.error('Error recording report run:', error)
+    }
+    return update.error ? { error: update.error } : { success: 'Report sent' }
+  }
+
+  const scope = await loadAccessScope(admin, schedule.owner_id)
+  if (!scope) {
+    return finish({ error: NO_ACCESS_SCOPE_MESSAGE })
+  }
+
+  // Users leave and allowed domains change after the schedule was saved
+  const recipientError = await checkReportRecipients(schedule.recipients)
+  if (recipientError) {
+    return finish({ error: recipientError })
+  }
+
+  const connectionString = await resolveConnectionStringForUser(
+    schedule.owner_id,
+    scope.role,
+    schedule.connection_profile_id
+  )
+  if (!connectionString) {
+    return finish({ error: CONNECTION_PROFILE_NOT_FOUND_MESSAGE })
+  }
+
+  try {
+    const sections = await loadSections(
+      admin,
+      schedule,
+      connectionString,
+      scope
+    )
+    if (typeof sections === 'string') {
+      return finish({ error: sections })
+    }
+
+    const { html, attachments } = await renderReportEmail(
+      schedule.name,
+      sections,
+      toReportSchedule(schedule).attachmentFormat,
+      startedAt
+    )
+    await sendMail({
+      to: schedule.recipients,
+      subject: schedule.name,
+      html,
+      attachments,
+    })
+
+    return finish({
+      rowCount: sections.reduce(
+        (total, section) => total + section.result.rows.length,
+        0
+      ),
+    })
+  } catch (error) {
+    console.error('Error running report:', error)
+    return finish({
+      error: error instanceof Error ? error.message : 'Unexpected error',
+    })
+  }
+}
+
+/**
+ * Runs the enabled schedules that are due. Each schedule is claimed by
+ * moving next_run_at forward only if nobody else did, so overlapping
+ * runner calls never send a report twice. Runs a crash left as running are
+ * marked as failed first.
+ */
+export async function runDueReports(now = new Date()) {
+  const admin = createAdminClient()
+
+  const { error: staleError } = await admin
+    .from('report_runs')
+    .update({
+      status: 'failed',
+      error: 'The run did not finish',
+      finished_at: now.toISOString(),
+    })
+    .eq('status', 'running')
+    .lt(
+      'started_at',
+      new Date(now.getTime() - REPORT_CONFIG.staleRunAfterMs).toISOString()
+    )
+
+  if (staleError) {
+    console.error('Error failing stale report runs:', staleError)
+  }
+
+  const { data, error } = await admin
+    .from('report_schedules')
+    .select('*')
+    .eq('is_enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at')
+    .limit(REPORT_CONFIG.batchSize)
+
+  if (error) {
+    console.error('Error fetching due reports:', error)
+    return { error: 'Error fetching due reports' }
+  }
+
+  let sent = 0
+  let failed = 0
+  for (const schedule of data) {
+    const { data: claimed } = await admin
+      .from('report_schedules')
+      .update({
+        next_run_at:
+          nextRunAt(schedule.cron, schedule.time_zone, now)?.toISOString() ??
+          null,
+        last_run_at: now.toISOString(),
+      })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at!)
+      .select('id')
+
+    if (!claimed?.length) continue
+
+    const result = await runReport(schedule)
+    if (result.error) {
+      failed++
+    } else {
+      sent++
+    }
+  }
+
+  return { data: { sent, failed } }
+}
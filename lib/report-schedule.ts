@@ -0,0 +1,92 @@
+import { CronExpressionParser } from 'cron-parser'
+
+import type { Database } from '@/database.types'
+import type { ExportFormat } from '@/lib/result-export'
+
+export const ATTACHMENT_FORMATS = [
+  'csv',
+  'xlsx',
+] as const satisfies ExportFormat[]
+
+export type AttachmentFormat = (typeof ATTACHMENT_FORMATS)[number]
+
+export type ReportRun = {
+  id: string
+  status: 'running' | 'success' | 'failed'
+  error: string | null
+  rowCount: number | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+export type ReportSchedule = {
+  id: string
+  name: string
+  savedQueryId: string | null
+  dashboardId: string | null
+  connectionProfileId: string
+  cron: string
+  timeZone: string
+  recipients: string[]
+  attachmentFormat: AttachmentFormat
+  parameterValues: Record<string, string>
+  isEnabled: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  runs: ReportRun[]
+}
+
+export const toReportRun = (
+  row: Database['public']['Tables']['report_runs']['Row']
+): ReportRun => ({
+  id: row.id,
+  status: row.status as ReportRun['status'],
+  error: row.error,
+  rowCount: row.row_count,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+})
+
+export const toReportSchedule = (
+  row: Database['public']['Tables']['report_schedules']['Row'],
+  runs: ReportRun[] = []
+): ReportSchedule => ({
+  id: row.id,
+  name: row.name,
+  savedQueryId: row.saved_query_id,
+  dashboardId: row.dashboard_id,
+  connectionProfileId: row.connection_profile_id,
+  cron: row.cron,
+  timeZone: row.time_zone,
+  recipients: row.recipients,
+  attachmentFormat: row.attachment_format as AttachmentFormat,
+  parameterValues: row.parameter_values as Record<string, string>,
+  isEnabled: row.is_enabled,
+  nextRunAt: row.next_run_at,
+  lastRunAt: row.last_run_at,
+  runs,
+})
+
+/**
+ * Returns the next time a five field cron expression fires after `after`,
+ * or null when the expression or time zone is invalid. A seconds field is
+ * not accepted so reports cannot run more than once a minute.
+ */
+export function nextRunAt(
+  cron: string,
+  timeZone: string,
+  after = new Date()
+): Date | null {
+  if (cron.trim().split(/\s+/).length !== 5) return null
+
+  try {
+    return CronExpressionParser.parse(cron, {
+      currentDate: after,
+      tz: timeZone,
+    })
+      .next()
+      .toDate()
+  } catch {
+    return null
+  }
+}
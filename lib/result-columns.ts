@@ -0,0 +1,172 @@
+import type { FilterFn, RowData, SortingFn } from '@tanstack/react-table'
+
+export type ColumnKind = 'number' | 'date' | 'boolean' | 'text'
+
+declare module '@tanstack/react-table' {
+  interface ColumnMeta<TData extends RowData, TValue> {
+    kind?: ColumnKind
+  }
+}
+
+// pg type OIDs, see pg_type
+export const PG_TYPES = {
+  bool: 16,
+  int8: 20,
+  int2: 21,
+  int4: 23,
+  oid: 26,
+  json: 114,
+  float4: 700,
+  float8: 701,
+  money: 790,
+  date: 1082,
+  time: 1083,
+  timestamp: 1114,
+  timestamptz: 1184,
+  timetz: 1266,
+  numeric: 1700,
+  jsonb: 3802,
+} as const
+
+const NUMBER_TYPES = new Set<number>([
+  PG_TYPES.int8,
+  PG_TYPES.int2,
+  PG_TYPES.int4,
+  PG_TYPES.oid,
+  PG_TYPES.float4,
+  PG_TYPES.float8,
+  PG_TYPES.money,
+  PG_TYPES.numeric,
+])
+const DATE_TYPES = new Set<number>([
+  PG_TYPES.date,
+  PG_TYPES.time,
+  PG_TYPES.timestamp,
+  PG_TYPES.timestamptz,
+  PG_TYPES.timetz,
+])
+const BOOLEAN_TYPES = new Set<number>([PG_TYPES.bool])
+
+export const columnKindForType = (dataTypeID: number): ColumnKind => {
+  if (NUMBER_TYPES.has(dataTypeID)) return 'number'
+  if (DATE_TYPES.has(dataTypeID)) return 'date'
+  if (BOOLEAN_TYPES.has(dataTypeID)) return 'boolean'
+  return 'text'
+}
+
+// int8 and numeric arrive as strings to keep their precision
+export const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null
+  const number = typeof value === 'number' ? value : Number(value)
+  return Number.isNaN(number) ? null : number
+}
+
+export const toTime = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null
+  const time =
+    value instanceof Date ? value.getTime() : Date.parse(String(value))
+  return Number.isNaN(time) ? null : time
+}
+
+const sortKey = (kind: ColumnKind, value: unknown) => {
+  switch (kind) {
+    case 'number':
+      return toNumber(value)
+    case 'date':
+      return toTime(value)
+    case 'boolean':
+      return value === null || value === undefined ? null : Number(!!value)
+    default:
+      return value === null || value === undefined
+        ? null
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value)
+  }
+}
+
+export const sortByKind =
+  (kind: ColumnKind): SortingFn<unknown> =>
+  (rowA, rowB, columnId) => {
+    const a = sortKey(kind, rowA.getValue(columnId))
+    const b = sortKey(kind, rowB.getValue(columnId))
+    // NULLs last, like Postgres does for ascending order
+    if (a === null) return b === null ? 0 : 1
+    if (b === null) return -1
+    if (typeof a === 'string' && typeof b === 'string') {
+      return a.localeCompare(b, undefined, { numeric: true })
+    }
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+const COMPARISON = /^(>=|<=|>|<|=|!=)?\s*(.+)$/
+const RANGE = /^(.+?)\s*\.\.\s*(.+)$/
+
+/**
+ * Matches a number or date against a filter such as "42", ">10", "<=5",
+ * "!=0" or a range "2024-01-01..2024-06-30".
+ */
+const matchesComparison = (
+  value: number | null,
+  filter: string,
+  parse: (input: string) => number | null
+) => {
+  if (value === null) return false
+
+  const range = filter.match(RANGE)
+  if (range) {
+    const from = parse(range[1])
+    const to = parse(range[2])
+    return (from === null || value >= from) && (to === null || value <= to)
+  }
+
+  const comparison = filter.match(COMPARISON)
+  const target = comparison ? parse(comparison[2]) : null
+  if (!comparison || target === null) return true
+
+  switch (comparison[1]) {
+    case '>':
+      return value > target
+    case '>=':
+      return value >= target
+    case '<':
+      return value < target
+    case '<=':
+      return value <= target
+    case '!=':
+      return value !== target
+    default:
+      return value === target
+  }
+}
+
+export const filterByKind =
+  (kind: ColumnKind): FilterFn<unknown> =>
+  (row, columnId, filterValue: string) => {
+    const filter = filterValue.trim()
+    if (!filter) return true
+
+    const value = row.getValue(columnId)
+    switch (kind) {
+      case 'number':
+        return matchesComparison(toNumber(value), filter, toNumber)
+      case 'date':
+        return matchesComparison(toTime(value), filter, toTime)
+      case 'boolean':
+        return String(value).toLowerCase().startsWith(filter.toLowerCase())
+      default: {
+        const text =
+          value !== null && typeof value === 'object'
+            ? JSON.stringify(value)
+            : String(value)
+        return text.toLowerCase().includes(filter.toLowerCase())
+      }
+    }
+  }
+
+export const filterPlaceholder: Record<ColumnKind, string> = {
+  number: '>10, 1..5',
+  date: '>2024-01-01',
+  boolean: 'true / false',
+  text: 'Contains...',
+}
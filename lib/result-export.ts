@@ -0,0 +1,316 @@
+import { once } from 'node:events'
+import type { Writable } from 'node:stream'
+
+import { ParquetSchema, ParquetWriter } from '@dsnp/parquetjs'
+import ExcelJS from 'exceljs'
+import type { FieldDef } from 'pg'
+
+import {
+  columnKindForType,
+  PG_TYPES,
+  toNumber,
+  toTime,
+  type ColumnKind,
+} from '@/lib/result-columns'
+
+export const EXPORT_FORMATS = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  xlsx: {
+    extension: 'xlsx',
+    contentType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  parquet: {
+    extension: 'parquet',
+    contentType: 'application/vnd.apache.parquet',
+  },
+}
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS
+
+export type ExportMetadata = {
+  sql: string
+  exportedAt: Date
+}
+
+export type ExportWriter = {
+  writeRows: (rows: Record<string, unknown>[]) => Promise<void>
+  // truncatedAt is the row cap when more rows matched than were written
+  close: (truncatedAt: number | null) => Promise<void>
+}
+
+type Column = { name: string; kind: ColumnKind; dataTypeID: number }
+
+// int2 and int4 always fit in a JS number, int8 and numeric may not
+const SAFE_INTEGER_TYPES = new Set<number>([PG_TYPES.int2, PG_TYPES.int4])
+
+const toColumns = (fields: FieldDef[]): Column[] =>
+  fields.map((field) => ({
+    name: field.name,
+    kind: columnKindForType(field.dataTypeID),
+    dataTypeID: field.dataTypeID,
+  }))
+
+const toText = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Written at the end of a cut off export so it is never mistaken for the
+// full result
+const truncationNote = (rowLimit: number) =>
+  `Export truncated: only the first ${rowLimit.toLocaleString('en-US')} rows were written`
+
+const closedError = () => new Error('Export stream was closed')
+
+// Respects backpressure so a slow download does not buffer the whole file
+const write = async (output: Writable, chunk: string) => {
+  if (output.destroyed) throw closedError()
+  if (!output.write(chunk)) {
+    // A cancelled download never drains
+    await Promise.race([
+      once(output, 'drain'),
+      once(output, 'close').then(() => {
+        throw closedError()
+      }),
+    ])
+  }
+}
+
+const end = async (output: Writable) => {
+  output.end()
+  await once(output, 'finish')
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export const csvCell = (value: unknown) => {
+  const raw = toText(value)
+  // Prefixed with a quote so a value like =HYPERLINK(...) stays text,
+  // negative numbers are left as they are
+  const text =
+    FORMULA_PREFIX.test(raw) && !Number.isFinite(Number(raw)) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const createCsvWriter = async (
+  columns: Column[],
+  output: Writable
+): Promise<ExportWriter> => {
+  await write(output, `${columns.map((c) => csvCell(c.name)).join(',')}\r\n`)
+
+  return {
+    writeRows: async (rows) => {
+      const lines = rows.map(
+        (row) => `${columns.map((c) => csvCell(row[c.name])).join(',')}\r\n`
+      )
+      await write(output, lines.join(''))
+    },
+    close: async (truncatedAt) => {
+      if (truncatedAt !== null) {
+        await write(output, `${csvCell(truncationNote(truncatedAt))}\r\n`)
+      }
+      await end(output)
+    },
+  }
+}
+
+// The rows go in an envelope, so whether the file is complete is not
+// mistaken for a row
+const createJsonWriter = async (output: Writable): Promise<ExportWriter> => {
+  let first = true
+  await write(output, '{"rows":[')
+
+  return {
+    writeRows: async (rows) => {
+      if (!rows.length) return
+      const chunk = rows.map((row) => JSON.stringify(row)).join(',\n')
+      await write(output, `${first ? '\n' : ',\n'}${chunk}`)
+      first = false
+    },
+    close: async (truncatedAt) => {
+      const truncation =
+        truncatedAt === null
+          ? '"truncated":false'
+          : `"truncated":true,"note":${JSON.stringify(truncationNote(truncatedAt))}`
+      await write(output, `\n],${truncation}}\n`)
+      await end(output)
+    },
+  }
+}
+
+const excelValue = (column: Column, value: unknown) => {
+  if (value === null || value === undefined) return null
+  switch (column.kind) {
+    case 'number': {
+      const number = toNumber(value)
+      // Keep huge int8 / numeric values as text rather than rounding them
+      return number !== null &&
+        (SAFE_INTEGER_TYPES.has(column.dataTypeID) ||
+          Math.abs(number) <= Number.MAX_SAFE_INTEGER)
+        ? number
+        : toText(value)
+    }
+    case 'date': {
+      const time = toTime(value)
+      return time === null ? toText(value) : new Date(time)
+    }
+    case 'boolean':
+      return !!value
+    default:
+      return toText(value)
+  }
+}
+
+const createXlsxWriter = async (
+  columns: Column[],
+  output: Writable,
+  metadata: ExportMetadata
+): Promise<ExportWriter> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+  })
+
+  const about = workbook.addWorksheet('Query')
+  about.columns = [
+    { key: 'label', width: 16 },
+    { key: 'value', width: 100 },
+  ]
+  about.addRow({ label: 'SQL', value: metadata.sql }).commit()
+  about
+    .addRow({ label: 'Exported at', value: metadata.exportedAt.toISOString() })
+    .commit()
+  about.commit()
+
+  const sheet = workbook.addWorksheet('Results')
+  sheet.columns = columns.map((column) => ({
+    header: column.name,
+    key: column.name,
+    width: Math.min(Math.max(column.name.length + 2, 12), 50),
+    style:
+      column.kind === 'date'
+        ? { numFmt: 'yyyy-mm-dd hh:mm:ss' }
+        : column.kind === 'number'
+          ? { numFmt: 'General' }
+          : {},
+  }))
+
+  return {
+    writeRows: async (rows) => {
+      for (const row of rows) {
+        sheet
+          .addRow(
+            Object.fromEntries(
+              columns.map((c) => [c.name, excelValue(c, row[c.name])])
+            )
+          )
+          .commit()
+      }
+    },
+    close: async (truncatedAt) => {
+      if (truncatedAt !== null) {
+        sheet.addRow([truncationNote(truncatedAt)]).commit()
+      }
+      sheet.commit()
+      await workbook.commit()
+    },
+  }
+}
+
+const parquetType = (column: Column) => {
+  switch (column.kind) {
+    case 'number':
+      return SAFE_INTEGER_TYPES.has(column.dataTypeID) ? 'INT32' : 'DOUBLE'
+    case 'date':
+      return 'TIMESTAMP_MILLIS'
+    case 'boolean':
+      return 'BOOLEAN'
+    default:
+      return 'UTF8'
+  }
+}
+
+const parquetValue = (column: Column, value: unknown) => {
+  if (value === null || value === undefined) return undefined
+  switch (column.kind) {
+    case 'number':
+      return toNumber(value) ?? undefined
+    case 'date': {
+      const time = toTime(value)
+      return time === null ? undefined : new Date(time)
+    }
+    case 'boolean':
+      return !!value
+    default:
+      return toText(value)
+  }
+}
+
+const createParquetWriter = async (
+  columns: Column[],
+  output: Writable
+): Promise<ExportWriter> => {
+  const schema = new ParquetSchema(
+    Object.fromEntries(
+      columns.map((column) => [
+        column.name,
+        { type: parquetType(column), optional: true },
+      ])
+    )
+  )
+  const writer = await ParquetWriter.openStream(
+    schema,
+    // Only write() and end() are used, typed as fs.WriteStream upstream
+    output as unknown as Parameters<typeof ParquetWriter.openStream>[1]
+  )
+
+  return {
+    writeRows: async (rows) => {
+      for (const row of rows) {
+        await writer.appendRow(
+          Object.fromEntries(
+            columns.map((c) => [c.name, parquetValue(c, row[c.name])])
+          )
+        )
+      }
+    },
+    // Typed columns cannot hold a note, it goes in the file metadata
+    close: (truncatedAt) => {
+      if (truncatedAt !== null) {
+        writer.setMetadata('truncated', truncationNote(truncatedAt))
+      }
+      // Also ends the output stream
+      return writer.close()
+    },
+  }
+}
+
+/**
+ * Creates a writer that turns batches of query rows into the given file
+ * format on `output`. Column types come from the pg field types, so numbers
+ * and dates stay typed in XLSX and Parquet.
+ */
+export function createExportWriter(
+  format: ExportFormat,
+  fields: FieldDef[],
+  output: Writable,
+  metadata: ExportMetadata
+): Promise<ExportWriter> {
+  const columns = toColumns(fields)
+
+  switch (format) {
+    case 'csv':
+      return createCsvWriter(columns, output)
+    case 'json':
+      return createJsonWriter(output)
+    case 'xlsx':
+      return createXlsxWriter(columns, output, metadata)
+    case 'parquet':
+      return createParquetWriter(columns, output)
+  }
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod'
+
+import { SAVED_QUERY_CONFIG } from '@/config/saved-queries'
+import type { Database } from '@/database.types'
+import type { Config } from '@/lib/chart'
+import type { SchemaSnapshot } from '@/lib/schema-cache'
+
+export const PARAMETER_TYPES = ['text', 'number', 'date'] as const
+
+export const queryParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+  label: z.string().trim().max(100),
+  type: z.enum(PARAMETER_TYPES),
+  // Returns `value` and `label` columns for a dropdown, inferred from the
+  // schema when empty
+  optionsSql: z.string().trim().nullable(),
+})
+
+export type QueryParameter = z.infer<typeof queryParameterSchema>
+
+export type ParameterOption = { value: string; label: string }
+
+export type SavedQuery = {
+  id: string
+  title: string
+  description: string | null
+  sql: string
+  tags: string[]
+  chartConfig: Config | null
+  parameters: QueryParameter[]
+  createdAt: string
+}
+
+export const toSavedQuery = (
+  row: Database['public']['Tables']['saved_queries']['Row']
+): SavedQuery => ({
+  id: row.id,
+  title: row.title,
+  description: row.description,
+  sql: row.sql,
+  tags: row.tags,
+  chartConfig: row.chart_config as Config | null,
+  parameters: row.parameters as QueryParameter[],
+  createdAt: row.created_at,
+})
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`
+
+export const defaultParameter = (name: string): QueryParameter => ({
+  name,
+  label: name
+    .replace(/_id$/, '')
+    .replace(/_/g, ' ')
+    .replace(/^\w/, (c) => c.toUpperCase()),
+  type: name.endsWith('_id') ? 'number' : 'text',
+  optionsSql: null,
+})
+
+/**
+ * Guesses a dropdown query for an `*_id` parameter from the table it most
+ * likely refers to, e.g. `:academic_year_id` lists `academic_years`.
+ */
+export function inferParameterOptionsSql(
+  name: string,
+  snapshot: SchemaSnapshot
+): string | null {
+  if (!name.endsWith('_id')) return null
+
+  const base = name.slice(0, -3).toLowerCase()
+  const candidates = [base, `${base}s`, `${base}es`, base.replace(/y$/, 'ies')]
+  const table = snapshot.tables.find(
+    (t) =>
+      t.schemaName === 'public' &&
+      candidates.includes(t.tableName.toLowerCase()) &&
+      t.columns.some((c) => c.name === 'id')
+  )
+  if (!table) return null
+
+  const labelColumn =
+    SAVED_QUERY_CONFIG.labelColumns.find((column) =>
+      table.columns.some((c) => c.name === column)
+    ) ?? 'id'
+
+  return `SELECT id AS value, ${quoteIdent(labelColumn)} AS label FROM ${quoteIdent(table.tableName)} ORDER BY 2 LIMIT ${SAVED_QUERY_CONFIG.maxParameterOptions}`
+}
@@ -0,0 +1,77 @@
+import type { AccessScope } from '@/config/diocese'
+import { SAVED_QUERY_CONFIG } from '@/config/saved-queries'
+import { bindQueryParameters } from '@/lib/query-parameters'
+import type { QueryAuditContext } from '@/lib/query-audit'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+import {
+  inferParameterOptionsSql,
+  type ParameterOption,
+  type QueryParameter,
+} from '@/lib/saved-queries'
+import { getSchemaSnapshot } from '@/lib/schema-cache'
+import { runScopedQuery } from '@/lib/scoped-query'
+
+/**
+ * Runs saved SQL with the given parameter values. The values are sent as
+ * bind parameters, never spliced into the SQL.
+ */
+export async function runSavedQuerySql(
+  sql: string,
+  values: Record<string, string>,
+  connectionString: string,
+  scope: AccessScope,
+  audit: QueryAuditContext
+): Promise<LimitedQueryResult | string> {
+  const bound = bindQueryParameters(sql, values)
+  if ('error' in bound) {
+    return bound.error
+  }
+
+  return runScopedQuery(bound.sql, connectionString, scope, audit, bound.values)
+}
+
+/**
+ * Loads the dropdown options of each parameter that has an options query,
+ * either its own or one inferred from the schema. Options go through the
+ * same scope rewrite as any other query, so users only see values they
+ * have access to. Parameters whose options fail to load are left out and
+ * fall back to a plain input.
+ */
+export async function loadParameterOptions(
+  parameters: QueryParameter[],
+  connectionString: string,
+  scope: AccessScope,
+  audit: QueryAuditContext
+): Promise<Record<string, ParameterOption[]>> {
+  const snapshot = await getSchemaSnapshot(connectionString, scope.role).catch(
+    (error) => {
+      console.error('Error loading schema for parameter options:', error)
+      return null
+    }
+  )
+
+  const options: Record<string, ParameterOption[]> = {}
+  for (const parameter of parameters) {
+    if (options[parameter.name]) continue
+
+    const sql =
+      parameter.optionsSql ??
+      (snapshot && inferParameterOptionsSql(parameter.name, snapshot))
+    if (!sql) continue
+
+    const result = await runScopedQuery(sql, connectionString, scope, audit)
+    if (typeof result === 'string') {
+      console.error(`Error loading options for :${parameter.name}:`, result)
+      continue
+    }
+
+    options[parameter.name] = result.rows
+      .slice(0, SAVED_QUERY_CONFIG.maxParameterOptions)
+      .map((row) => {
+        const { value, label } = row
+        return { value: String(value), label: String(label ?? value) }
+      })
+  }
+
+  return options
+}
@@ -0,0 +1,177 @@
+import { createHash } from 'node:crypto'
+
+import type { UserRole } from '@/config/diocese'
+import { SCHEMA_CACHE_CONFIG } from '@/config/schema-cache'
+import { withReadOnlyTransaction } from '@/lib/read-only-query'
+
+export type SchemaColumn = {
+  name: string
+  type: string
+  isNullable: boolean
+  comment: string | null
+}
+
+export type SchemaTable = {
+  tableName: string
+  schemaName: string
+  comment: string | null
+  columns: SchemaColumn[]
+}
+
+export type SchemaForeignKey = {
+  table_schema: string
+  table_name: string
+  column_name: string
+  foreign_table_schema: string
+  foreign_table_name: string
+  foreign_column_name: string
+}
+
+export type SchemaIndex = {
+  indexname: string
+  tablename: string
+  schemaname: string
+  indexdef: string
+}
+
+export type SchemaSnapshot = {
+  loadedAt: number
+  tables: SchemaTable[]
+  foreignKeys: SchemaForeignKey[]
+  indexes: SchemaIndex[]
+}
+
+// Pending loads are cached too, so concurrent tool calls share one load
+const cache = new Map<string, Promise<SchemaSnapshot>>()
+
+const fingerprint = (connectionString: string) =>
+  createHash('sha256').update(connectionString).digest('hex')
+
+const loadSnapshot = (connectionString: string, role: UserRole) =>
+  withReadOnlyTransaction(connectionString, role, async (client) => {
+    const columns = await client.query<{
+      table_schema: string
+      table_name: string
+      table_comment: string | null
+      column_name: string
+      data_type: string
+      is_nullable: string
+      column_comment: string | null
+    }>(`
+      SELECT
+        c.table_schema,
+        c.table_name,
+        obj_description(pc.oid, 'pg_class') AS table_comment,
+        c.column_name,
+        c.data_type,
+        c.is_nullable,
+        col_description(pc.oid, c.ordinal_position::int) AS column_comment
+      FROM information_schema.columns c
+        JOIN pg_namespace pn ON pn.nspname = c.table_schema
+        JOIN pg_class pc ON pc.relnamespace = pn.oid AND pc.relname = c.table_name
+      WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema')
+      ORDER BY c.table_schema, c.table_name, c.ordinal_position
+    `)
+
+    const foreignKeys = await client.query<SchemaForeignKey>(`
+      SELECT
+        tc.table_schema,
+        tc.table_name,
+        kcu.column_name,
+        ccu.table_schema AS foreign_table_schema,
+        ccu.table_name AS foreign_table_name,
+        ccu.column_name AS foreign_column_name
+      FROM
+        information_schema.table_constraints AS tc
+        JOIN information_schema.key_column_usage AS kcu
+          ON tc.constraint_name = kcu.constraint_name
+          AND tc.table_schema = kcu.table_schema
+        JOIN information_schema.constraint_column_usage AS ccu
+          ON ccu.constraint_name = tc.constraint_name
+          AND ccu.table_schema = tc.table_schema
+      WHERE tc.constraint_type = 'FOREIGN KEY'
+    `)
+
+    const indexes = await client.query<SchemaIndex>(`
+      SELECT indexname, tablename, schemaname, indexdef
+      FROM pg_indexes
+      WHERE schemaname NOT IN ('pg_catalog', 'information_schema')
+      ORDER BY schemaname, tablename, indexname
+    `)
+
+    const tables = new Map<string, SchemaTable>()
+    for (const row of columns.rows) {
+      const key = `${row.table_schema}.${row.table_name}`
+      let table = tables.get(key)
+      if (!table) {
+        table = {
+          tableName: row.table_name,
+          schemaName: row.table_schema,
+          comment: row.table_comment,
+          columns: [],
+        }
+        tables.set(key, table)
+      }
+      table.columns.push({
+        name: row.column_name,
+        type: row.data_type,
+        isNullable: row.is_nullable === 'YES',
+        comment: row.column_comment,
+      })
+    }
+
+    return {
+      loadedAt: Date.now(),
+      tables: Array.from(tables.values()),
+      foreignKeys: foreignKeys.rows,
+      indexes: indexes.rows,
+    }
+  })
+
+/**
+ * Returns the tables, columns, foreign keys, indexes and comments of a
+ * database, loading them at most once per SCHEMA_CACHE_CONFIG.ttlMs.
+ */
+export async function getSchemaSnapshot(
+  connectionString: string,
+  role: UserRole
+): Promise<SchemaSnapshot> {
+  const key = fingerprint(connectionString)
+  const cached = cache.get(key)
+  if (cached) {
+    const snapshot = await cached
+    if (Date.now() - snapshot.loadedAt < SCHEMA_CACHE_CONFIG.ttlMs) {
+      return snapshot
+    }
+    // Another caller may already have started a reload
+    if (cache.get(key) !== cached) {
+      return getSchemaSnapshot(connectionString, role)
+    }
+  }
+
+  const pending = loadSnapshot(connectionString, role)
+  cache.delete(key)
+  cache.set(key, pending)
+  // Failed loads are not cached, the next call retries
+  pending.catch(() => {
+    if (cache.get(key) === pending) {
+      cache.delete(key)
+    }
+  })
+
+  while (cache.size > SCHEMA_CACHE_CONFIG.maxEntries) {
+    const oldest = cache.keys().next().value
+    if (oldest === undefined) break
+    cache.delete(oldest)
+  }
+
+  return pending
+}
+
+/**
+ * Drops the cached snapshot so the next call reloads it, e.g. after a
+ * migration.
+ */
+export function invalidateSchemaSnapshot(connectionString: string) {
+  cache.delete(fingerprint(connectionString))
+}
@@ -0,0 +1,164 @@
+import { createHash } from 'node:crypto'
+
+import { types } from 'pg'
+
+import type { AccessScope } from '@/config/diocese'
+import { QUERY_LIMITS, QUERY_PREVIEW_LIMITS } from '@/config/query-limits'
+import type {
+  QueryAuditContext,
+  QueryAuditOutcomeDetails,
+} from '@/lib/query-audit'
+import {
+  queryWithRowCap,
+  withReadOnlyTransaction,
+  type LimitedQueryResult,
+} from '@/lib/read-only-query'
+import { scopeSql } from '@/lib/sql-scope'
+import { createAdminClient } from '@/utils/supabase/admin'
+
+export type QueryPreview = LimitedQueryResult & {
+  columns: { name: string; type: string }[]
+  // Only the first rows are kept, chats show it is not the full result
+  preview: true
+}
+
+const typeNames = Object.fromEntries(
+  Object.entries(types.builtins).map(([name, oid]) => [oid, name.toLowerCase()])
+)
+
+export const QUERY_AUDIT_FAILED_MESSAGE =
+  'The query could not be written to the audit log, so its result is withheld. Try again later.'
+
+/**
+ * Appends a query to the audit log with the scope it ran with. Returns
+ * false when the row could not be written, the caller must then withhold
+ * the result: nothing is shown that the log does not know about.
+ */
+export async function recordQueryAudit(
+  audit: QueryAuditContext,
+  scope: AccessScope,
+  details: QueryAuditOutcomeDetails
+): Promise<boolean> {
+  const { error } = await createAdminClient()
+    .from('query_audit')
+    .insert({
+      user_id: audit.userId,
+      role: scope.role,
+      diocese_ids: scope.dioceseIds,
+      testing_center_ids: scope.testingCenterIds,
+      source: audit.source,
+      tool: audit.tool ?? null,
+      connection_profile_id: audit.connectionProfileId ?? null,
+      sql_text: details.sql,
+      sql_hash:
+        details.sql === null
+          ? null
+          : createHash('sha256').update(details.sql).digest('hex'),
+      outcome: details.outcome,
+      row_count: details.rowCount ?? null,
+      duration_ms: Math.round(details.durationMs),
+      rejection_reason: details.rejectionReason ?? null,
+      error: details.error ?? null,
+      chat_id: audit.chatId ?? null,
+      message_id: audit.messageId ?? null,
+    })
+
+  if (error) {
+    console.error('Error recording query audit:', error)
+    return false
+  }
+  return true
+}
+
+/**
+ * Runs a query for the given scope: policy check, scope rewrite, then a
+ * read-only transaction with the role's limits. Errors are returned as
+ * strings so they can be shown to the user or the model as-is. `values` are
+ * bind parameters for `$1`, `$2`... in the SQL. Every run, blocked or not,
+ * is written to the audit log with `audit`, rows that could not be logged
+ * are not returned.
+ */
+export async function runScopedQuery(
+  sql: string,
+  connectionString: string,
+  scope: AccessScope,
+  audit: QueryAuditContext,
+  values: unknown[] = []
+): Promise<LimitedQueryResult | string> {
+  const startedAt = performance.now()
+  const durationMs = () => performance.now() - startedAt
+
+  // 1. Only a single read statement is allowed, and protected tables are
+  // rewritten so they only return rows inside the user's scope
+  const scoped = await scopeSql(sql, scope, connectionString)
+  if (!scoped.allowed) {
+    await recordQueryAudit(audit, scope, {
+      sql,
+      outcome: 'rejected',
+      durationMs: durationMs(),
+      rejectionReason: scoped.reason,
+    })
+    return scoped.reason
+  }
+
+  // 2. Execute the query in a read-only transaction with the role's
+  // timeouts, returning at most maxRows rows
+  const limits = QUERY_LIMITS[scope.role]
+
+  try {
+    const result = await withReadOnlyTransaction(
+      connectionString,
+      scope.role,
+      (client) => queryWithRowCap(client, scoped.sql, limits.maxRows, values)
+    )
+    const audited = await recordQueryAudit(audit, scope, {
+      sql,
+      outcome: 'ok',
+      durationMs: durationMs(),
+      rowCount: result.rowCount,
+    })
+    return audited ? result : QUERY_AUDIT_FAILED_MESSAGE
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await recordQueryAudit(audit, scope, {
+      sql,
+      outcome: 'error',
+      durationMs: durationMs(),
+      error: message,
+    })
+    return message
+  }
+}
+
+/**
+ * Cuts a result down to the first rows that fit QUERY_PREVIEW_LIMITS and
+ * adds the column types. rowCount and rowLimit keep what the query
+ * actually returned and the cap it ran with.
+ */
+export function toQueryPreview(result: LimitedQueryResult): QueryPreview {
+  const total = result.truncated
+    ? (result.totalRowsEstimate ?? result.rowCount)
+    : result.rowCount
+
+  let rows = result.rows.slice(0, QUERY_PREVIEW_LIMITS.maxRows)
+  while (
+    rows.length > 1 &&
+    JSON.stringify(rows).length > QUERY_PREVIEW_LIMITS.maxChars
+  ) {
+    rows = rows.slice(0, Math.floor(rows.length / 2))
+  }
+
+  const truncated = result.truncated || rows.length < result.rows.length
+
+  return {
+    ...result,
+    rows,
+    truncated,
+    totalRowsEstimate: truncated ? total : null,
+    preview: true,
+    columns: result.fields.map((field) => ({
+      name: field.name,
+      type: typeNames[field.dataTypeID] ?? `oid ${field.dataTypeID}`,
+    })),
+  }
+}
@@ -0,0 +1,55 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto'
+
+const ALGORITHM = 'aes-256-gcm'
+// Bumped if the algorithm or key ever changes, old payloads stay readable
+const VERSION = 'v1'
+
+const getKey = () => {
+  const key = Buffer.from(process.env.CONNECTION_ENCRYPTION_KEY ?? '', 'base64')
+  if (key.length !== 32) {
+    throw new Error(
+      'CONNECTION_ENCRYPTION_KEY must be 32 bytes, base64 encoded'
+    )
+  }
+  return key
+}
+
+/**
+ * Encrypts a secret with the app key. The result is
+ * "v1:<iv>:<auth tag>:<ciphertext>", all base64.
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv)
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ])
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':')
+}
+
+/**
+ * Decrypts a payload from encryptSecret. Throws if it was tampered with or
+ * encrypted with another key.
+ */
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(':')
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported encrypted payload')
+  }
+
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    getKey(),
+    Buffer.from(iv, 'base64')
+  )
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8')
+}
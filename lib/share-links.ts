@@ -0,0 +1,118 @@
+import type { Message } from 'ai'
+
+import type { Database } from '@/database.types'
+import { sqlResultKey } from '@/lib/chat-messages'
+import type { LimitedQueryResult } from '@/lib/read-only-query'
+
+type ShareLinkRow = Database['public']['Tables']['share_links']['Row']
+
+export const SHARE_MODES = ['snapshot', 'rerun'] as const
+
+export type ShareMode = (typeof SHARE_MODES)[number]
+
+export const SHARE_MODE_LABELS: Record<ShareMode, string> = {
+  snapshot: 'View snapshot',
+  rerun: "Re-run with the viewer's access",
+}
+
+export type ShareLink = {
+  id: string
+  token: string
+  chatId: string
+  // Set when a single result is shared
+  messageId: string | null
+  sql: string | null
+  mode: ShareMode
+  title: string
+  expiresAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+export const toShareLink = (row: ShareLinkRow): ShareLink => ({
+  id: row.id,
+  token: row.token,
+  chatId: row.chat_id,
+  messageId: row.message_id,
+  sql: row.sql,
+  mode: row.mode as ShareMode,
+  title: row.title,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at,
+  createdAt: row.created_at,
+})
+
+export const isShareLinkActive = (
+  link: Pick<ShareLink, 'expiresAt' | 'revokedAt'>,
+  now = new Date()
+) => !link.revokedAt && (!link.expiresAt || new Date(link.expiresAt) > now)
+
+/** A query of a shared chat, `key` matches `sqlResultKey` in the chat */
+export type SharedQuery = { key: string; sql: string; messageId: string }
+
+export type SharedResults = Record<string, LimitedQueryResult | string>
+
+/** Only the text of a message is shared, never its tool calls or results */
+export type SharedMessage = Pick<Message, 'id' | 'role' | 'content'>
+
+/** What a viewer of a link sees, results are already in their scope */
+export type SharedContent = {
+  title: string
+  mode: ShareMode
+  createdAt: string
+  // The thread of a shared chat, null for a single result
+  messages: SharedMessage[] | null
+  query: SharedQuery | null
+  results: SharedResults
+}
+
+const SQL_BLOCK = /```sql[^\n]*\n([\s\S]*?)```/g
+
+/** The SQL code blocks of the assistant's answers, the ones the chat runs */
+export const extractSharedQueries = (
+  messages: SharedMessage[]
+): SharedQuery[] => {
+  const queries = new Map<string, SharedQuery>()
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') {
+      continue
+    }
+    for (const match of Array.from(message.content.matchAll(SQL_BLOCK))) {
+      const key = sqlResultKey(match[1], message.id)
+      if (match[1].trim() && !queries.has(key)) {
+        queries.set(key, { key, sql: match[1].trim(), messageId: message.id })
+      }
+    }
+  }
+
+  return Array.from(queries.values())
+}
+
+/**
+ * Reduces a thread to what a link may show. Tool invocations hold the
+ * author's query results, so only the text is kept. In re-run mode the
+ * assistant's prose describes rows the viewer may not be allowed to see,
+ * only its SQL blocks are kept and run again with the viewer's access.
+ */
+export const toSharedMessages = (
+  messages: SharedMessage[],
+  mode: ShareMode
+): SharedMessage[] =>
+  messages
+    .filter(
+      (message) => message.role === 'user' || message.role === 'assistant'
+    )
+    .map(({ id, role, content }) => ({
+      id,
+      role,
+      content:
+        mode === 'rerun' && role === 'assistant'
+          ? Array.from(content.matchAll(SQL_BLOCK), ([block]) => block).join(
+              '\n\n'
+            )
+          : content,
+    }))
+
+export const shareUrl = (origin: string, token: string) =>
+  `${origin}/app/share/${token}`
@@ -0,0 +1,224 @@
+import { astVisitor, parse, type Statement } from 'pgsql-ast-parser'
+
+import { SQL_POLICY_CONFIG, type StatementKind } from '@/config/sql-policy'
+
+export type SqlPolicyViolationCode =
+  | 'empty'
+  | 'parse_error'
+  | 'multiple_statements'
+  | 'statement_not_allowed'
+  | 'data_modifying_statement'
+  | 'locking_clause'
+  | 'blocked_function'
+
+export interface SqlPolicyViolation {
+  code: SqlPolicyViolationCode
+  message: string
+  // AST node type (or function name) that caused the rejection
+  node?: string
+  // Character offsets of the node inside the checked SQL
+  location?: { start: number; end: number }
+}
+
+export type SqlPolicyResult =
+  | {
+      allowed: true
+      kind: StatementKind
+      statement: Statement
+      // Original EXPLAIN prefix (e.g. "EXPLAIN ANALYZE ") when kind is 'explain'
+      explainPrefix: string
+    }
+  | { allowed: false; violation: SqlPolicyViolation }
+
+export type SqlPolicyOptions = Partial<typeof SQL_POLICY_CONFIG>
+
+// EXPLAIN is not understood by the parser, so it is peeled off and the
+// explained statement is checked on its own.
+const EXPLAIN_PREFIX =
+  /^\s*explain\b(?:\s*\([^)]*\))?(?:\s+(?:analy[sz]e|verbose))*\s+/i
+
+/** Drops a leading EXPLAIN and its options, leaving the explained query */
+export const stripExplain = (sql: string) => sql.replace(EXPLAIN_PREFIX, '')
+
+const statementKind = (statement: Statement): StatementKind | null => {
+  switch (statement.type) {
+    case 'select':
+    case 'union':
+    case 'union all':
+    case 'values':
+      return 'select'
+    case 'with':
+    case 'with recursive':
+      return 'with'
+    default:
+      return null
+  }
+}
+
+const isBlockedFunction = (
+  name: string,
+  blockedFunctions: string[],
+  blockedFunctionPatterns: RegExp[]
+) =>
+  blockedFunctions.includes(name) ||
+  blockedFunctionPatterns.some((pattern) => pattern.test(name))
+
+const findNestedViolation = (
+  statement: Statement,
+  blockedFunctions: string[],
+  blockedFunctionPatterns: RegExp[]
+): SqlPolicyViolation | null => {
+  let violation: SqlPolicyViolation | null = null
+
+  const modifying = (
+    node: string,
+    location?: SqlPolicyViolation['location']
+  ) => {
+    violation ??= {
+      code: 'data_modifying_statement',
+      message: `${node.toUpperCase()} is not allowed inside a query`,
+      node,
+      location,
+    }
+  }
+
+  const visitor = astVisitor((v) => ({
+    insert: (st) => modifying('insert', st._location),
+    update: (st) => modifying('update', st._location),
+    delete: (st) => modifying('delete', st._location),
+    selection: (st) => {
+      if (st.for) {
+        violation ??= {
+          code: 'locking_clause',
+          message: `FOR ${st.for.type.toUpperCase()} is not allowed`,
+          node: 'for',
+          location: st.for._location,
+        }
+      }
+      v.super().selection(st)
+    },
+    call: (call) => {
+      const name = call.function.name.toLowerCase()
+      if (isBlockedFunction(name, blockedFunctions, blockedFunctionPatterns)) {
+        violation ??= {
+          code: 'blocked_function',
+          message: `Function ${name}() is not allowed`,
+          node: `call:${name}`,
+          location: call.function._location ?? call._location,
+        }
+      }
+      v.super().call(call)
+    },
+  }))
+
+  visitor.statement(statement)
+
+  return violation
+}
+
+/**
+ * Parses a SQL string and checks it against the statement whitelist.
+ * Only a single read statement is accepted; anything the parser cannot
+ * understand is rejected rather than guessed at.
+ */
+export function checkSqlPolicy(
+  sql: string,
+  options: SqlPolicyOptions = {}
+): SqlPolicyResult {
+  const { allowedStatements, blockedFunctions, blockedFunctionPatterns } = {
+    ...SQL_POLICY_CONFIG,
+    ...options,
+  }
+
+  const explainMatch = sql.match(EXPLAIN_PREFIX)
+  const explainPrefix = explainMatch?.[0] ?? ''
+  // Blank out the prefix instead of slicing so node locations still
+  // point into the original SQL
+  const body =
+    ' '.repeat(explainPrefix.length) + sql.slice(explainPrefix.length)
+
+  if (!body.trim()) {
+    return {
+      allowed: false,
+      violation: { code: 'empty', message: 'No SQL query provided' },
+    }
+  }
+
+  let statements: Statement[]
+  try {
+    statements = parse(body, { locationTracking: true })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return {
+      allowed: false,
+      violation: {
+        code: 'parse_error',
+        // The parser appends a long list of expected tokens, keep the first line
+        message: `Could not parse query: ${message.split('\n')[0]}`,
+      },
+    }
+  }
+
+  if (statements.length === 0) {
+    return {
+      allowed: false,
+      violation: { code: 'empty', message: 'No SQL query provided' },
+    }
+  }
+
+  if (statements.length > 1) {
+    return {
+      allowed: false,
+      violation: {
+        code: 'multiple_statements',
+        message: `Only one statement is allowed, found ${statements.length}`,
+        node: statements[1].type,
+        location: statements[1]._location,
+      },
+    }
+  }
+
+  const [statement] = statements
+  const kind = explainPrefix ? 'explain' : statementKind(statement)
+
+  if (!kind || !allowedStatements.includes(kind)) {
+    const node = kind ?? statement.type
+    return {
+      allowed: false,
+      violation: {
+        code: 'statement_not_allowed',
+        message: `${node.toUpperCase()} statements are not allowed`,
+        node,
+        location: statement._location,
+      },
+    }
+  }
+
+  // EXPLAIN only wraps read statements
+  if (kind === 'explain' && !statementKind(statement)) {
+    return {
+      allowed: false,
+      violation: {
+        code: 'statement_not_allowed',
+        message: `EXPLAIN of ${statement.type.toUpperCase()} is not allowed`,
+        node: statement.type,
+        location: statement._location,
+      },
+    }
+  }
+
+  const violation = findNestedViolation(
+    statement,
+    blockedFunctions,
+    blockedFunctionPatterns
+  )
+  if (violation) {
+    return { allowed: false, violation }
+  }
+
+  return { allowed: true, kind, statement, explainPrefix }
+}
+
+export const formatSqlPolicyViolation = (violation: SqlPolicyViolation) =>
+  `This query is not allowed: ${violation.message}` +
+  (violation.location ? ` (at position ${violation.location.start})` : '')
@@ -0,0 +1,261 @@
+import {
+  astMapper,
+  astVisitor,
+  parseFirst,
+  toSql,
+  type From,
+  type Statement,
+} from 'pgsql-ast-parser'
+
+import {
+  ACCESS_SCOPE_CONFIG,
+  type AccessScope,
+  type ScopeLink,
+  type UserRole,
+} from '@/config/diocese'
+import { getSchemaSnapshot } from '@/lib/schema-cache'
+import { checkSqlPolicy, formatSqlPolicyViolation } from '@/lib/sql-policy'
+
+const ROOT_TABLE = 'testing_centers'
+// Guards against cycles in misconfigured scope links
+const MAX_SCOPE_DEPTH = 8
+
+export type ScopedSql =
+  | { allowed: true; sql: string; scopedTables: string[] }
+  | { allowed: false; reason: string }
+
+class ScopeError extends Error {}
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`
+
+const idList = (ids: number[]) => {
+  const safeIds = ids.filter((id) => Number.isInteger(id))
+  return safeIds.length ? safeIds.join(', ') : 'NULL'
+}
+
+const isProtected = (schema: string | undefined, name: string) =>
+  (!schema || schema.toLowerCase() === 'public') &&
+  ACCESS_SCOPE_CONFIG.protectedTables.includes(name.toLowerCase())
+
+/**
+ * Lists the protected tables a statement reads from, wherever they appear
+ * (joins, subqueries, CTE bodies).
+ */
+export function findProtectedTables(statement: Statement): string[] {
+  const tables = new Set<string>()
+
+  astVisitor((v) => ({
+    tableRef: (ref) => {
+      if (isProtected(ref.schema, ref.name)) {
+        tables.add(ref.name.toLowerCase())
+      }
+      v.super().tableRef(ref)
+    },
+  })).statement(statement)
+
+  return Array.from(tables)
+}
+
+const findCteNames = (statement: Statement): string[] => {
+  const names: string[] = []
+
+  astVisitor((v) => ({
+    with: (st) => {
+      names.push(...st.bind.map((b) => b.alias.name.toLowerCase()))
+      v.super().with(st)
+    },
+    withRecursive: (st) => {
+      names.push(st.alias.name.toLowerCase())
+      v.super().withRecursive(st)
+    },
+  })).statement(statement)
+
+  return names
+}
+
+const rootPredicate = (ref: string, scope: AccessScope) => {
+  const predicates = [`${ref}.diocese_id IN (${idList(scope.dioceseIds)})`]
+  if (scope.role === 'school_manager') {
+    predicates.push(`${ref}.id IN (${idList(scope.testingCenterIds)})`)
+  }
+  return predicates.join(' AND ')
+}
+
+const scopePredicate = (
+  table: string,
+  scope: AccessScope,
+  links: Record<string, ScopeLink>,
+  depth = 0
+): string => {
+  const ref = quoteIdent(table)
+  if (table === ROOT_TABLE) {
+    return rootPredicate(ref, scope)
+  }
+
+  const link = links[table]
+  if (!link || depth >= MAX_SCOPE_DEPTH) {
+    throw new ScopeError(
+      `Cannot determine how ${table} relates to ${ROOT_TABLE}, so it cannot be scoped`
+    )
+  }
+
+  const parent = link.references.toLowerCase()
+  return `${ref}.${quoteIdent(link.column)} IN (SELECT ${quoteIdent(parent)}.${quoteIdent(link.referencedColumn)} FROM ${quoteIdent(parent)} WHERE ${scopePredicate(parent, scope, links, depth + 1)})`
+}
+
+/**
+ * Replaces every reference to a protected table with a subquery that only
+ * returns the rows inside the user's scope, keeping the original alias so
+ * the rest of the query is unaffected.
+ */
+export function rewriteForScope(
+  statement: Statement,
+  scope: AccessScope,
+  links: Record<string, ScopeLink>
+): Statement {
+  const shadowed = findCteNames(statement).filter((name) =>
+    ACCESS_SCOPE_CONFIG.protectedTables.includes(name)
+  )
+  if (shadowed.length) {
+    throw new ScopeError(
+      `CTE name ${shadowed[0]} shadows a protected table, please rename it`
+    )
+  }
+
+  const mapper = astMapper((m) => ({
+    fromTable: (from) => {
+      // Map joins first so ON conditions with subqueries are scoped too
+      const mapped = m.super().fromTable(from)
+      if (!mapped || mapped.type !== 'table') {
+        return mapped
+      }
+
+      const { name } = mapped
+      if (!isProtected(name.schema, name.name)) {
+        return mapped
+      }
+
+      const table = name.name.toLowerCase()
+      const scoped = parseFirst(
+        `SELECT * FROM ${quoteIdent(table)} WHERE ${scopePredicate(table, scope, links)}`
+      )
+      if (scoped.type !== 'select') {
+        throw new ScopeError(`Could not scope ${table}`)
+      }
+
+      const replacement: From = {
+        type: 'statement',
+        statement: scoped,
+        alias: name.alias ?? name.name,
+        columnNames: name.columnNames,
+        lateral: mapped.lateral,
+        join: mapped.join,
+      }
+      return replacement
+    },
+  }))
+
+  const rewritten = mapper.statement(statement)
+  if (!rewritten) {
+    throw new ScopeError('Could not scope query')
+  }
+  return rewritten
+}
+
+/**
+ * Builds scope links for the given tables by walking foreign keys
+ * outwards from testing_centers. Links declared in ACCESS_SCOPE_CONFIG win.
+ */
+export async function loadScopeLinks(
+  tables: string[],
+  connectionString: string,
+  role: UserRole
+): Promise<Record<string, ScopeLink>> {
+  const links: Record<string, ScopeLink> = { ...ACCESS_SCOPE_CONFIG.scopeLinks }
+  const missing = tables.filter(
+    (table) => table !== ROOT_TABLE && !links[table]
+  )
+  if (!missing.length) {
+    return links
+  }
+
+  const { foreignKeys } = await getSchemaSnapshot(connectionString, role)
+  const rows = foreignKeys.filter(
+    (fk) => fk.table_schema === 'public' && fk.foreign_table_schema === 'public'
+  )
+
+  // Breadth-first search so every table gets its shortest path
+  const reached = new Set<string>([ROOT_TABLE])
+  let frontier = [ROOT_TABLE]
+  while (frontier.length && missing.some((table) => !reached.has(table))) {
+    const next: string[] = []
+    for (const parent of frontier) {
+      for (const fk of rows) {
+        // child.column -> parent.column
+        if (fk.foreign_table_name === parent && !reached.has(fk.table_name)) {
+          reached.add(fk.table_name)
+          next.push(fk.table_name)
+          links[fk.table_name] ??= {
+            column: fk.column_name,
+            references: parent,
+            referencedColumn: fk.foreign_column_name,
+          }
+        }
+        // parent.column -> child.column
+        if (fk.table_name === parent && !reached.has(fk.foreign_table_name)) {
+          reached.add(fk.foreign_table_name)
+          next.push(fk.foreign_table_name)
+          links[fk.foreign_table_name] ??= {
+            column: fk.foreign_column_name,
+            references: parent,
+            referencedColumn: fk.column_name,
+          }
+        }
+      }
+    }
+    frontier = next
+  }
+
+  return links
+}
+
+/**
+ * Checks a query against the SQL policy and, for scoped roles, rewrites it
+ * so every protected table is filtered to the user's dioceses and testing
+ * centers. The returned SQL is what should actually be executed.
+ */
+export async function scopeSql(
+  sql: string,
+  scope: AccessScope,
+  connectionString: string
+): Promise<ScopedSql> {
+  const policy = checkSqlPolicy(sql)
+  if (!policy.allowed) {
+    return { allowed: false, reason: formatSqlPolicyViolation(policy.violation) }
+  }
+
+  const tables = findProtectedTables(policy.statement)
+  if (scope.role === 'super_admin' || !tables.length) {
+    return { allowed: true, sql, scopedTables: [] }
+  }
+
+  try {
+    const links = await loadScopeLinks(
+      tables,
+      connectionString,
+      scope.role
+    )
+    const rewritten = rewriteForScope(policy.statement, scope, links)
+    return {
+      allowed: true,
+      sql: policy.explainPrefix + toSql.statement(rewritten),
+      scopedTables: tables,
+    }
+  } catch (error) {
+    if (error instanceof ScopeError) {
+      return { allowed: false, reason: error.message }
+    }
+    const message = error instanceof Error ? error.message : String(error)
+    return { allowed: false, reason: `Could not apply access scope: ${message}` }
+  }
+}
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LanguageModelUsage } from 'ai'
+
+import type { Database } from '@/database.types'
+import {
+  budgetState,
+  estimateCost,
+  startOfMonth,
+  sumUsage,
+  tokenCount,
+  type AiUsageKind,
+  type BudgetStatus,
+} from '@/lib/ai-usage'
+import type { ResolvedModel } from '@/lib/model-registry'
+import { createAdminClient, selectAllRows } from '@/utils/supabase/admin'
+
+/**
+ * Stores the tokens and estimated cost of one AI SDK call. Accounting never
+ * fails the request it belongs to, errors are only logged.
+ */
+export async function recordAiUsage({
+  userId,
+  kind,
+  model,
+  usage,
+  chatId = null,
+  messageId = null,
+}: {
+  userId: string
+  kind: AiUsageKind
+  model: ResolvedModel
+  usage: LanguageModelUsage
+  chatId?: string | null
+  messageId?: string | null
+}) {
+  const { error } = await createAdminClient()
+    .from('ai_usage')
+    .insert({
+      user_id: userId,
+      chat_id: chatId,
+      message_id: messageId,
+      kind,
+      model: model.id,
+      uses_project_key: model.usesProjectKey,
+      prompt_tokens: tokenCount(usage.promptTokens),
+      completion_tokens: tokenCount(usage.completionTokens),
+      total_tokens: tokenCount(usage.totalTokens),
+      cost_usd: estimateCost(model.id, usage),
+    })
+
+  if (error) {
+    console.error('Error recording AI usage:', error)
+  }
+}
+
+/**
+ * Every row of `ai_usage_totals` since the date, one per user, chat, model and
+ * kind, read in pages past PostgREST's row cap. `userId` keeps one user's.
+ */
+export function loadUsageTotals(
+  client: SupabaseClient<Database>,
+  since: string,
+  userId?: string
+) {
+  return selectAllRows((from, to) => {
+    let query = client.rpc('ai_usage_totals', { since })
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+    return query
+      .order('user_id')
+      .order('chat_id')
+      .order('model')
+      .order('kind')
+      .range(from, to)
+  })
+}
+
+/** This month's spend on the project's keys against the user's budget */
+export async function loadBudgetStatus(
+  client: SupabaseClient<Database>,
+  userId: string
+): Promise<BudgetStatus> {
+  const [budget, usage] = await Promise.all([
+    client
+      .from('usage_budgets')
+      .select('monthly_limit_usd')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    loadUsageTotals(client, startOfMonth().toISOString(), userId),
+  ])
+
+  if (budget.error) {
+    console.error('Error fetching usage budget:', budget.error)
+  }
+  if (usage.error) {
+    console.error('Error fetching AI usage:', usage.error)
+  }
+
+  const limitUsd = budget.data ? Number(budget.data.monthly_limit_usd) : null
+  const spentUsd = sumUsage(usage.data).projectCostUsd
+
+  return { state: budgetState(spentUsd, limitUsd), spentUsd, limitUsd }
+}
+
+/**
+ * Returns a check every AI call on the project's keys goes through before it
+ * is made. It gives the budget the call counts against, or null for the
+ * user's own keys, which are never stopped. The status is loaded once per
+ * check.
+ */
+export function createBudgetCheck(
+  client: SupabaseClient<Database>,
+  userId: string
+) {
+  let status: Promise<BudgetStatus> | undefined
+  return async (model: ResolvedModel) => {
+    if (!model.usesProjectKey) {
+      return null
+    }
+    status ??= loadBudgetStatus(client, userId)
+    return status
+  }
+}
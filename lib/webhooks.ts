@@ -0,0 +1,158 @@
+import { lookup } from 'node:dns/promises'
+import { lookup as lookupCallback } from 'node:dns'
+import { request } from 'node:https'
+import { BlockList, isIP, type LookupFunction } from 'node:net'
+
+const PRIVATE_ADDRESS_MESSAGE =
+  'Webhooks cannot be sent to local or private network addresses'
+
+// Addresses a webhook must never reach: this host, private networks, link
+// local ones such as cloud metadata services, and other special ranges
+const privateAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 can point back at a private IPv4. IPv4 mapped addresses are
+  // checked against the IPv4 ranges by BlockList itself.
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+export const isPublicAddress = (address: string) => {
+  const family = isIP(address)
+  return (
+    family !== 0 &&
+    !privateAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  )
+}
+
+/**
+ * Checks what can be told from a webhook URL alone. Returns why it cannot
+ * be used, or null when it can.
+ */
+export function checkWebhookUrl(value: string): string | null {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'Enter a valid webhook URL'
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'Webhook URLs must use https'
+  }
+  if (url.username || url.password) {
+    return 'Webhook URLs cannot contain credentials'
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    (isIP(host) && !isPublicAddress(host))
+  ) {
+    return PRIVATE_ADDRESS_MESSAGE
+  }
+  return null
+}
+
+/**
+ * Resolves the webhook's host to tell the user early when it points at a
+ * private network. Sending checks again, the answer can change.
+ */
+export async function checkWebhookHost(value: string): Promise<string | null> {
+  const invalid = checkWebhookUrl(value)
+  if (invalid) {
+    return invalid
+  }
+
+  try {
+    const addresses = await lookup(new URL(value).hostname, { all: true })
+    return addresses.every(({ address }) => isPublicAddress(address))
+      ? null
+      : PRIVATE_ADDRESS_MESSAGE
+  } catch {
+    return 'The webhook host could not be found'
+  }
+}
+
+// Runs for the connection itself, so a host that resolved to a public
+// address when the rule was saved cannot be switched to a private one later
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (!error && !addresses.every(({ address }) => isPublicAddress(address))) {
+      error = new Error(PRIVATE_ADDRESS_MESSAGE)
+    }
+    if (error || options.all) {
+      callback(error, addresses)
+      return
+    }
+    // Callers that did not ask for every address expect the first one
+    const single = callback as unknown as (
+      error: null,
+      address: string,
+      family: number
+    ) => void
+    single(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+/**
+ * POSTs `body` as JSON to a webhook. Only public https hosts are reached
+ * and redirects are not followed, so a webhook cannot be used to call
+ * services inside the network.
+ */
+export function postWebhook(url: string, body: unknown, timeoutMs: number) {
+  const invalid = checkWebhookUrl(url)
+  if (invalid) {
+    return Promise.reject(new Error(invalid))
+  }
+
+  const payload = JSON.stringify(body)
+
+  return new Promise<void>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload),
+        },
+        lookup: publicOnlyLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        // Only the status matters
+        response.resume()
+        const status = response.statusCode ?? 0
+        if (status >= 200 && status < 300) {
+          resolve()
+        } else {
+          reject(new Error(`Webhook responded with ${status}`))
+        }
+      }
+    )
+    req.on('error', reject)
+    req.end(payload)
+  })
+}
@@ -1,4 +1,12 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  // Native module used to render chart images for report emails, and
+  // pdfkit, which reads its font metrics from its package folder
+  serverExternalPackages: ['@resvg/resvg-js', 'pdfkit'],
+  // Fonts embedded in chat PDFs, read from disk at runtime
+  outputFileTracingIncludes: {
+    '/api/chat-export': ['./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans*.ttf'],
+  },
+};
 
 module.exports = nextConfig;
@@ -1,6 +1,14 @@
 import { Message } from 'ai'
 import { create } from 'zustand'
+import { getChatFolders } from '../actions/chat-folders'
 import { getChats } from '../actions/get-chats'
+import { type ChatTree } from '../lib/chat-branches'
+import {
+  DEFAULT_CHAT_FILTER,
+  type ChatFilter,
+  type ChatFolder,
+  type ChatListItem,
+} from '../lib/chats'
 
 type AppState = {
   chat:
@@ -8,37 +16,74 @@ type AppState = {
         id: string
         name: string
         messages: Message[]
+        messageTree: ChatTree
       }
     | null
     | undefined
-  chats: {
-    id: string
-    name: string
-    created_at: string
-  }[]
-  setChats: (chats: AppState['chats']) => void
+  chats: ChatListItem[]
+  hasMoreChats: boolean
+  isLoadingChats: boolean
+  chatFilter: ChatFilter
+  chatFolders: ChatFolder[]
+  setChats: (chats: AppState['chats'], hasMore: boolean) => void
   setChat: (chat: AppState['chat']) => void
+  setChatFilter: (filter: Partial<ChatFilter>) => Promise<void>
+  loadChats: (options?: { reset?: boolean }) => Promise<void>
+  loadChatFolders: () => Promise<void>
   updateChats: () => Promise<void>
 }
 
+// Responses of superseded requests, e.g. an older search, are dropped
+let chatsRequest = 0
+
 export const useAppState = create<AppState>((set, get) => ({
   chat: undefined,
   chats: [],
-  setChats: (chats) => set({ chats }),
+  hasMoreChats: false,
+  isLoadingChats: false,
+  chatFilter: DEFAULT_CHAT_FILTER,
+  chatFolders: [],
+  setChats: (chats, hasMore) => set({ chats, hasMoreChats: hasMore }),
   setChat: (chat) => set({ chat }),
-  updateChats: async () => {
-    // await 3 seconds
-    await new Promise((resolve) => setTimeout(resolve, 3000))
+  setChatFilter: (filter) => {
+    set({ chatFilter: { ...get().chatFilter, ...filter } })
+    return get().loadChats({ reset: true })
+  },
+  loadChats: async ({ reset = false } = {}) => {
+    const request = ++chatsRequest
+    const offset = reset ? 0 : get().chats.length
+    set({ isLoadingChats: true })
 
-    const { data, error } = await getChats()
-    if (error) {
+    const { data } = await getChats(get().chatFilter, offset)
+    if (request !== chatsRequest) {
       return
     }
-
     if (!data) {
+      set({ isLoadingChats: false })
       return
     }
 
-    set({ chats: data })
+    // Chats created since the last page shift offsets, skip duplicates
+    const known = new Set(reset ? [] : get().chats.map((chat) => chat.id))
+    set({
+      chats: [
+        ...(reset ? [] : get().chats),
+        ...data.chats.filter((chat) => !known.has(chat.id)),
+      ],
+      hasMoreChats: data.hasMore,
+      isLoadingChats: false,
+    })
+  },
+  loadChatFolders: async () => {
+    const { data } = await getChatFolders()
+    if (data) {
+      set({ chatFolders: data })
+    }
+  },
+  updateChats: async () => {
+    // await 3 seconds
+    await new Promise((resolve) => setTimeout(resolve, 3000))
+
+    await get().loadChats({ reset: true })
   },
 }))
@@ -0,0 +1,17 @@
+-- Per-user access scope for the analytical database.
+-- Users without a row cannot run queries.
+create table public.user_scopes (
+    user_id uuid primary key references auth.users(id) on delete cascade,
+    role text not null check (role in ('super_admin', 'diocese_manager', 'school_manager')),
+    diocese_ids integer[] not null default '{}',
+    testing_center_ids integer[] not null default '{}',
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+alter table public.user_scopes enable row level security;
+
+-- Users can read their own scope; changes go through the service role
+create policy "Users can read their own scope"
+    on public.user_scopes for select
+    using (auth.uid() = user_id);
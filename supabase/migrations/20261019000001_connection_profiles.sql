@@ -0,0 +1,27 @@
+-- Saved connections to the analytical database. The connection string is
+-- encrypted by the app (CONNECTION_ENCRYPTION_KEY) before it is stored.
+create table public.connection_profiles (
+    id uuid primary key default gen_random_uuid(),
+    owner_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    encrypted_connection_string text not null,
+    -- When set, every user with this role can use the profile
+    shared_role text check (shared_role in ('super_admin', 'diocese_manager', 'school_manager')),
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+create index connection_profiles_owner_id_idx on public.connection_profiles (owner_id);
+
+alter table public.connection_profiles enable row level security;
+
+-- Users can read their own profiles and the ones shared to their role;
+-- changes go through the service role
+create policy "Users can read their own and shared connection profiles"
+    on public.connection_profiles for select
+    using (
+        auth.uid() = owner_id
+        or shared_role = (
+            select role from public.user_scopes where user_id = auth.uid()
+        )
+    );
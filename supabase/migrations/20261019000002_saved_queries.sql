@@ -0,0 +1,25 @@
+-- Queries users keep from their chats, with named parameters (":name")
+-- that are bound when the query runs.
+create table public.saved_queries (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    title text not null,
+    description text,
+    sql text not null,
+    tags text[] not null default '{}',
+    -- Chart config generated for the results, if any
+    chart_config jsonb,
+    -- [{ name, label, type, optionsSql }] for each ":name" in the SQL
+    parameters jsonb not null default '[]',
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+create index saved_queries_user_id_idx on public.saved_queries (user_id);
+
+alter table public.saved_queries enable row level security;
+
+create policy "Users can manage their own saved queries"
+    on public.saved_queries for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
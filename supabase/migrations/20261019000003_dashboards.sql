@@ -0,0 +1,54 @@
+-- Dashboards made of saved query tiles. When shared, the owner's scope at
+-- that time is copied so visibility can be checked against the viewer's
+-- scope. Tiles always run with the viewer's own scope.
+create table public.dashboards (
+    id uuid primary key default gen_random_uuid(),
+    owner_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    description text,
+    -- [{ id, savedQueryId, type, title, width }] in display order
+    tiles jsonb not null default '[]',
+    is_shared boolean not null default false,
+    shared_role text check (shared_role in ('super_admin', 'diocese_manager', 'school_manager')),
+    shared_diocese_ids integer[] not null default '{}',
+    shared_testing_center_ids integer[] not null default '{}',
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+create index dashboards_owner_id_idx on public.dashboards (owner_id);
+
+alter table public.dashboards enable row level security;
+
+-- Shared dashboards are visible to users whose scope covers the owner's:
+-- super admins see all of them, diocese managers those of their dioceses
+-- and school managers those of their own testing centers. Changes go
+-- through the service role.
+create policy "Users can read their own and shared dashboards"
+    on public.dashboards for select
+    using (
+        auth.uid() = owner_id
+        or (
+            is_shared
+            and exists (
+                select 1 from public.user_scopes s
+                where s.user_id = auth.uid()
+                and (
+                    s.role = 'super_admin'
+                    or (
+                        shared_role = 'diocese_manager'
+                        and s.role = 'diocese_manager'
+                        and shared_diocese_ids <@ s.diocese_ids
+                    )
+                    or (
+                        shared_role = 'school_manager'
+                        and shared_diocese_ids <@ s.diocese_ids
+                        and (
+                            s.role = 'diocese_manager'
+                            or shared_testing_center_ids <@ s.testing_center_ids
+                        )
+                    )
+                )
+            )
+        )
+    );
@@ -0,0 +1,54 @@
+-- Saved queries or dashboards emailed on a cron schedule. Reports run with
+-- the owner's scope, changes and runs go through the service role.
+create table public.report_schedules (
+    id uuid primary key default gen_random_uuid(),
+    owner_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    saved_query_id uuid references public.saved_queries(id) on delete cascade,
+    dashboard_id uuid references public.dashboards(id) on delete cascade,
+    connection_profile_id uuid not null references public.connection_profiles(id) on delete cascade,
+    -- Five field cron expression, evaluated in time_zone
+    cron text not null,
+    time_zone text not null default 'UTC',
+    recipients text[] not null,
+    attachment_format text not null default 'csv' check (attachment_format in ('csv', 'xlsx')),
+    -- Values for the ":name" parameters of the report's queries
+    parameter_values jsonb not null default '{}',
+    is_enabled boolean not null default true,
+    next_run_at timestamp with time zone,
+    last_run_at timestamp with time zone,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    check ((saved_query_id is null) <> (dashboard_id is null))
+);
+
+create index report_schedules_owner_id_idx on public.report_schedules (owner_id);
+create index report_schedules_next_run_at_idx on public.report_schedules (next_run_at) where is_enabled;
+
+create table public.report_runs (
+    id uuid primary key default gen_random_uuid(),
+    schedule_id uuid not null references public.report_schedules(id) on delete cascade,
+    status text not null default 'running' check (status in ('running', 'success', 'failed')),
+    error text,
+    row_count integer,
+    started_at timestamp with time zone not null default now(),
+    finished_at timestamp with time zone
+);
+
+create index report_runs_schedule_id_idx on public.report_runs (schedule_id, started_at desc);
+
+alter table public.report_schedules enable row level security;
+alter table public.report_runs enable row level security;
+
+create policy "Users can read their own report schedules"
+    on public.report_schedules for select
+    using (auth.uid() = owner_id);
+
+create policy "Users can read the runs of their own report schedules"
+    on public.report_runs for select
+    using (
+        exists (
+            select 1 from public.report_schedules s
+            where s.id = schedule_id and s.owner_id = auth.uid()
+        )
+    );
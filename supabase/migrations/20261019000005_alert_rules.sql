@@ -0,0 +1,66 @@
+-- Alert rules: a saved query plus a condition on one of its result columns,
+-- evaluated on a cron schedule with the owner's scope. Changes and
+-- evaluations go through the service role.
+create table public.alert_rules (
+    id uuid primary key default gen_random_uuid(),
+    owner_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    saved_query_id uuid not null references public.saved_queries(id) on delete cascade,
+    connection_profile_id uuid not null references public.connection_profiles(id) on delete cascade,
+    parameter_values jsonb not null default '{}',
+    -- A row matches when "column_name operator threshold" holds
+    column_name text not null,
+    operator text not null check (operator in ('lt', 'lte', 'gt', 'gte', 'eq', 'neq')),
+    threshold double precision not null,
+    -- Identifies a matching row across evaluations, e.g. a school name.
+    -- Without it the whole result is one alert.
+    key_column text,
+    cron text not null,
+    time_zone text not null default 'UTC',
+    channel text not null check (channel in ('email', 'webhook')),
+    recipients text[] not null default '{}',
+    webhook_url text,
+    is_enabled boolean not null default true,
+    snoozed_until timestamp with time zone,
+    -- Keys that matched on the last evaluation, only new keys notify again
+    active_keys text[] not null default '{}',
+    next_run_at timestamp with time zone,
+    last_run_at timestamp with time zone,
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now(),
+    check (channel <> 'email' or cardinality(recipients) > 0),
+    check (channel <> 'webhook' or webhook_url is not null)
+);
+
+create index alert_rules_owner_id_idx on public.alert_rules (owner_id);
+create index alert_rules_next_run_at_idx on public.alert_rules (next_run_at) where is_enabled;
+
+create table public.alert_events (
+    id uuid primary key default gen_random_uuid(),
+    rule_id uuid not null references public.alert_rules(id) on delete cascade,
+    status text not null check (status in ('ok', 'triggered', 'failed')),
+    match_count integer not null default 0,
+    -- Matches that were not active on the previous evaluation
+    new_match_count integer not null default 0,
+    notified boolean not null default false,
+    error text,
+    evaluated_at timestamp with time zone not null default now()
+);
+
+create index alert_events_rule_id_idx on public.alert_events (rule_id, evaluated_at desc);
+
+alter table public.alert_rules enable row level security;
+alter table public.alert_events enable row level security;
+
+create policy "Users can read their own alert rules"
+    on public.alert_rules for select
+    using (auth.uid() = owner_id);
+
+create policy "Users can read the events of their own alert rules"
+    on public.alert_events for select
+    using (
+        exists (
+            select 1 from public.alert_rules r
+            where r.id = rule_id and r.owner_id = auth.uid()
+        )
+    );
@@ -0,0 +1,31 @@
+-- Folders, tags, pinning, archiving and full-text search for chats.
+create table public.chat_folders (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name text not null,
+    created_at timestamp with time zone not null default now(),
+    unique (user_id, name)
+);
+
+alter table public.chat_folders enable row level security;
+
+create policy "Users can manage their own chat folders"
+    on public.chat_folders for all
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+alter table public.chats
+    add column is_pinned boolean not null default false,
+    add column archived_at timestamp with time zone,
+    add column folder_id uuid references public.chat_folders(id) on delete set null,
+    add column tags text[] not null default '{}',
+    -- Chat names rank above message contents. Messages are stored as a JSON
+    -- string, its text is capped so long chats stay under the tsvector limit.
+    add column search_vector tsvector generated always as (
+        setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('english', left(coalesce(messages #>> '{}', ''), 200000)), 'B')
+    ) stored;
+
+create index chats_user_id_created_at_idx on public.chats (user_id, is_pinned desc, created_at desc);
+create index chats_search_vector_idx on public.chats using gin (search_vector);
+create index chats_tags_idx on public.chats using gin (tags);
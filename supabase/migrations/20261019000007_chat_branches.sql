@@ -0,0 +1,5 @@
+-- Every message of a chat including edited and regenerated branches.
+-- chats.messages keeps holding the branch that is shown, a null tree means
+-- the chat was never branched.
+alter table public.chats
+    add column message_tree jsonb;
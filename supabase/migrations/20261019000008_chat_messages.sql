@@ -0,0 +1,131 @@
+-- One row per chat message instead of the whole conversation in chats.messages.
+-- Branches from edited questions and regenerated answers share a parent,
+-- chats.leaf_message_id is the last message of the branch that is shown.
+create table public.chat_messages (
+    chat_id uuid not null references public.chats(id) on delete cascade,
+    id text not null,
+    parent_id text,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    -- Keeps siblings in the order they were created
+    seq bigint generated always as identity,
+    role text not null check (role in ('system', 'user', 'assistant', 'data')),
+    content text not null default '',
+    parts jsonb,
+    tool_invocations jsonb,
+    model text,
+    prompt_tokens integer,
+    completion_tokens integer,
+    total_tokens integer,
+    created_at timestamp with time zone not null default now(),
+    search_vector tsvector generated always as (
+        to_tsvector('english', left(content, 200000))
+    ) stored,
+    primary key (chat_id, id),
+    foreign key (chat_id, parent_id)
+        references public.chat_messages(chat_id, id) on delete cascade
+);
+
+create index chat_messages_chat_seq_idx on public.chat_messages (chat_id, seq);
+create index chat_messages_user_created_idx
+    on public.chat_messages (user_id, created_at desc);
+create index chat_messages_search_idx
+    on public.chat_messages using gin (search_vector);
+
+alter table public.chat_messages enable row level security;
+
+create policy "Users can read their own chat messages"
+    on public.chat_messages for select
+    using (auth.uid() = user_id);
+
+create policy "Users can add messages to their own chats"
+    on public.chat_messages for insert
+    with check (
+        auth.uid() = user_id
+        and exists (
+            select 1 from public.chats
+            where chats.id = chat_id and chats.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can update their own chat messages"
+    on public.chat_messages for update
+    using (auth.uid() = user_id)
+    with check (auth.uid() = user_id);
+
+alter table public.chats add column leaf_message_id text;
+
+-- Branched chats keep their tree, the others are a single thread
+insert into public.chat_messages (
+    chat_id, id, parent_id, user_id, role, content, parts, tool_invocations,
+    created_at
+)
+select
+    c.id,
+    node->'message'->>'id',
+    node->>'parentId',
+    c.user_id,
+    node->'message'->>'role',
+    coalesce(node->'message'->>'content', ''),
+    node->'message'->'parts',
+    node->'message'->'toolInvocations',
+    coalesce((node->'message'->>'createdAt')::timestamptz, c.created_at)
+from public.chats c,
+    jsonb_array_elements(c.message_tree->'nodes') with ordinality as n(node, position)
+where c.message_tree is not null
+order by c.id, n.position;
+
+insert into public.chat_messages (
+    chat_id, id, parent_id, user_id, role, content, parts, tool_invocations,
+    created_at
+)
+select
+    c.id,
+    m->>'id',
+    lag(m->>'id') over (partition by c.id order by t.position),
+    c.user_id,
+    m->>'role',
+    coalesce(m->>'content', ''),
+    m->'parts',
+    m->'toolInvocations',
+    coalesce((m->>'createdAt')::timestamptz, c.created_at)
+from public.chats c,
+    jsonb_array_elements((c.messages #>> '{}')::jsonb) with ordinality as t(m, position)
+where c.message_tree is null
+order by c.id, t.position;
+
+update public.chats
+set leaf_message_id = coalesce(
+    message_tree->>'leafId',
+    (messages #>> '{}')::jsonb->-1->>'id'
+);
+
+-- Chat search now covers the name here and the messages in chat_messages
+alter table public.chats
+    drop column search_vector,
+    drop column messages,
+    drop column message_tree;
+
+alter table public.chats
+    add column search_vector tsvector generated always as (
+        to_tsvector('english', name)
+    ) stored;
+
+create index chats_search_vector_idx on public.chats using gin (search_vector);
+
+-- Newest chats whose name or messages match, RLS limits it to the caller's
+create function public.search_chats(search text, max_results integer)
+returns setof uuid
+language sql
+stable
+as $$
+    select c.id
+    from public.chats c
+    where c.search_vector @@ websearch_to_tsquery('english', search)
+        or exists (
+            select 1 from public.chat_messages m
+            where m.chat_id = c.id
+                and m.search_vector @@ websearch_to_tsquery('english', search)
+        )
+    order by c.created_at desc
+    limit max_results;
+$$;
@@ -0,0 +1,33 @@
+-- Links that show a chat or a single SQL result to other signed-in users.
+-- Snapshot links keep the rows captured when the link was made, re-run links
+-- run the SQL again with the viewer's access scope.
+create table public.share_links (
+    id uuid primary key default gen_random_uuid(),
+    token text not null unique,
+    owner_id uuid not null references auth.users(id) on delete cascade,
+    chat_id uuid not null references public.chats(id) on delete cascade,
+    -- Set for a single result, a whole chat has neither
+    message_id text,
+    sql text,
+    mode text not null check (mode in ('snapshot', 'rerun')),
+    connection_profile_id uuid not null
+        references public.connection_profiles(id) on delete cascade,
+    title text not null,
+    -- The shared thread of a chat, frozen when the link was made
+    messages jsonb,
+    -- Results of snapshot links keyed by query
+    results jsonb,
+    expires_at timestamp with time zone,
+    revoked_at timestamp with time zone,
+    created_at timestamp with time zone not null default now(),
+    check ((message_id is null) = (sql is null))
+);
+
+create index share_links_chat_idx on public.share_links (chat_id, created_at desc);
+
+alter table public.share_links enable row level security;
+
+-- Viewers resolve links by token on the server, never through the table
+create policy "Users can read their own share links"
+    on public.share_links for select
+    using (auth.uid() = owner_id);
@@ -0,0 +1,8 @@
+-- Long chats are compacted before they are sent to the model. A summary
+-- covers the thread from the first message up to the row it is stored on,
+-- so every later turn of the same branch can reuse it.
+alter table public.chat_messages
+    add column context_summary text,
+    -- Message annotations of the chat stream, like how the context of the
+    -- turn was compacted and its estimated size
+    add column annotations jsonb;
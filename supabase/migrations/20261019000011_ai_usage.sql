@@ -0,0 +1,79 @@
+-- One row per AI SDK call: chat replies, chat names, context summaries and
+-- chart suggestions. The cost is estimated from the model prices in
+-- config/models.ts at the time of the call.
+create table public.ai_usage (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    -- No foreign keys, the usage of a deleted chat still counts
+    chat_id uuid,
+    message_id text,
+    kind text not null
+        check (kind in ('chat', 'chat_name', 'context_summary', 'chart')),
+    model text not null,
+    -- Calls on the user's own API key are recorded but not billed to us
+    uses_project_key boolean not null,
+    prompt_tokens integer not null default 0,
+    completion_tokens integer not null default 0,
+    total_tokens integer not null default 0,
+    cost_usd numeric(12, 6) not null default 0,
+    created_at timestamp with time zone not null default now()
+);
+
+create index ai_usage_user_created_idx
+    on public.ai_usage (user_id, created_at desc);
+create index ai_usage_created_idx on public.ai_usage (created_at desc);
+
+alter table public.ai_usage enable row level security;
+
+-- Rows are written by the server only, users cannot change their spend
+create policy "Users can read their own AI usage"
+    on public.ai_usage for select
+    using (auth.uid() = user_id);
+
+-- Optional monthly budget of a user, only spend on the project's keys counts
+create table public.usage_budgets (
+    user_id uuid primary key references auth.users(id) on delete cascade,
+    monthly_limit_usd numeric(12, 2) not null check (monthly_limit_usd > 0),
+    updated_by uuid references auth.users(id) on delete set null,
+    updated_at timestamp with time zone not null default now()
+);
+
+alter table public.usage_budgets enable row level security;
+
+create policy "Users can read their own budget"
+    on public.usage_budgets for select
+    using (auth.uid() = user_id);
+
+-- Usage since a date per user, chat, model and kind, RLS limits it to the
+-- caller's rows unless it is called with the service role
+create function public.ai_usage_totals(since timestamp with time zone)
+returns table (
+    user_id uuid,
+    chat_id uuid,
+    model text,
+    kind text,
+    calls bigint,
+    prompt_tokens bigint,
+    completion_tokens bigint,
+    total_tokens bigint,
+    cost_usd numeric,
+    project_cost_usd numeric
+)
+language sql
+stable
+as $$
+    select
+        u.user_id,
+        u.chat_id,
+        u.model,
+        u.kind,
+        count(*),
+        sum(u.prompt_tokens),
+        sum(u.completion_tokens),
+        sum(u.total_tokens),
+        sum(u.cost_usd),
+        coalesce(sum(u.cost_usd) filter (where u.uses_project_key), 0)
+    from public.ai_usage u
+    where u.created_at >= since
+    group by u.user_id, u.chat_id, u.model, u.kind;
+$$;
@@ -0,0 +1,58 @@
+-- Every query run against the analytical database: who ran it, with which
+-- scope, from where, and what came of it. Answers "who looked at what" for
+-- student data, so rows can only be added, never changed or removed.
+create table public.query_audit (
+    id bigint generated always as identity primary key,
+    created_at timestamp with time zone not null default now(),
+    -- No foreign key, the log must outlive deleted accounts
+    user_id uuid not null,
+    role text not null,
+    -- The effective scope the query ran with
+    diocese_ids integer[] not null default '{}',
+    testing_center_ids integer[] not null default '{}',
+    source text not null check (source in (
+        'run_sql', 'chat_tool', 'chat_export', 'result_export', 'saved_query',
+        'dashboard', 'scheduled_report', 'alert', 'share_link'
+    )),
+    -- Agent tool name for chat_tool rows
+    tool text,
+    connection_profile_id uuid,
+    -- The SQL as submitted, before the scope rewrite. Empty for tools that
+    -- only read the catalog.
+    sql_text text,
+    sql_hash text,
+    outcome text not null check (outcome in ('ok', 'rejected', 'error')),
+    row_count integer,
+    duration_ms integer not null,
+    -- Why the policy check blocked the query, or the database error
+    rejection_reason text,
+    error text,
+    chat_id uuid,
+    message_id text
+);
+
+create index query_audit_created_idx on public.query_audit (created_at desc);
+create index query_audit_user_created_idx
+    on public.query_audit (user_id, created_at desc);
+create index query_audit_sql_hash_idx on public.query_audit (sql_hash);
+
+-- No policies: only the service role writes it and super admins read it
+-- through the server
+alter table public.query_audit enable row level security;
+
+create function public.prevent_query_audit_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    raise exception 'query_audit is append-only';
+end;
+$$;
+
+create trigger query_audit_no_update_delete
+    before update or delete on public.query_audit
+    for each row execute function public.prevent_query_audit_changes();
+
+create trigger query_audit_no_truncate
+    before truncate on public.query_audit
+    for each statement execute function public.prevent_query_audit_changes();
@@ -0,0 +1,14 @@
+-- Chats per user in one query for the admin console. Runs with the
+-- caller's rights, so only the service role sees everyone's counts.
+create function public.chat_counts()
+returns table (
+    user_id uuid,
+    chats bigint
+)
+language sql
+stable
+as $$
+    select c.user_id, count(*)
+    from public.chats c
+    group by c.user_id;
+$$;
@@ -0,0 +1,7 @@
+-- The author's scope when a link was made. Snapshots are only shown to
+-- viewers whose scope covers it, the rule shared dashboards use, everyone
+-- else gets the queries run again with their own scope.
+alter table public.share_links
+    add column shared_role text check (shared_role in ('super_admin', 'diocese_manager', 'school_manager')),
+    add column shared_diocese_ids integer[] not null default '{}',
+    add column shared_testing_center_ids integer[] not null default '{}';
@@ -1,4 +1,4 @@
-import { Client } from 'pg'
+import type { ClientBase } from 'pg'
 import { cookies } from 'next/headers'
 import { v4 as uuidv4 } from 'uuid'
 
@@ -56,7 +56,7 @@ export interface Session {
 }
 
 export async function createUser(
-  client: Client,
+  client: ClientBase,
   username: string,
   email: string,
   password: string
@@ -75,7 +75,7 @@ export async function createUser(
 }
 
 export async function validateUser(
-  client: Client,
+  client: ClientBase,
   username: string,
   password: string
 ): Promise<User | null> {
@@ -104,7 +104,7 @@ export async function validateUser(
 }
 
 export async function createSession(
-  client: Client,
+  client: ClientBase,
   userId: number
 ): Promise<Session> {
   const token = uuidv4()
@@ -122,7 +122,7 @@ export async function createSession(
 }
 
 export async function validateSession(
-  client: Client,
+  client: ClientBase,
   token: string
 ): Promise<User | null> {
   const result = await client.query(
@@ -139,7 +139,7 @@ export async function validateSession(
 }
 
 export async function deleteSession(
-  client: Client,
+  client: ClientBase,
   token: string
 ): Promise<void> {
   await client.query(
@@ -0,0 +1,68 @@
+import {
+  createClient as createSupabaseClient,
+  type AuthError,
+  type PostgrestError,
+  type User,
+} from '@supabase/supabase-js'
+import { Database } from '@/database.types'
+
+// Service role client for admin-only server code. It bypasses row level
+// security, never import it from client components.
+export const createAdminClient = () =>
+  createSupabaseClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    }
+  )
+
+const USERS_PAGE_SIZE = 1000
+
+// listUsers returns one page at a time, this reads all of them
+export async function listAllUsers(
+  admin: ReturnType<typeof createAdminClient>
+): Promise<{ users: User[]; error: AuthError | null }> {
+  const users: User[] = []
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({
+      page,
+      perPage: USERS_PAGE_SIZE,
+    })
+    if (error) {
+      return { users, error }
+    }
+    users.push(...data.users)
+    if (data.users.length < USERS_PAGE_SIZE) {
+      return { users, error: null }
+    }
+  }
+}
+
+const ROWS_PAGE_SIZE = 1000
+
+/**
+ * PostgREST cuts responses off at 1000 rows, this reads all of them.
+ * `page` builds the query for one range, it needs a stable order.
+ */
+export async function selectAllRows<T>(
+  page: (
+    from: number,
+    to: number
+  ) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<{ data: T[]; error: PostgrestError | null }> {
+  const rows: T[] = []
+  for (let from = 0; ; from += ROWS_PAGE_SIZE) {
+    const { data, error } = await page(from, from + ROWS_PAGE_SIZE - 1)
+    if (error) {
+      return { data: rows, error }
+    }
+    rows.push(...(data ?? []))
+    if (!data || data.length < ROWS_PAGE_SIZE) {
+      return { data: rows, error: null }
+    }
+  }
+}